@@ -0,0 +1,116 @@
+import { z } from 'zod';
+
+export interface QuizAnswer {
+  /** Indices into `content.answers`. */
+  selectedAnswers: number[];
+}
+
+export interface BlanksAnswer {
+  /** Option placed in each blank, keyed by blank id. */
+  placements: Record<string, string | null>;
+}
+
+export interface OpenAnswer {
+  text: string;
+}
+
+export interface SequencingAnswer {
+  /** Item ids in the order the student placed them; `null` marks an empty slot. */
+  order: Array<string | null>;
+}
+
+export interface PairingAnswer {
+  connections: Array<{ leftId: string; rightId: string }>;
+}
+
+export interface ProgrammingAnswer {
+  code: string;
+}
+
+export type InteractiveAnswer =
+  | { interactionType: 'quiz' | 'click'; selectedIds: string[] }
+  | { interactionType: 'drag-drop'; placements: Record<string, string | null> }
+  | { interactionType: 'input'; value: string };
+
+/** Answer payload reported by each tile type students can answer. */
+export interface TileAnswerByType {
+  quiz: QuizAnswer;
+  blanks: BlanksAnswer;
+  open: OpenAnswer;
+  sequencing: SequencingAnswer;
+  pairing: PairingAnswer;
+  programming: ProgrammingAnswer;
+  interactive: InteractiveAnswer;
+}
+
+export type AnswerableTileType = keyof TileAnswerByType;
+
+export type TileAnswer<TType extends AnswerableTileType = AnswerableTileType> = TileAnswerByType[TType];
+
+export const answerableTileTypeSchema = z.enum([
+  'quiz',
+  'blanks',
+  'open',
+  'sequencing',
+  'pairing',
+  'programming',
+  'interactive',
+]);
+
+/**
+ * Stored shape of a single evaluated attempt. The answer payload is only checked
+ * structurally by the tile type that produced it, so it stays `unknown` here.
+ */
+export const tileAttemptSchema = z.object({
+  tileId: z.string(),
+  tileType: answerableTileTypeSchema,
+  answer: z.unknown(),
+  isCorrect: z.boolean(),
+  score: z.number().nonnegative(),
+  maxScore: z.number().positive(),
+  /** 1-based number of the attempt on this tile. */
+  attempt: z.number().int().positive(),
+  /** ISO timestamp of the evaluation. */
+  timestamp: z.string(),
+});
+
+type StoredTileAttempt = z.infer<typeof tileAttemptSchema>;
+
+/** Result of a student pressing "check" on a tile. */
+export type TileAttempt<TType extends AnswerableTileType = AnswerableTileType> = {
+  [K in TType]: Omit<StoredTileAttempt, 'tileType' | 'answer'> & { tileType: K; answer: TileAnswer<K> };
+}[TType];
+
+/** Emitted whenever the student changes an answer, before it is evaluated. */
+export type TileAnswerChange<TType extends AnswerableTileType = AnswerableTileType> = {
+  [K in TType]: { tileId: string; tileType: K; answer: TileAnswer<K> };
+}[TType];
+
+export interface TileAttemptResult {
+  isCorrect: boolean;
+  /** Defaults to `maxScore` for a correct answer and 0 otherwise. */
+  score?: number;
+  /** Defaults to 1. */
+  maxScore?: number;
+}
+
+export const createTileAttempt = <TType extends AnswerableTileType>(
+  tile: { id: string; type: TType },
+  answer: TileAnswer<TType>,
+  result: TileAttemptResult,
+  attempt: number,
+): TileAttempt<TType> => {
+  const maxScore = result.maxScore ?? 1;
+  const score = result.score ?? (result.isCorrect ? maxScore : 0);
+
+  return {
+    tileId: tile.id,
+    tileType: tile.type,
+    answer,
+    isCorrect: result.isCorrect,
+    score: Math.min(maxScore, Math.max(0, score)),
+    maxScore,
+    attempt,
+    timestamp: new Date().toISOString(),
+  } as TileAttempt<TType>;
+};
@@ -0,0 +1,119 @@
+import { AnswerableTileType, TileAnswer, answerableTileTypeSchema } from './attempts';
+import type { ExamSession, LessonProgress } from './progress';
+import { ScorableTileType, TileScore, getTileWeight, isScorableTileType, scoreTileAnswer } from './scoring';
+import type { LessonTile } from './types';
+
+export interface ExamTileResult {
+  tileId: string;
+  tileType: AnswerableTileType;
+  page: number;
+  isAnswered: boolean;
+  /** `null` for tiles that cannot be graded automatically, e.g. programming tasks. */
+  result: TileScore | null;
+}
+
+export interface ExamPageResult {
+  page: number;
+  score: number;
+  maxScore: number;
+  tiles: ExamTileResult[];
+}
+
+export interface ExamResult {
+  score: number;
+  maxScore: number;
+  pages: ExamPageResult[];
+  /** Tiles left for the teacher to grade; they are not part of `score` or `maxScore`. */
+  ungradedTiles: ExamTileResult[];
+}
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+const gradeTile = (tile: LessonTile<AnswerableTileType>, answer: unknown): ExamTileResult => {
+  const base = {
+    tileId: tile.id,
+    tileType: tile.type,
+    page: tile.page ?? 1,
+    isAnswered: answer !== undefined,
+  };
+
+  if (!isScorableTileType(tile.type)) {
+    return { ...base, result: null };
+  }
+
+  if (answer === undefined) {
+    return { ...base, result: { isCorrect: false, score: 0, maxScore: getTileWeight(tile) } };
+  }
+
+  return {
+    ...base,
+    result: scoreTileAnswer(tile as LessonTile<ScorableTileType>, answer as TileAnswer<ScorableTileType>),
+  };
+};
+
+/**
+ * Grades every answerable tile of a lesson with the same scorers the runtime uses for
+ * immediate feedback. Tiles the student never touched score zero.
+ */
+export const gradeLessonAnswers = (
+  tiles: LessonTile[],
+  answers: Readonly<Record<string, unknown>>
+): ExamResult => {
+  const graded = tiles
+    .filter((tile): tile is LessonTile<AnswerableTileType> => answerableTileTypeSchema.safeParse(tile.type).success)
+    .sort((a, b) => (a.page ?? 1) - (b.page ?? 1) || a.gridPosition.row - b.gridPosition.row || a.gridPosition.col - b.gridPosition.col)
+    .map(tile => gradeTile(tile, answers[tile.id]));
+
+  const pages = new Map<number, ExamPageResult>();
+  for (const tileResult of graded) {
+    const page = pages.get(tileResult.page) ?? { page: tileResult.page, score: 0, maxScore: 0, tiles: [] };
+    page.tiles.push(tileResult);
+    if (tileResult.result) {
+      page.score = roundScore(page.score + tileResult.result.score);
+      page.maxScore = roundScore(page.maxScore + tileResult.result.maxScore);
+    }
+    pages.set(tileResult.page, page);
+  }
+
+  const pageResults = Array.from(pages.values()).sort((a, b) => a.page - b.page);
+
+  return {
+    score: roundScore(pageResults.reduce((sum, page) => sum + page.score, 0)),
+    maxScore: roundScore(pageResults.reduce((sum, page) => sum + page.maxScore, 0)),
+    pages: pageResults,
+    ungradedTiles: graded.filter(tileResult => tileResult.result === null),
+  };
+};
+
+/** Collects the latest answer of every tile from saved progress. */
+export const getProgressAnswers = (progress: Pick<LessonProgress, 'tiles'>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(progress.tiles).map(([tileId, entry]) => [tileId, entry.answer]));
+
+/** Starts a fresh exam; a retake counts as a new attempt and gets a new answer order. */
+export const startExam = (progress: LessonProgress, timeLimitMinutes?: number): LessonProgress => ({
+  ...progress,
+  tiles: {},
+  attempt: progress.exam ? (progress.attempt ?? 1) + 1 : progress.attempt ?? 1,
+  activePage: 1,
+  savedAt: new Date().toISOString(),
+  exam: {
+    startedAt: new Date().toISOString(),
+    ...(timeLimitMinutes && timeLimitMinutes > 0 ? { timeLimitMinutes } : {}),
+  },
+});
+
+export const submitExam = (progress: LessonProgress): LessonProgress =>
+  !progress.exam || progress.exam.submittedAt
+    ? progress
+    : {
+        ...progress,
+        savedAt: new Date().toISOString(),
+        exam: { ...progress.exam, submittedAt: new Date().toISOString() },
+      };
+
+/** Epoch milliseconds at which the exam closes, or `null` without a time limit. */
+export const getExamDeadline = (session: ExamSession): number | null => {
+  if (!session.timeLimitMinutes) return null;
+  const startedAt = Date.parse(session.startedAt);
+  return Number.isNaN(startedAt) ? null : startedAt + session.timeLimitMinutes * 60_000;
+};
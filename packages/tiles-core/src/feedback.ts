@@ -0,0 +1,53 @@
+import type { AnswerableTileType } from './attempts';
+import type { LessonTile, TileFeedback, TileHint } from './types';
+
+/** Messages used when the author did not write their own. */
+export const DEFAULT_FEEDBACK_MESSAGES = {
+  correct: 'Świetnie! To poprawna odpowiedź.',
+  incorrect: 'Spróbuj ponownie.',
+} as const;
+
+/**
+ * Feedback of any task tile in one shape. Sequencing tiles predate `feedback` and keep
+ * their messages in `correctFeedback` / `incorrectFeedback`.
+ */
+export const getTileFeedback = (tile: LessonTile<AnswerableTileType>): TileFeedback => {
+  if (tile.type === 'sequencing') {
+    const { content } = tile as LessonTile<'sequencing'>;
+    return {
+      correct: content.correctFeedback,
+      incorrect: content.incorrectFeedback,
+      hints: content.feedback?.hints,
+    };
+  }
+
+  return (tile.content as { feedback?: TileFeedback }).feedback ?? {};
+};
+
+/** Content update that stores `feedback` where `getTileFeedback` reads it from. */
+export const applyTileFeedback = <TTile extends LessonTile<AnswerableTileType>>(
+  tile: TTile,
+  feedback: TileFeedback
+): TTile['content'] => {
+  if (tile.type === 'sequencing') {
+    const { content } = tile as LessonTile<'sequencing'>;
+    return {
+      ...content,
+      correctFeedback: feedback.correct ?? '',
+      incorrectFeedback: feedback.incorrect ?? '',
+      feedback: feedback.hints?.length ? { hints: feedback.hints } : undefined,
+    } as TTile['content'];
+  }
+
+  return { ...tile.content, feedback } as TTile['content'];
+};
+
+/** Hints unlocked by the number of wrong attempts so far, in the order they unlock. */
+export const getUnlockedHints = (feedback: TileFeedback, failedAttempts: number): TileHint[] =>
+  (feedback.hints ?? [])
+    .filter(hint => hint.afterAttempts <= failedAttempts && hasRichTextContent(hint.text))
+    .sort((a, b) => a.afterAttempts - b.afterAttempts);
+
+/** Treats markup without any visible text (e.g. an emptied editor's `<p></p>`) as missing. */
+export const hasRichTextContent = (html: string | undefined): html is string =>
+  Boolean(html && html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim().length > 0);
@@ -1,2 +1,12 @@
 export * from './types';
+export * from './migrations';
 export * from './utils';
+export * from './attempts';
+export * from './scoring';
+export * from './progress';
+export * from './exam';
+export * from './pages';
+export * from './feedback';
+export * from './shuffle';
+export * from './questionBanks';
+export * from './sanitize';
@@ -0,0 +1,390 @@
+import {
+  LESSON_FORMAT_VERSION,
+  LessonTile,
+  TILE_VERSION,
+  TileDataByType,
+  TileType,
+  interactionTypeSchema,
+  interactiveTileContentSchema
+} from './types';
+import { createInteractiveData } from './utils/interactive';
+import { compareVersions, parseVersion, satisfiesVersionRange } from './utils/semver';
+
+/**
+ * Version assumed for tiles persisted before the `version` field was introduced.
+ */
+export const LEGACY_TILE_VERSION = '1.0.0';
+
+/**
+ * Version assumed for lessons persisted before `format_version` was introduced.
+ */
+export const LEGACY_LESSON_FORMAT_VERSION = '1.0.0';
+
+/**
+ * Loose tile shape used by migration steps. Older tiles do not have to match the
+ * current Zod schema, so steps operate on plain records and return the upgraded shape.
+ */
+export type MigratableTile = Record<string, unknown> & {
+  id: string;
+  type: TileType;
+  version?: string;
+  content?: Record<string, unknown>;
+};
+
+export interface TileMigration {
+  /** Stable identifier reported back to callers, e.g. `open/accepted-answers`. */
+  id: string;
+  /** Semver range the stored tile version has to satisfy for the step to run. */
+  from: string;
+  /** Version the tile has after the step ran. Must be greater than every version in `from`. */
+  to: string;
+  description?: string;
+  migrate: (tile: MigratableTile) => MigratableTile;
+}
+
+/**
+ * Loose lesson document shape used by lesson-level migration steps, which run
+ * before the document is validated against `lessonSchema`.
+ */
+export type MigratableLesson = Record<string, unknown> & {
+  format_version?: string;
+  tiles?: unknown;
+};
+
+export interface LessonMigration {
+  /** Stable identifier reported back to callers, e.g. `lesson/page-settings`. */
+  id: string;
+  /** Semver range the stored `format_version` has to satisfy for the step to run. */
+  from: string;
+  /** `format_version` of the document after the step ran. */
+  to: string;
+  description?: string;
+  migrate: (lesson: MigratableLesson) => MigratableLesson;
+}
+
+export interface LessonMigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  applied: string[];
+  tiles: TileMigrationReport[];
+}
+
+export type TileMigrationRegistry = Partial<Record<TileType | '*', TileMigration[]>>;
+
+export interface TileMigrationReport {
+  tileId: string;
+  tileType: TileType;
+  fromVersion: string;
+  toVersion: string;
+  applied: string[];
+}
+
+export interface TileMigrationResult<T extends LessonTile = LessonTile> {
+  tile: T;
+  report: TileMigrationReport;
+}
+
+export class UnsupportedTileVersionError extends Error {
+  readonly tileId: string;
+  readonly tileType: TileType;
+  readonly tileVersion: string;
+
+  constructor(tile: Pick<MigratableTile, 'id' | 'type'>, tileVersion: string, reason: string) {
+    super(`Tile "${tile.id}" (${tile.type}) has version ${tileVersion}: ${reason}`);
+    this.name = 'UnsupportedTileVersionError';
+    this.tileId = tile.id;
+    this.tileType = tile.type;
+    this.tileVersion = tileVersion;
+  }
+}
+
+export class UnsupportedLessonVersionError extends Error {
+  readonly lessonVersion: string;
+
+  constructor(lessonVersion: string, reason: string) {
+    super(`Lesson document has format version ${lessonVersion}: ${reason}`);
+    this.name = 'UnsupportedLessonVersionError';
+    this.lessonVersion = lessonVersion;
+  }
+}
+
+/**
+ * Migration steps keyed by tile type. Steps registered under `*` run for every tile type
+ * before the type-specific ones matching the same version.
+ */
+const TILE_MIGRATIONS: TileMigrationRegistry = {};
+
+export const registerTileMigration = (tileType: TileType | '*', migration: TileMigration): void => {
+  const steps = TILE_MIGRATIONS[tileType] ?? [];
+
+  if (steps.some(step => step.id === migration.id)) {
+    throw new Error(`Tile migration "${migration.id}" is already registered for "${tileType}"`);
+  }
+
+  TILE_MIGRATIONS[tileType] = [...steps, migration];
+};
+
+export const getTileMigrations = (tileType: TileType): TileMigration[] => [
+  ...(TILE_MIGRATIONS['*'] ?? []),
+  ...(TILE_MIGRATIONS[tileType] ?? [])
+];
+
+const findNextStep = (tileType: TileType, version: string): TileMigration | undefined =>
+  getTileMigrations(tileType).find(
+    step => satisfiesVersionRange(version, step.from) && compareVersions(step.to, version) > 0
+  );
+
+const runTileMigrations = (
+  tile: MigratableTile
+): { tile: MigratableTile; report: TileMigrationReport } => {
+  const fromVersion = typeof tile.version === 'string' && tile.version ? tile.version : LEGACY_TILE_VERSION;
+
+  if (!parseVersion(fromVersion)) {
+    throw new UnsupportedTileVersionError(tile, fromVersion, 'version is not a valid semver string');
+  }
+
+  if (compareVersions(fromVersion, TILE_VERSION) > 0) {
+    throw new UnsupportedTileVersionError(
+      tile,
+      fromVersion,
+      `tile was created with a newer format than supported (${TILE_VERSION})`
+    );
+  }
+
+  let current = tile;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  for (let step = findNextStep(tile.type, version); step; step = findNextStep(tile.type, version)) {
+    if (compareVersions(step.to, TILE_VERSION) > 0) {
+      throw new Error(`Tile migration "${step.id}" targets ${step.to}, newer than TILE_VERSION ${TILE_VERSION}`);
+    }
+
+    current = step.migrate(current);
+    version = step.to;
+    applied.push(step.id);
+  }
+
+  return {
+    tile: { ...current, version: TILE_VERSION },
+    report: {
+      tileId: tile.id,
+      tileType: tile.type,
+      fromVersion,
+      toVersion: TILE_VERSION,
+      applied
+    }
+  };
+};
+
+/**
+ * Upgrade a single tile step by step until it reaches `TILE_VERSION`.
+ * Throws `UnsupportedTileVersionError` for tiles written by a newer editor
+ * or carrying a version string that cannot be parsed.
+ */
+export const migrateTile = <TType extends TileType>(
+  tile: TileDataByType<TType>
+): TileMigrationResult<TileDataByType<TType>> => {
+  const { tile: migrated, report } = runTileMigrations(tile as unknown as MigratableTile);
+
+  return {
+    tile: migrated as unknown as TileDataByType<TType>,
+    report
+  };
+};
+
+export const migrateTiles = <T extends LessonTile>(
+  tiles: T[]
+): { tiles: T[]; reports: TileMigrationReport[] } => {
+  const results = tiles.map(tile => migrateTile(tile));
+
+  return {
+    tiles: results.map(result => result.tile as T),
+    reports: results.filter(result => result.report.applied.length > 0).map(result => result.report)
+  };
+};
+
+export function migrateTileConfig<TType extends TileType>(tile: TileDataByType<TType>): TileDataByType<TType> {
+  return migrateTile(tile).tile;
+}
+
+const LESSON_MIGRATIONS: LessonMigration[] = [];
+
+export const registerLessonMigration = (migration: LessonMigration): void => {
+  if (LESSON_MIGRATIONS.some(step => step.id === migration.id)) {
+    throw new Error(`Lesson migration "${migration.id}" is already registered`);
+  }
+
+  LESSON_MIGRATIONS.push(migration);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMigratableTile = (value: unknown): value is MigratableTile =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.type === 'string';
+
+/**
+ * Upgrade a raw lesson document (as read from storage or an API) to `LESSON_FORMAT_VERSION`,
+ * then upgrade every tile it contains. Runs before Zod validation so that older documents
+ * keep passing `lessonSchema` after the schema changes. Values that are not objects are
+ * returned untouched and left for the schema to reject.
+ */
+export const migrateLessonDocument = (
+  raw: unknown
+): { lesson: unknown; report: LessonMigrationReport | null } => {
+  if (!isRecord(raw)) {
+    return { lesson: raw, report: null };
+  }
+
+  const fromVersion =
+    typeof raw.format_version === 'string' && raw.format_version
+      ? raw.format_version
+      : LEGACY_LESSON_FORMAT_VERSION;
+
+  if (!parseVersion(fromVersion)) {
+    throw new UnsupportedLessonVersionError(fromVersion, 'version is not a valid semver string');
+  }
+
+  if (compareVersions(fromVersion, LESSON_FORMAT_VERSION) > 0) {
+    throw new UnsupportedLessonVersionError(
+      fromVersion,
+      `lesson was saved with a newer format than supported (${LESSON_FORMAT_VERSION})`
+    );
+  }
+
+  let current: MigratableLesson = raw;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  const findNextLessonStep = () =>
+    LESSON_MIGRATIONS.find(
+      step => satisfiesVersionRange(version, step.from) && compareVersions(step.to, version) > 0
+    );
+
+  for (let step = findNextLessonStep(); step; step = findNextLessonStep()) {
+    if (compareVersions(step.to, LESSON_FORMAT_VERSION) > 0) {
+      throw new Error(
+        `Lesson migration "${step.id}" targets ${step.to}, newer than LESSON_FORMAT_VERSION ${LESSON_FORMAT_VERSION}`
+      );
+    }
+
+    current = step.migrate(current);
+    version = step.to;
+    applied.push(step.id);
+  }
+
+  const tileReports: TileMigrationReport[] = [];
+  const tiles = Array.isArray(current.tiles)
+    ? current.tiles.map(tile => {
+        if (!isMigratableTile(tile)) {
+          return tile;
+        }
+
+        const result = runTileMigrations(tile);
+        if (result.report.applied.length > 0) {
+          tileReports.push(result.report);
+        }
+        return result.tile;
+      })
+    : current.tiles;
+
+  return {
+    lesson: { ...current, tiles, format_version: LESSON_FORMAT_VERSION },
+    report: {
+      fromVersion,
+      toVersion: LESSON_FORMAT_VERSION,
+      applied,
+      tiles: tileReports
+    }
+  };
+};
+
+/**
+ * Chart data used to be an untyped `{ labels, values }` pair describing a single series.
+ * Anything else stored under `data` was never rendered and is dropped.
+ */
+registerTileMigration('visualization', {
+  id: 'visualization/series-data',
+  from: '<1.1.0',
+  to: '1.1.0',
+  description: 'Move chart values into a typed `series` list.',
+  migrate: tile => {
+    const content = tile.content ?? {};
+    const data = content.data;
+    if (!isRecord(data) || 'series' in data) {
+      return isRecord(data) ? tile : { ...tile, content: { ...content, data: undefined } };
+    }
+
+    const labels = Array.isArray(data.labels) ? data.labels.map(label => String(label)) : [];
+    const values = Array.isArray(data.values)
+      ? data.values.map(value => Number(value)).filter(value => Number.isFinite(value))
+      : [];
+
+    return {
+      ...tile,
+      content: {
+        ...content,
+        data: { labels, series: [{ id: 'series-1', name: 'Seria 1', values }] }
+      }
+    };
+  }
+});
+
+/**
+ * Interactive tiles used to carry an untyped `data` payload that nothing could render.
+ * Payloads matching the typed schema for their interaction type are kept; anything else is
+ * replaced with the starting payload for that type (unknown types fall back to `quiz`).
+ */
+registerTileMigration('interactive', {
+  id: 'interactive/typed-data',
+  from: '<1.2.0',
+  to: '1.2.0',
+  description: 'Validate the interaction payload against its per-type schema.',
+  migrate: tile => {
+    const content = tile.content ?? {};
+    const parsedType = interactionTypeSchema.safeParse(content.interactionType);
+    const interactionType = parsedType.success ? parsedType.data : 'quiz';
+    const candidate = {
+      title: typeof content.title === 'string' ? content.title : '',
+      description: typeof content.description === 'string' ? content.description : '',
+      interactionType,
+      data: content.data
+    };
+
+    const parsed = interactiveTileContentSchema.safeParse(candidate);
+    return {
+      ...tile,
+      content: {
+        ...content,
+        ...(parsed.success ? parsed.data : { ...candidate, data: createInteractiveData(interactionType) })
+      }
+    };
+  }
+});
+
+/**
+ * Open tiles used to accept a single `correctAnswer` string. It becomes the first entry of
+ * `acceptedAnswers`; an empty one is dropped.
+ */
+registerTileMigration('open', {
+  id: 'open/accepted-answers',
+  from: '<1.3.0',
+  to: '1.3.0',
+  description: 'Move the correct answer into the `acceptedAnswers` list.',
+  migrate: tile => {
+    const { correctAnswer, ...content } = tile.content ?? {};
+    if (Array.isArray(content.acceptedAnswers)) {
+      return { ...tile, content };
+    }
+
+    const value = typeof correctAnswer === 'string' ? correctAnswer : '';
+    return {
+      ...tile,
+      content: {
+        ...content,
+        acceptedAnswers: value.trim() ? [{ id: 'answer-1', value }] : []
+      }
+    };
+  }
+});
@@ -0,0 +1,85 @@
+import { answerableTileTypeSchema } from './attempts';
+import type { TileProgress } from './progress';
+import type { CompletionRequirement, Lesson, LessonTile, PageSettings } from './types';
+
+export const DEFAULT_COMPLETION_REQUIREMENT: CompletionRequirement = 'none';
+
+export const getPageCompletionRequirement = (
+  lesson: Pick<Lesson, 'page_settings'>,
+  page: number
+): CompletionRequirement =>
+  lesson.page_settings?.find(settings => settings.page === page)?.completionRequirement ??
+  DEFAULT_COMPLETION_REQUIREMENT;
+
+/** Returns new page settings with the requirement of one page replaced. */
+export const setPageCompletionRequirement = (
+  pageSettings: PageSettings[] | undefined,
+  page: number,
+  completionRequirement: CompletionRequirement
+): PageSettings[] => {
+  const others = (pageSettings ?? []).filter(settings => settings.page !== page);
+  const next =
+    completionRequirement === DEFAULT_COMPLETION_REQUIREMENT ? others : [...others, { page, completionRequirement }];
+  return next.sort((a, b) => a.page - b.page);
+};
+
+/** Drops the settings of a deleted page and shifts the following pages down by one. */
+export const removePageSettings = (pageSettings: PageSettings[] | undefined, deletedPage: number): PageSettings[] =>
+  (pageSettings ?? [])
+    .filter(settings => settings.page !== deletedPage)
+    .map(settings => (settings.page > deletedPage ? { ...settings, page: settings.page - 1 } : settings));
+
+export const getTileCompletionRequirement = (
+  tile: Pick<LessonTile, 'type' | 'completionRequirement'>,
+  pageRequirement: CompletionRequirement
+): CompletionRequirement => {
+  if (!answerableTileTypeSchema.safeParse(tile.type).success) {
+    return 'none';
+  }
+  return tile.completionRequirement ?? pageRequirement;
+};
+
+export const isCompletionRequirementMet = (
+  requirement: CompletionRequirement,
+  progress: Pick<TileProgress, 'attempts' | 'solved'> | undefined
+): boolean => {
+  switch (requirement) {
+    case 'none':
+      return true;
+    case 'attempted':
+      return (progress?.attempts ?? 0) > 0;
+    case 'correct':
+      return Boolean(progress?.solved);
+  }
+};
+
+/** Tiles on the page that still keep the student from moving on. */
+export const getBlockingTiles = (
+  lesson: Pick<Lesson, 'tiles' | 'page_settings'>,
+  page: number,
+  tileProgress: Readonly<Record<string, TileProgress>>
+): LessonTile[] => {
+  const pageRequirement = getPageCompletionRequirement(lesson, page);
+
+  return lesson.tiles.filter(
+    tile =>
+      (tile.page ?? 1) === page &&
+      !isCompletionRequirementMet(getTileCompletionRequirement(tile, pageRequirement), tileProgress[tile.id])
+  );
+};
+
+/**
+ * Highest page the student may open: every page before it has all of its requirements met.
+ */
+export const getLastUnlockedPage = (
+  lesson: Pick<Lesson, 'tiles' | 'page_settings' | 'total_pages'>,
+  tileProgress: Readonly<Record<string, TileProgress>>
+): number => {
+  const totalPages = Math.max(1, lesson.total_pages);
+  for (let page = 1; page < totalPages; page += 1) {
+    if (getBlockingTiles(lesson, page, tileProgress).length > 0) {
+      return page;
+    }
+  }
+  return totalPages;
+};
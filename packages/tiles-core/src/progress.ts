@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import {
+  AnswerableTileType,
+  TileAnswer,
+  TileAnswerChange,
+  TileAttempt,
+  answerableTileTypeSchema,
+  tileAttemptSchema,
+} from './attempts';
+import { isQuestionBankItemType } from './questionBanks';
+import { DEFAULT_SHUFFLE_SEED, createShuffleSeed } from './shuffle';
+
+export const tileProgressSchema = z.object({
+  tileType: answerableTileTypeSchema,
+  /** Latest answer, whether or not it was checked. */
+  answer: z.unknown().optional(),
+  /** Number of evaluated attempts so far. */
+  attempts: z.number().int().nonnegative(),
+  /** Attempts that were not correct; unlocks hints. */
+  failedAttempts: z.number().int().nonnegative().optional(),
+  lastAttempt: tileAttemptSchema.optional(),
+  /** Set once any attempt was correct; later wrong attempts do not clear it. */
+  solved: z.boolean().optional(),
+});
+
+/** Timing of an exam attempt; a submitted exam no longer accepts answers. */
+export const examSessionSchema = z.object({
+  startedAt: z.string(),
+  submittedAt: z.string().optional(),
+  timeLimitMinutes: z.number().positive().optional(),
+});
+
+/**
+ * Everything a student did in one lesson. `lessonUpdatedAt` pins the progress to the lesson
+ * revision it was recorded against; answers for another revision may reference tiles,
+ * options or blanks that no longer exist.
+ */
+export const lessonProgressSchema = z.object({
+  lessonId: z.string(),
+  lessonUpdatedAt: z.string(),
+  activePage: z.number().int().positive(),
+  tiles: z.record(tileProgressSchema),
+  savedAt: z.string(),
+  /** Whose progress this is; together with `attempt` it seeds every shuffled order. */
+  studentId: z.string().optional(),
+  /** Starts at 1 and grows with every fresh start of the lesson, e.g. each exam retake. */
+  attempt: z.number().int().positive().optional(),
+  exam: examSessionSchema.optional(),
+});
+
+export type TileProgress = z.infer<typeof tileProgressSchema>;
+export type LessonProgress = z.infer<typeof lessonProgressSchema>;
+export type ExamSession = z.infer<typeof examSessionSchema>;
+
+/** Evaluation shown on a tile when its state is restored. */
+export type TileEvaluationState = 'idle' | 'success' | 'error';
+
+/** Typed view of a tile's saved progress, as handed back to the interactive that produced it. */
+export interface RestoredTileState<TType extends AnswerableTileType = AnswerableTileType> {
+  answer: TileAnswer<TType>;
+  attempts: number;
+  failedAttempts: number;
+  evaluation: TileEvaluationState;
+}
+
+export const createLessonProgress = (
+  lesson: { id: string; updated_at: string },
+  activePage = 1,
+  studentId?: string,
+): LessonProgress => ({
+  lessonId: lesson.id,
+  lessonUpdatedAt: lesson.updated_at,
+  activePage,
+  tiles: {},
+  savedAt: new Date().toISOString(),
+  ...(studentId ? { studentId } : {}),
+  attempt: 1,
+});
+
+/**
+ * Seed of everything shuffled for the student in this attempt. Progress saved before
+ * students were identified falls back to a seed shared by all of them.
+ */
+export const getProgressShuffleSeed = (
+  progress: Pick<LessonProgress, 'lessonId' | 'studentId' | 'attempt'>,
+): string =>
+  createShuffleSeed(progress.studentId ?? DEFAULT_SHUFFLE_SEED, progress.lessonId, progress.attempt ?? 1);
+
+/** Progress is only reusable for the exact lesson revision it was recorded against. */
+export const isLessonProgressCurrent = (
+  progress: Pick<LessonProgress, 'lessonId' | 'lessonUpdatedAt'>,
+  lesson: { id: string; updated_at: string },
+): boolean => progress.lessonId === lesson.id && progress.lessonUpdatedAt === lesson.updated_at;
+
+const touch = (progress: LessonProgress, tiles: LessonProgress['tiles']): LessonProgress => ({
+  ...progress,
+  tiles,
+  savedAt: new Date().toISOString(),
+});
+
+export const setProgressPage = (progress: LessonProgress, activePage: number): LessonProgress =>
+  progress.activePage === activePage
+    ? progress
+    : { ...progress, activePage, savedAt: new Date().toISOString() };
+
+export const applyAnswerChange = (progress: LessonProgress, change: TileAnswerChange): LessonProgress => {
+  const current = progress.tiles[change.tileId];
+  const base = current?.tileType === change.tileType ? current : { tileType: change.tileType, attempts: 0 };
+
+  return touch(progress, {
+    ...progress.tiles,
+    [change.tileId]: { ...base, answer: change.answer },
+  });
+};
+
+export const applyTileAttempt = (progress: LessonProgress, attempt: TileAttempt): LessonProgress => {
+  const current = progress.tiles[attempt.tileId];
+  const previous = current?.tileType === attempt.tileType ? current : undefined;
+
+  return touch(progress, {
+    ...progress.tiles,
+    [attempt.tileId]: {
+      tileType: attempt.tileType,
+      answer: attempt.answer,
+      attempts: Math.max(previous?.attempts ?? 0, attempt.attempt),
+      failedAttempts: (previous?.failedAttempts ?? 0) + (attempt.isCorrect ? 0 : 1),
+      lastAttempt: attempt,
+      solved: Boolean(previous?.solved) || attempt.isCorrect,
+    },
+  });
+};
+
+/** Bank slots are played as the quiz or blanks tile drawn for them. */
+const isProgressForTileType = (tileType: string | undefined, entryType: string) =>
+  tileType === entryType || (tileType === 'bank-slot' && isQuestionBankItemType(entryType));
+
+/** Drops progress for tiles that are gone from the lesson or changed their type. */
+export const pruneLessonProgress = (
+  progress: LessonProgress,
+  tiles: ReadonlyArray<{ id: string; type: string }>,
+): LessonProgress => {
+  const types = new Map(tiles.map(tile => [tile.id, tile.type]));
+  const kept = Object.fromEntries(
+    Object.entries(progress.tiles).filter(([tileId, entry]) => isProgressForTileType(types.get(tileId), entry.tileType)),
+  );
+
+  return Object.keys(kept).length === Object.keys(progress.tiles).length ? progress : touch(progress, kept);
+};
+
+/**
+ * Moves progress onto a newer revision of its lesson. Answers are kept only for tiles that are
+ * identical in both revisions; tiles that were edited, replaced or removed start over. Pass
+ * the tiles as the student plays them (bank slots resolved), so a changed bank counts as a
+ * changed question.
+ */
+export const rebaseLessonProgress = (
+  progress: LessonProgress,
+  previousTiles: ReadonlyArray<{ id: string }>,
+  next: { updated_at: string; tiles: ReadonlyArray<{ id: string }> },
+): LessonProgress => {
+  const previousById = new Map(previousTiles.map(tile => [tile.id, JSON.stringify(tile)]));
+  const unchanged = new Set(
+    next.tiles.filter(tile => previousById.get(tile.id) === JSON.stringify(tile)).map(tile => tile.id),
+  );
+  const kept = Object.fromEntries(Object.entries(progress.tiles).filter(([tileId]) => unchanged.has(tileId)));
+
+  return { ...touch(progress, kept), lessonUpdatedAt: next.updated_at };
+};
+
+/**
+ * Turns stored progress back into the state a tile starts with. The last evaluation is only
+ * shown again when the answer has not been edited since it was checked.
+ */
+export const restoreTileState = <TType extends AnswerableTileType>(
+  tile: { type: TType },
+  progress: TileProgress | undefined,
+): RestoredTileState<TType> | null => {
+  if (!progress || progress.tileType !== tile.type || progress.answer === undefined) {
+    return null;
+  }
+
+  const { lastAttempt } = progress;
+  const isEvaluated =
+    lastAttempt !== undefined && JSON.stringify(lastAttempt.answer) === JSON.stringify(progress.answer);
+
+  return {
+    answer: progress.answer as TileAnswer<TType>,
+    attempts: progress.attempts,
+    failedAttempts: progress.failedAttempts ?? 0,
+    evaluation: isEvaluated ? (lastAttempt.isCorrect ? 'success' : 'error') : 'idle',
+  };
+};
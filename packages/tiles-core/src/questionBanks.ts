@@ -0,0 +1,59 @@
+import { getTileShuffleSeed, seededShuffle } from './shuffle';
+import type { BankSlotTile, LessonTile, QuestionBank, QuestionBankItem } from './types';
+
+export type QuestionBankItemType = QuestionBankItem['type'];
+
+/** Tile types a bank slot can turn into. */
+export const QUESTION_BANK_ITEM_TYPES: readonly QuestionBankItemType[] = ['quiz', 'blanks'];
+
+export const isQuestionBankItemType = (type: string): type is QuestionBankItemType =>
+  (QUESTION_BANK_ITEM_TYPES as readonly string[]).includes(type);
+
+export const getQuestionBank = (banks: QuestionBank[] | undefined, bankId: string): QuestionBank | undefined =>
+  banks?.find(bank => bank.id === bankId);
+
+const compareReadingOrder = (a: LessonTile, b: LessonTile) =>
+  (a.page ?? 1) - (b.page ?? 1) || a.gridPosition.row - b.gridPosition.row || a.gridPosition.col - b.gridPosition.col;
+
+/** The drawn item takes the slot's place: id, position, weight and completion requirement stay. */
+const toDrawnTile = (slot: BankSlotTile, item: QuestionBankItem): LessonTile =>
+  ({ ...slot, type: item.type, content: item.content }) as LessonTile;
+
+/**
+ * Replaces every bank slot with an item drawn from its bank. All slots of one bank draw
+ * without repetition in reading order, so a page with N slots shows N different questions.
+ * Slots pointing at a missing bank, or outnumbering its items, are left unresolved.
+ *
+ * The draw depends only on `seed` and the lesson, so the same student attempt always
+ * resolves to the same questions.
+ */
+export const resolveBankSlots = (
+  tiles: LessonTile[],
+  banks: QuestionBank[] | undefined,
+  seed: string,
+): LessonTile[] => {
+  const slotsByBank = new Map<string, BankSlotTile[]>();
+  for (const tile of tiles) {
+    if (tile.type !== 'bank-slot') continue;
+    const slot = tile as BankSlotTile;
+    slotsByBank.set(slot.content.bankId, [...(slotsByBank.get(slot.content.bankId) ?? []), slot]);
+  }
+
+  if (slotsByBank.size === 0) return tiles;
+
+  const draws = new Map<string, QuestionBankItem>();
+  slotsByBank.forEach((slots, bankId) => {
+    const bank = getQuestionBank(banks, bankId);
+    if (!bank) return;
+
+    const items = seededShuffle(bank.items, getTileShuffleSeed(seed, `bank:${bankId}`));
+    [...slots].sort(compareReadingOrder).forEach((slot, index) => {
+      if (index < items.length) draws.set(slot.id, items[index]);
+    });
+  });
+
+  return tiles.map(tile => {
+    const item = draws.get(tile.id);
+    return item ? toDrawnTile(tile as BankSlotTile, item) : tile;
+  });
+};
@@ -0,0 +1,71 @@
+import type { Lesson, LessonTile, QuestionBankItem, TileFeedback } from './types';
+import { sanitizeHtml } from './utils/sanitizeHtml';
+
+/** Content fields that hold editor markup and are rendered as HTML. */
+const RICH_TEXT_FIELDS = [
+  'richText',
+  'richQuestion',
+  'richInstruction',
+  'richDescription',
+  'correctFeedback',
+  'incorrectFeedback',
+] as const;
+
+const ANSWER_LIST_FIELDS = ['answers', 'acceptedAnswers'] as const;
+
+const sanitizeOptionalHtml = (html: string | undefined) => (html === undefined ? undefined : sanitizeHtml(html));
+
+const sanitizeFeedback = (feedback: TileFeedback): TileFeedback => ({
+  ...feedback,
+  correct: sanitizeOptionalHtml(feedback.correct),
+  incorrect: sanitizeOptionalHtml(feedback.incorrect),
+  hints: feedback.hints?.map(hint => ({ ...hint, text: sanitizeHtml(hint.text) })),
+});
+
+/** Returns a copy of tile content with every rich text field passed through `sanitizeHtml`. */
+const sanitizeContentHtml = <TContent>(content: TContent): TContent => {
+  const sanitized: Record<string, unknown> = { ...(content as Record<string, unknown>) };
+
+  RICH_TEXT_FIELDS.forEach(field => {
+    if (typeof sanitized[field] === 'string') {
+      sanitized[field] = sanitizeHtml(sanitized[field] as string);
+    }
+  });
+
+  if (sanitized.feedback && typeof sanitized.feedback === 'object') {
+    sanitized.feedback = sanitizeFeedback(sanitized.feedback as TileFeedback);
+  }
+
+  // Per-answer comments of quiz answers and open tile accepted answers.
+  ANSWER_LIST_FIELDS.forEach(field => {
+    if (Array.isArray(sanitized[field])) {
+      sanitized[field] = (sanitized[field] as Array<{ feedback?: string }>).map(answer =>
+        typeof answer.feedback === 'string' ? { ...answer, feedback: sanitizeHtml(answer.feedback) } : answer,
+      );
+    }
+  });
+
+  return sanitized as TContent;
+};
+
+export const sanitizeTileHtml = <TTile extends LessonTile>(tile: TTile): TTile => ({
+  ...tile,
+  content: sanitizeContentHtml(tile.content),
+});
+
+const sanitizeQuestionBankItemHtml = (item: QuestionBankItem): QuestionBankItem =>
+  ({ ...item, content: sanitizeContentHtml(item.content) }) as QuestionBankItem;
+
+/**
+ * Sanitizes all rich text of a lesson, including question bank items. Use it on lessons
+ * from outside the editor (runtime endpoint, imported files, cached copies) before they
+ * reach a student.
+ */
+export const sanitizeLessonHtml = (lesson: Lesson): Lesson => ({
+  ...lesson,
+  tiles: lesson.tiles.map(tile => sanitizeTileHtml(tile)),
+  question_banks: lesson.question_banks?.map(bank => ({
+    ...bank,
+    items: bank.items.map(sanitizeQuestionBankItemHtml),
+  })),
+});
@@ -0,0 +1,284 @@
+import type {
+  AnswerableTileType,
+  BlanksAnswer,
+  InteractiveAnswer,
+  OpenAnswer,
+  PairingAnswer,
+  QuizAnswer,
+  SequencingAnswer,
+  TileAnswer
+} from './attempts';
+import type {
+  BlanksTileContent,
+  InteractiveTileContent,
+  LessonTile,
+  OpenAcceptedAnswer,
+  OpenTileContent,
+  PairingTileContent,
+  QuizTileContent,
+  SequencingTileContent
+} from './types';
+import { evaluateNumericAnswer, isWithinTolerance, parseNumericAnswer } from './utils/interactive';
+import { areExpressionsEquivalent } from './utils/expression';
+import { matchesAnswerPattern, parseListAnswer } from './utils/openAnswer';
+
+export const DEFAULT_TILE_WEIGHT = 1;
+
+/**
+ * Points earned for an answer. Per-type scorers return raw points (one per blank, pair,
+ * option...); `scoreTileAnswer` scales them to the tile weight.
+ */
+export interface TileScore {
+  isCorrect: boolean;
+  score: number;
+  maxScore: number;
+}
+
+/** Tile types whose answers can be scored without running anything. */
+export type ScorableTileType = Exclude<AnswerableTileType, 'programming'>;
+
+const SCORABLE_TILE_TYPES: readonly ScorableTileType[] = ['quiz', 'blanks', 'open', 'sequencing', 'pairing', 'interactive'];
+
+export const isScorableTileType = (type: string): type is ScorableTileType =>
+  (SCORABLE_TILE_TYPES as readonly string[]).includes(type);
+
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+type ScoredOption = { id: string; isCorrect: boolean };
+
+const countCorrect = (options: ScoredOption[]) => options.filter(option => option.isCorrect).length;
+
+/** Single choice is all-or-nothing: the one picked option has to be the correct one. */
+const scoreSingleChoice = (options: ScoredOption[], selected: string[]): TileScore => {
+  const isCorrect = selected.length === 1 && options.some(option => option.isCorrect && option.id === selected[0]);
+  return { isCorrect, score: isCorrect ? 1 : 0, maxScore: 1 };
+};
+
+/**
+ * Every option earns a point when it is classified right: picked if correct, left alone if
+ * not. This keeps "select everything" from scoring full marks, and an answer without any
+ * correct option earns nothing for the wrong options it skipped.
+ */
+const scoreOptionSelection = (options: ScoredOption[], selected: string[]): TileScore => {
+  const picked = new Set(selected);
+  const maxScore = options.length;
+  if (!options.some(option => option.isCorrect && picked.has(option.id))) {
+    return { isCorrect: false, score: 0, maxScore };
+  }
+
+  const score = options.filter(option => option.isCorrect === picked.has(option.id)).length;
+  return { isCorrect: score === maxScore, score, maxScore };
+};
+
+export const scoreQuizAnswer = (
+  content: Pick<QuizTileContent, 'answers' | 'multipleCorrect' | 'negativeMarking'>,
+  answer: QuizAnswer
+): TileScore => {
+  const options = content.answers.map((option, index) => ({ id: String(index), isCorrect: option.isCorrect }));
+  const selected = answer.selectedAnswers.map(index => String(index));
+
+  if (!content.multipleCorrect) {
+    return scoreSingleChoice(options, selected);
+  }
+
+  if (content.negativeMarking) {
+    const correctCount = options.filter(option => option.isCorrect).length;
+    const picked = new Set(selected);
+    const right = options.filter(option => option.isCorrect && picked.has(option.id)).length;
+    const wrong = options.filter(option => !option.isCorrect && picked.has(option.id)).length;
+    return {
+      isCorrect: right === correctCount && wrong === 0,
+      score: Math.max(0, right - wrong),
+      maxScore: correctCount
+    };
+  }
+
+  return scoreOptionSelection(options, selected);
+};
+
+export const scoreBlanksAnswer = (content: Pick<BlanksTileContent, 'blanks'>, answer: BlanksAnswer): TileScore => {
+  const score = content.blanks.filter(blank => answer.placements[blank.id] === blank.correctOptionId).length;
+  return { isCorrect: score === content.blanks.length, score, maxScore: content.blanks.length };
+};
+
+export const scorePairingAnswer = (content: Pick<PairingTileContent, 'pairs'>, answer: PairingAnswer): TileScore => {
+  const linked = new Map(answer.connections.map(connection => [connection.leftId, connection.rightId]));
+  const score = content.pairs.filter(pair => linked.get(pair.id) === pair.id).length;
+  return { isCorrect: score === content.pairs.length, score, maxScore: content.pairs.length };
+};
+
+/** Length of the longest strictly increasing subsequence (patience sorting). */
+const longestIncreasingSubsequence = (values: number[]): number => {
+  const tails: number[] = [];
+  for (const value of values) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (tails[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    tails[low] = value;
+  }
+  return tails.length;
+};
+
+/**
+ * One point per item in the longest run of placed items that is already in the right
+ * relative order, so a single misplaced item costs one point rather than everything.
+ */
+export const scoreSequencingAnswer = (
+  content: Pick<SequencingTileContent, 'items'>,
+  answer: SequencingAnswer
+): TileScore => {
+  const positions = new Map(content.items.map(item => [item.id, item.correctPosition]));
+  const placed = answer.order
+    .map(itemId => (itemId === null ? undefined : positions.get(itemId)))
+    .filter((position): position is number => position !== undefined);
+
+  const isCorrect =
+    answer.order.length === content.items.length &&
+    answer.order.every((itemId, index) => itemId !== null && positions.get(itemId) === index);
+
+  return { isCorrect, score: longestIncreasingSubsequence(placed), maxScore: content.items.length };
+};
+
+/** The parts of an open tile that decide whether an answer is correct. */
+export type OpenAnswerKey = Pick<
+  OpenTileContent,
+  | 'acceptedAnswers'
+  | 'ignoreCase'
+  | 'ignoreWhitespace'
+  | 'answerMode'
+  | 'absoluteTolerance'
+  | 'relativeTolerance'
+  | 'ignoreListOrder'
+>;
+
+const normalizeOpenText = (content: OpenAnswerKey, value: string) => {
+  const trimmed = content.ignoreWhitespace ? value.replace(/\s+/g, '') : value.trim();
+  return content.ignoreCase ? trimmed.toLowerCase() : trimmed;
+};
+
+const matchesOpenNumber = (content: OpenAnswerKey, expectedText: string, text: string): boolean => {
+  const expected = parseNumericAnswer(expectedText);
+  const value = parseNumericAnswer(text);
+  if (expected === null || value === null) return false;
+
+  return isWithinTolerance(value, expected, {
+    absolute: content.absoluteTolerance,
+    relative: content.relativeTolerance
+  });
+};
+
+/** Items are compared like text answers, in order unless `ignoreListOrder` is set. */
+const matchesOpenList = (content: OpenAnswerKey, expectedText: string, text: string): boolean => {
+  const expected = parseListAnswer(expectedText);
+  const actual = parseListAnswer(text);
+  if (!expected || !actual || expected.length !== actual.length) return false;
+
+  const normalize = (items: string[]) => {
+    const normalized = items.map(item => normalizeOpenText(content, item));
+    return content.ignoreListOrder ? normalized.sort() : normalized;
+  };
+
+  const actualItems = normalize(actual);
+  return normalize(expected).every((item, index) => item === actualItems[index]);
+};
+
+const matchesAcceptedAnswer = (content: OpenAnswerKey, accepted: OpenAcceptedAnswer, text: string): boolean => {
+  if (accepted.isPattern) {
+    return matchesAnswerPattern(accepted.value, text.trim(), content.ignoreCase);
+  }
+
+  switch (content.answerMode ?? 'text') {
+    case 'numeric':
+      return matchesOpenNumber(content, accepted.value, text);
+    case 'expression':
+      return areExpressionsEquivalent(accepted.value, text);
+    case 'list':
+      return matchesOpenList(content, accepted.value, text);
+    case 'text':
+      return normalizeOpenText(content, text) === normalizeOpenText(content, accepted.value);
+  }
+};
+
+/**
+ * Returns the first accepted answer the written one matches, using the tile's answer mode:
+ * text (with the case and whitespace options), a number within the tolerances, a math
+ * expression equivalent to the expected one, or a list of items. Pattern answers are
+ * regular expressions tested against the whole answer.
+ */
+export const findMatchingOpenAnswer = (content: OpenAnswerKey, text: string): OpenAcceptedAnswer | undefined => {
+  if (text.trim().length === 0) return undefined;
+
+  return content.acceptedAnswers.find(
+    accepted => accepted.value.trim().length > 0 && matchesAcceptedAnswer(content, accepted, text)
+  );
+};
+
+export const matchesOpenAnswer = (content: OpenAnswerKey, text: string): boolean =>
+  findMatchingOpenAnswer(content, text) !== undefined;
+
+export const scoreOpenAnswer = (content: OpenAnswerKey, answer: OpenAnswer): TileScore => {
+  const isCorrect = matchesOpenAnswer(content, answer.text);
+  return { isCorrect, score: isCorrect ? 1 : 0, maxScore: 1 };
+};
+
+export const scoreInteractiveAnswer = (content: InteractiveTileContent, answer: InteractiveAnswer): TileScore => {
+  if (content.interactionType === 'quiz' && answer.interactionType === 'quiz') {
+    const { options, multipleCorrect } = content.data;
+    return multipleCorrect || countCorrect(options) > 1
+      ? scoreOptionSelection(options, answer.selectedIds)
+      : scoreSingleChoice(options, answer.selectedIds);
+  }
+  if (content.interactionType === 'click' && answer.interactionType === 'click') {
+    const { hotspots } = content.data;
+    return countCorrect(hotspots) > 1
+      ? scoreOptionSelection(hotspots, answer.selectedIds)
+      : scoreSingleChoice(hotspots, answer.selectedIds);
+  }
+  if (content.interactionType === 'drag-drop' && answer.interactionType === 'drag-drop') {
+    const score = content.data.items.filter(item => answer.placements[item.id] === item.targetId).length;
+    return { isCorrect: score === content.data.items.length, score, maxScore: content.data.items.length };
+  }
+  if (content.interactionType === 'input' && answer.interactionType === 'input') {
+    const isCorrect = evaluateNumericAnswer(content.data, answer.value);
+    return { isCorrect, score: isCorrect ? 1 : 0, maxScore: 1 };
+  }
+
+  // The answer was given for a different interaction type than the tile has now.
+  return { isCorrect: false, score: 0, maxScore: 1 };
+};
+
+const scoreRawAnswer = (tile: LessonTile<ScorableTileType>, answer: TileAnswer<ScorableTileType>): TileScore => {
+  switch (tile.type) {
+    case 'quiz':
+      return scoreQuizAnswer(tile.content, answer as QuizAnswer);
+    case 'blanks':
+      return scoreBlanksAnswer(tile.content, answer as BlanksAnswer);
+    case 'open':
+      return scoreOpenAnswer(tile.content, answer as OpenAnswer);
+    case 'sequencing':
+      return scoreSequencingAnswer(tile.content, answer as SequencingAnswer);
+    case 'pairing':
+      return scorePairingAnswer(tile.content, answer as PairingAnswer);
+    case 'interactive':
+      return scoreInteractiveAnswer(tile.content, answer as InteractiveAnswer);
+  }
+};
+
+export const getTileWeight = (tile: Pick<LessonTile, 'weight'>): number =>
+  tile.weight && tile.weight > 0 ? tile.weight : DEFAULT_TILE_WEIGHT;
+
+/** Score an answer and scale it so that a fully correct answer earns the tile weight. */
+export const scoreTileAnswer = <TType extends ScorableTileType>(
+  tile: LessonTile<TType>,
+  answer: TileAnswer<TType>
+): TileScore => {
+  const raw = scoreRawAnswer(tile as LessonTile<ScorableTileType>, answer);
+  const maxScore = getTileWeight(tile);
+  const ratio = raw.maxScore > 0 ? raw.score / raw.maxScore : raw.isCorrect ? 1 : 0;
+
+  return { isCorrect: raw.isCorrect, score: roundScore(ratio * maxScore), maxScore };
+};
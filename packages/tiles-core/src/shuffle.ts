@@ -0,0 +1,65 @@
+/**
+ * Deterministic shuffling. Every order a student sees is derived from a seed string, so the
+ * same seed always reproduces the same arrangement, e.g. when a reviewer opens a student's
+ * attempt or a test pins an expected order.
+ */
+
+/** Seed used where no student or attempt is known, e.g. in the editor preview. */
+export const DEFAULT_SHUFFLE_SEED = 'preview';
+
+/** 32-bit FNV-1a hash of a string. */
+export const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/** Mulberry32 generator seeded from a string; returns numbers in `[0, 1)`. */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export interface SeededShuffleOptions {
+  /**
+   * Never return the items in their original order, for tasks where the original order is
+   * the answer (sequencing, pairing). Ignored for fewer than two items.
+   */
+  avoidOriginalOrder?: boolean;
+}
+
+/** Fisher–Yates shuffle driven by `seed`. Returns a new array. */
+export const seededShuffle = <T>(
+  items: readonly T[],
+  seed: string,
+  { avoidOriginalOrder = false }: SeededShuffleOptions = {},
+): T[] => {
+  const random = createSeededRandom(seed);
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const target = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[target]] = [shuffled[target], shuffled[index]];
+  }
+
+  if (avoidOriginalOrder && shuffled.length > 1 && shuffled.every((item, index) => item === items[index])) {
+    const [first, ...rest] = shuffled;
+    return [...rest, first];
+  }
+
+  return shuffled;
+};
+
+/** Seed for one student's attempt at a lesson. */
+export const createShuffleSeed = (studentId: string, lessonId: string, attempt: number): string =>
+  `${studentId}:${lessonId}:${attempt}`;
+
+/** Seed of a single tile within an attempt, so tiles with equal content still differ. */
+export const getTileShuffleSeed = (seed: string, tileId: string): string => `${seed}:${tileId}`;
@@ -1,6 +1,8 @@
 import { z } from 'zod';
 
-export const TILE_VERSION = '1.0.0';
+export const TILE_VERSION = '1.3.0';
+
+export const LESSON_FORMAT_VERSION = '1.0.0';
 
 export const positionSchema = z.object({
   x: z.number(),
@@ -25,6 +27,14 @@ export const gridPositionSchema = z.object({
 
 export type GridPosition = z.infer<typeof gridPositionSchema>;
 
+/**
+ * What a student has to do with task tiles before moving on to the next page:
+ * nothing, check an answer at least once, or answer correctly.
+ */
+export const completionRequirementSchema = z.enum(['none', 'attempted', 'correct']);
+
+export type CompletionRequirement = z.infer<typeof completionRequirementSchema>;
+
 export const tileBaseSchema = z.object({
   id: z.string(),
   position: positionSchema,
@@ -35,6 +45,10 @@ export const tileBaseSchema = z.object({
   updated_at: z.string(),
   z_index: z.number(),
   version: z.string().default(TILE_VERSION),
+  /** Points a task tile is worth; scores are scaled to it. Defaults to 1. */
+  weight: z.number().positive().optional(),
+  /** Overrides the page's requirement for this tile. */
+  completionRequirement: completionRequirementSchema.optional(),
 });
 
 export type TileType =
@@ -47,7 +61,8 @@ export type TileType =
   | 'sequencing'
   | 'blanks'
   | 'open'
-  | 'pairing';
+  | 'pairing'
+  | 'bank-slot';
 
 export const verticalAlignSchema = z.union([
   z.literal('top'),
@@ -78,20 +93,148 @@ export const imageTileContentSchema = z.object({
 
 export type ImageTileContent = z.infer<typeof imageTileContentSchema>;
 
-export const interactiveTileContentSchema = z.object({
+export const interactionTypeSchema = z.enum(['quiz', 'drag-drop', 'click', 'input']);
+
+export type InteractionType = z.infer<typeof interactionTypeSchema>;
+
+export const interactiveQuizOptionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  isCorrect: z.boolean(),
+});
+
+export const interactiveQuizDataSchema = z.object({
+  options: z.array(interactiveQuizOptionSchema),
+  multipleCorrect: z.boolean(),
+});
+
+export type InteractiveQuizData = z.infer<typeof interactiveQuizDataSchema>;
+
+export const interactiveDragDropTargetSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+});
+
+export const interactiveDragDropItemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  /** Target the item belongs to. */
+  targetId: z.string(),
+});
+
+export const interactiveDragDropDataSchema = z.object({
+  targets: z.array(interactiveDragDropTargetSchema),
+  items: z.array(interactiveDragDropItemSchema),
+});
+
+export type InteractiveDragDropData = z.infer<typeof interactiveDragDropDataSchema>;
+
+/** Rectangle on the image; all coordinates are percentages of the image size. */
+export const interactiveHotspotSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+  width: z.number().min(0).max(100),
+  height: z.number().min(0).max(100),
+  isCorrect: z.boolean(),
+});
+
+export type InteractiveHotspot = z.infer<typeof interactiveHotspotSchema>;
+
+export const interactiveClickDataSchema = z.object({
+  imageUrl: z.string(),
+  imageAlt: z.string().optional(),
+  hotspots: z.array(interactiveHotspotSchema),
+});
+
+export type InteractiveClickData = z.infer<typeof interactiveClickDataSchema>;
+
+export const interactiveInputDataSchema = z.object({
+  correctValue: z.number(),
+  /** Largest accepted absolute difference from `correctValue`. */
+  tolerance: z.number().nonnegative(),
+  unit: z.string().optional(),
+});
+
+export type InteractiveInputData = z.infer<typeof interactiveInputDataSchema>;
+
+export const tileHintSchema = z.object({
+  id: z.string(),
+  /** Rich text (HTML). */
+  text: z.string(),
+  /** Shown once the student has this many wrong attempts. */
+  afterAttempts: z.number().int().positive(),
+});
+
+export type TileHint = z.infer<typeof tileHintSchema>;
+
+/** Author-defined messages shown after checking an answer. All texts are rich text (HTML). */
+export const tileFeedbackSchema = z.object({
+  correct: z.string().optional(),
+  incorrect: z.string().optional(),
+  hints: z.array(tileHintSchema).optional(),
+});
+
+export type TileFeedback = z.infer<typeof tileFeedbackSchema>;
+
+const interactiveTileBaseContentSchema = z.object({
   title: z.string(),
   description: z.string(),
-  interactionType: z.enum(['quiz', 'drag-drop', 'click', 'input']),
-  data: z.unknown(),
+  feedback: tileFeedbackSchema.optional(),
 });
 
+export const interactiveTileContentSchema = z.discriminatedUnion('interactionType', [
+  interactiveTileBaseContentSchema.extend({
+    interactionType: z.literal('quiz'),
+    data: interactiveQuizDataSchema,
+  }),
+  interactiveTileBaseContentSchema.extend({
+    interactionType: z.literal('drag-drop'),
+    data: interactiveDragDropDataSchema,
+  }),
+  interactiveTileBaseContentSchema.extend({
+    interactionType: z.literal('click'),
+    data: interactiveClickDataSchema,
+  }),
+  interactiveTileBaseContentSchema.extend({
+    interactionType: z.literal('input'),
+    data: interactiveInputDataSchema,
+  }),
+]);
+
 export type InteractiveTileContent = z.infer<typeof interactiveTileContentSchema>;
 
+export type InteractiveDataByType<TType extends InteractionType> = Extract<
+  InteractiveTileContent,
+  { interactionType: TType }
+>['data'];
+
+export const visualizationSeriesSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  color: z.string().optional(),
+  values: z.array(z.number()),
+});
+
+export type VisualizationSeries = z.infer<typeof visualizationSeriesSchema>;
+
+export const visualizationDataSchema = z.object({
+  labels: z.array(z.string()),
+  series: z.array(visualizationSeriesSchema),
+});
+
+export type VisualizationData = z.infer<typeof visualizationDataSchema>;
+
+export const visualizationChartTypeSchema = z.enum(['bar', 'line', 'pie', 'scatter']);
+
+export type VisualizationChartType = z.infer<typeof visualizationChartTypeSchema>;
+
 export const visualizationTileContentSchema = z.object({
   title: z.string(),
   contentType: z.enum(['chart', 'video']),
-  chartType: z.enum(['bar', 'line', 'pie', 'scatter']).optional(),
-  data: z.unknown().optional(),
+  chartType: visualizationChartTypeSchema.optional(),
+  data: visualizationDataSchema.optional(),
   videoUrl: z.string().optional(),
   videoLoop: z.boolean().optional(),
 });
@@ -106,14 +249,23 @@ export const quizTileContentSchema = z.object({
       z.object({
         text: z.string(),
         isCorrect: z.boolean(),
+        /** Rich text shown under this answer when it was picked. */
+        feedback: z.string().optional(),
       }),
     )
     .min(1),
   multipleCorrect: z.boolean(),
+  /** Multi-select only: every wrong pick cancels out one correct pick. */
+  negativeMarking: z.boolean().optional(),
+  /** Show the answers in a per-student order; answers keep their indices. */
+  shuffleAnswers: z.boolean().optional(),
+  /** Render `$...$` in the answers as LaTeX. Off for tiles written before formulas existed. */
+  renderMath: z.boolean().optional(),
   backgroundColor: z.string(),
   showBorder: z.boolean(),
   questionFontFamily: z.string().optional(),
   questionFontSize: z.number().optional(),
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type QuizTileContent = z.infer<typeof quizTileContentSchema>;
@@ -129,6 +281,7 @@ export const programmingTileContentSchema = z.object({
   language: z.string(),
   startingCode: z.string().optional(),
   endingCode: z.string().optional(),
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type ProgrammingTileContent = z.infer<typeof programmingTileContentSchema>;
@@ -150,6 +303,8 @@ export const sequencingTileContentSchema = z.object({
   items: z.array(sequencingItemSchema),
   correctFeedback: z.string(),
   incorrectFeedback: z.string(),
+  /** Only `hints` are read here; the messages live in `correctFeedback` and `incorrectFeedback`. */
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type SequencingTileContent = z.infer<typeof sequencingTileContentSchema>;
@@ -172,6 +327,11 @@ export const blanksTileContentSchema = z.object({
   backgroundColor: z.string(),
   blanks: z.array(blanksTileBlankSchema),
   options: z.array(blanksTileOptionSchema),
+  /** Show the options in a per-student order instead of the authored one. */
+  shuffleOptions: z.boolean().optional(),
+  /** Render `$...$` in the template and options as LaTeX. */
+  renderMath: z.boolean().optional(),
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type BlanksTileContent = z.infer<typeof blanksTileContentSchema>;
@@ -182,6 +342,26 @@ export const attachmentSchema = z.object({
   url: z.string(),
 });
 
+/**
+ * How an open answer is checked against the accepted answers: as text, as a number within a
+ * tolerance, as a math expression equivalent to the expected one, or as a list of items
+ * written like `['napis1', 'napis2']`.
+ */
+export const openAnswerModeSchema = z.enum(['text', 'numeric', 'expression', 'list']);
+
+export type OpenAnswerMode = z.infer<typeof openAnswerModeSchema>;
+
+export const openAcceptedAnswerSchema = z.object({
+  id: z.string(),
+  value: z.string(),
+  /** `value` is a regular expression the whole answer has to match, whatever the answer mode. */
+  isPattern: z.boolean().optional(),
+  /** Rich text (HTML) shown after checking when the student's answer matched this one. */
+  feedback: z.string().optional(),
+});
+
+export type OpenAcceptedAnswer = z.infer<typeof openAcceptedAnswerSchema>;
+
 export const openTileContentSchema = z.object({
   instruction: z.string(),
   richInstruction: z.string().optional(),
@@ -191,10 +371,20 @@ export const openTileContentSchema = z.object({
   backgroundColor: z.string(),
   showBorder: z.boolean(),
   expectedFormat: z.string(),
-  correctAnswer: z.string(),
+  /** An answer is correct when it matches any of these. */
+  acceptedAnswers: z.array(openAcceptedAnswerSchema),
   ignoreCase: z.boolean(),
   ignoreWhitespace: z.boolean(),
+  /** Text comparison when missing. */
+  answerMode: openAnswerModeSchema.optional(),
+  /** Numeric mode: largest accepted absolute difference from the expected value. */
+  absoluteTolerance: z.number().nonnegative().optional(),
+  /** Numeric mode: largest accepted difference as a fraction of the expected value (0.01 = 1%). */
+  relativeTolerance: z.number().nonnegative().optional(),
+  /** List mode: accept the items in any order. */
+  ignoreListOrder: z.boolean().optional(),
   attachments: z.array(attachmentSchema),
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type OpenTileContent = z.infer<typeof openTileContentSchema>;
@@ -213,10 +403,37 @@ export const pairingTileContentSchema = z.object({
   verticalAlign: verticalAlignSchema,
   backgroundColor: z.string(),
   pairs: z.array(pairingTilePairSchema),
+  /** Render `$...$` in both columns as LaTeX. */
+  renderMath: z.boolean().optional(),
+  feedback: tileFeedbackSchema.optional(),
 });
 
 export type PairingTileContent = z.infer<typeof pairingTileContentSchema>;
 
+/** Placeholder replaced with an item drawn from a question bank when the lesson is played. */
+export const bankSlotTileContentSchema = z.object({
+  bankId: z.string(),
+  backgroundColor: z.string(),
+});
+
+export type BankSlotTileContent = z.infer<typeof bankSlotTileContentSchema>;
+
+export const questionBankItemSchema = z.discriminatedUnion('type', [
+  z.object({ id: z.string(), type: z.literal('quiz'), content: quizTileContentSchema }),
+  z.object({ id: z.string(), type: z.literal('blanks'), content: blanksTileContentSchema }),
+]);
+
+export type QuestionBankItem = z.infer<typeof questionBankItemSchema>;
+
+/** Named pool of questions that bank slots draw from. */
+export const questionBankSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  items: z.array(questionBankItemSchema),
+});
+
+export type QuestionBank = z.infer<typeof questionBankSchema>;
+
 const textTileSchema = tileBaseSchema.extend({
   type: z.literal('text'),
   content: textTileContentSchema,
@@ -267,6 +484,11 @@ const pairingTileSchema = tileBaseSchema.extend({
   content: pairingTileContentSchema,
 });
 
+const bankSlotTileSchema = tileBaseSchema.extend({
+  type: z.literal('bank-slot'),
+  content: bankSlotTileContentSchema,
+});
+
 export const TileSchemas = {
   text: textTileSchema,
   image: imageTileSchema,
@@ -278,6 +500,7 @@ export const TileSchemas = {
   blanks: blanksTileSchema,
   open: openTileSchema,
   pairing: pairingTileSchema,
+  'bank-slot': bankSlotTileSchema,
 } as const;
 
 export const TileSchema = z.discriminatedUnion('type', [
@@ -291,6 +514,7 @@ export const TileSchema = z.discriminatedUnion('type', [
   blanksTileSchema,
   openTileSchema,
   pairingTileSchema,
+  bankSlotTileSchema,
 ]);
 
 export type TileData = z.infer<typeof TileSchema>;
@@ -309,6 +533,7 @@ export type SequencingTile = TileDataByType<'sequencing'>;
 export type BlanksTile = TileDataByType<'blanks'>;
 export type OpenTile = TileDataByType<'open'>;
 export type PairingTile = TileDataByType<'pairing'>;
+export type BankSlotTile = TileDataByType<'bank-slot'>;
 
 export const canvasSettingsSchema = z.object({
   width: z.number(),
@@ -319,14 +544,26 @@ export const canvasSettingsSchema = z.object({
 
 export type CanvasSettings = z.infer<typeof canvasSettingsSchema>;
 
+export const pageSettingsSchema = z.object({
+  page: z.number().int().positive(),
+  completionRequirement: completionRequirementSchema,
+});
+
+export type PageSettings = z.infer<typeof pageSettingsSchema>;
+
 export const lessonSchema = z.object({
   id: z.string(),
   lesson_id: z.string(),
   tiles: z.array(TileSchema),
   canvas_settings: canvasSettingsSchema,
   total_pages: z.number(),
+  /** Only pages that differ from the defaults are listed. */
+  page_settings: z.array(pageSettingsSchema).optional(),
+  question_banks: z.array(questionBankSchema).optional(),
   created_at: z.string(),
   updated_at: z.string(),
+  format_version: z.string().default(LESSON_FORMAT_VERSION),
+  revision: z.number().int().nonnegative().default(0),
 });
 
 export type Lesson = z.infer<typeof lessonSchema>;
@@ -352,10 +589,19 @@ export type InteractionState =
       startPosition: Position;
       startSize: Size;
       startGridPosition: GridPosition;
-    };
+    }
+  | {
+      type: 'groupDrag';
+      tileIds: string[];
+      startPosition: Position;
+      startGridPositions: Record<string, GridPosition>;
+    }
+  | { type: 'marquee'; start: Position; current: Position; additive: boolean };
 
 export interface EditorState {
   selectedTileId: string | null;
+  /** All selected tiles, including `selectedTileId`, which stays the primary (edited) tile. */
+  selectedTileIds: string[];
   mode: EditorMode;
   interaction: InteractionState;
   canvasSize: Size;
@@ -368,8 +614,3 @@ export interface TilePaletteItem {
   title: string;
   icon: string;
 }
-
-export function migrateTileConfig<TType extends TileType>(tile: TileDataByType<TType>): TileDataByType<TType> {
-  // Future migrations will adjust tile configuration shape based on version metadata.
-  return tile;
-}
@@ -109,6 +109,35 @@ export class GridUtils {
     return true;
   }
 
+  /**
+   * Check if a set of tiles can be placed at the given grid positions at once.
+   * Tiles of the group are ignored as obstacles, so moving them together never collides with itself.
+   */
+  static isValidGroupPosition(
+    groupPositions: Record<string, GridPosition>,
+    canvasSettings: CanvasSettings,
+    existingTiles: LessonTile[] = []
+  ): boolean {
+    const otherTiles = existingTiles.filter(tile => !(tile.id in groupPositions));
+    const entries = Object.entries(groupPositions);
+
+    return entries.every(([, gridPos], index) => {
+      if (!GridUtils.isValidGridPosition(gridPos, canvasSettings, otherTiles)) return false;
+
+      // Group members must not overlap each other either (relevant for align/distribute).
+      return entries.slice(index + 1).every(([, otherPos]) => !GridUtils.gridRectsOverlap(gridPos, otherPos));
+    });
+  }
+
+  private static gridRectsOverlap(a: GridPosition, b: GridPosition): boolean {
+    return !(
+      a.col >= b.col + b.colSpan ||
+      a.col + a.colSpan <= b.col ||
+      a.row >= b.row + b.rowSpan ||
+      a.row + a.rowSpan <= b.row
+    );
+  }
+
   /**
    * Find next available grid position
    */
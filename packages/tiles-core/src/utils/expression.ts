@@ -0,0 +1,309 @@
+import { createSeededRandom } from '../shuffle';
+
+/**
+ * Small parser for the math expressions students type as open answers: numbers (`2.5` or
+ * `2,5`), single-letter variables, `+ - * / ^`, parentheses, `|x|`, implicit multiplication
+ * (`2x`, `(x-2)(x+2)`) and a few functions. Expressions compile to plain evaluators, so two
+ * answers can be compared by evaluating them at the same points.
+ */
+
+type Evaluator = (values: Record<string, number>) => number;
+
+export interface ParsedExpression {
+  /** Variable names, sorted. */
+  variables: string[];
+  evaluate: Evaluator;
+}
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  tg: Math.tan,
+  cot: value => 1 / Math.tan(value),
+  ctg: value => 1 / Math.tan(value)
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E
+};
+
+/** Longest names first, so `sqrt` is not read as `s`, `q`, `r`, `t`. */
+const byLength = (a: string, b: string) => b.length - a.length;
+const FUNCTION_NAMES = Object.keys(FUNCTIONS).sort(byLength);
+const CONSTANT_NAMES = Object.keys(CONSTANTS).sort(byLength);
+
+type Operator = '+' | '-' | '*' | '/' | '^' | '(' | ')' | '|';
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'operator'; value: Operator };
+
+const OPERATORS = '+-*/^()|';
+
+const SYMBOL_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[−–]/g, '-'],
+  [/[·×⋅]/g, '*'],
+  [/[:÷]/g, '/'],
+  [/\*\*/g, '^'],
+  [/²/g, '^2'],
+  [/³/g, '^3'],
+  [/√/g, 'sqrt'],
+  [/π/g, 'pi']
+];
+
+/**
+ * Splits a run of letters into known names and single-letter variables (`xy` is `x*y`).
+ * Functions are matched in any case (`Sin x`), constants only as written, so `E` stays a variable.
+ */
+const splitName = (word: string): string[] => {
+  const names: string[] = [];
+  let index = 0;
+  while (index < word.length) {
+    const rest = word.slice(index);
+    const name =
+      FUNCTION_NAMES.find(known => rest.toLowerCase().startsWith(known)) ??
+      CONSTANT_NAMES.find(known => rest.startsWith(known)) ??
+      word[index];
+    names.push(name);
+    index += name.length;
+  }
+  return names;
+};
+
+const tokenize = (source: string): Token[] | null => {
+  const input = SYMBOL_REPLACEMENTS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), source);
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:[.,]\d+)?|[.,]\d+)/.exec(input.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0].replace(',', '.')) });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[a-zA-Z]+/.exec(input.slice(index));
+    if (word) {
+      splitName(word[0]).forEach(name => tokens.push({ type: 'name', value: name }));
+      index += word[0].length;
+      continue;
+    }
+
+    if (OPERATORS.includes(char)) {
+      tokens.push({ type: 'operator', value: char as Operator });
+      index += 1;
+      continue;
+    }
+
+    if (char === '[' || char === '{') {
+      tokens.push({ type: 'operator', value: '(' });
+      index += 1;
+      continue;
+    }
+
+    if (char === ']' || char === '}') {
+      tokens.push({ type: 'operator', value: ')' });
+      index += 1;
+      continue;
+    }
+
+    return null;
+  }
+
+  return tokens;
+};
+
+class ExpressionParser {
+  private index = 0;
+  readonly variables = new Set<string>();
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Evaluator | null {
+    const evaluator = this.parseSum();
+    return evaluator && this.index === this.tokens.length ? evaluator : null;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isOperator(value: Operator): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && token.value === value;
+  }
+
+  private startsOperand(): boolean {
+    const token = this.peek();
+    return token !== undefined && (token.type !== 'operator' || token.value === '(');
+  }
+
+  private parseSum(): Evaluator | null {
+    let left = this.parseProduct();
+    while (left && (this.isOperator('+') || this.isOperator('-'))) {
+      const subtract = this.isOperator('-');
+      this.index += 1;
+      const right = this.parseProduct();
+      if (!right) return null;
+      const previous = left;
+      left = subtract ? values => previous(values) - right(values) : values => previous(values) + right(values);
+    }
+    return left;
+  }
+
+  private parseProduct(): Evaluator | null {
+    let left = this.parseUnary();
+    while (left) {
+      const divide = this.isOperator('/');
+      if (divide || this.isOperator('*')) {
+        this.index += 1;
+      } else if (!this.startsOperand()) {
+        break;
+      }
+
+      const right = this.parseUnary();
+      if (!right) return null;
+      const previous = left;
+      left = divide ? values => previous(values) / right(values) : values => previous(values) * right(values);
+    }
+    return left;
+  }
+
+  private parseUnary(): Evaluator | null {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const negate = this.isOperator('-');
+      this.index += 1;
+      const operand = this.parseUnary();
+      if (!operand) return null;
+      return negate ? values => -operand(values) : operand;
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Evaluator | null {
+    const base = this.parsePrimary();
+    if (!base || !this.isOperator('^')) return base;
+
+    this.index += 1;
+    const exponent = this.parseUnary();
+    if (!exponent) return null;
+    return values => Math.pow(base(values), exponent(values));
+  }
+
+  private parseGroup(closing: ')' | '|'): Evaluator | null {
+    const inner = this.parseSum();
+    if (!inner || !this.isOperator(closing)) return null;
+    this.index += 1;
+    return inner;
+  }
+
+  private parsePrimary(): Evaluator | null {
+    const token = this.peek();
+    if (!token) return null;
+    this.index += 1;
+
+    if (token.type === 'number') {
+      return () => token.value;
+    }
+
+    if (token.type === 'operator') {
+      if (token.value === '(') return this.parseGroup(')');
+      if (token.value === '|') {
+        const inner = this.parseGroup('|');
+        return inner && (values => Math.abs(inner(values)));
+      }
+      return null;
+    }
+
+    const fn = FUNCTIONS[token.value];
+    if (fn) {
+      // `sqrt(x)` as well as `sqrt x`.
+      const argument = this.isOperator('(') ? this.parsePrimary() : this.parsePower();
+      return argument && (values => fn(argument(values)));
+    }
+
+    if (token.value in CONSTANTS) {
+      const constant = CONSTANTS[token.value];
+      return () => constant;
+    }
+
+    const name = token.value;
+    this.variables.add(name);
+    return values => values[name] ?? NaN;
+  }
+}
+
+/** Returns `null` when `source` is not an expression the parser understands. */
+export const parseExpression = (source: string): ParsedExpression | null => {
+  const tokens = tokenize(source);
+  if (!tokens || tokens.length === 0) return null;
+
+  const parser = new ExpressionParser(tokens);
+  const evaluate = parser.parse();
+  return evaluate ? { variables: [...parser.variables].sort(), evaluate } : null;
+};
+
+export interface ExpressionComparisonOptions {
+  /** Points at which both expressions must agree. */
+  samples?: number;
+  /** Seed for the sample points; the same seed always checks the same points. */
+  seed?: string;
+}
+
+const DEFAULT_SAMPLES = 12;
+/** Enough agreeing points when most samples fall outside the domain, e.g. `sqrt(x - 9)`. */
+const MIN_CHECKED_SAMPLES = 3;
+const SAMPLE_RANGE = 10;
+const RELATIVE_PRECISION = 1e-7;
+
+const valuesAgree = (left: number, right: number) =>
+  Math.abs(left - right) <= RELATIVE_PRECISION * Math.max(1, Math.abs(left), Math.abs(right));
+
+/**
+ * Checks whether two expressions are equal for all values of their variables by evaluating
+ * both at random points. Points where neither is defined (`sqrt` of a negative, division by
+ * zero) are skipped; a point where only one is defined counts as a difference.
+ */
+export const areExpressionsEquivalent = (
+  expected: string,
+  actual: string,
+  { samples = DEFAULT_SAMPLES, seed = expected }: ExpressionComparisonOptions = {}
+): boolean => {
+  const left = parseExpression(expected);
+  const right = parseExpression(actual);
+  if (!left || !right) return false;
+
+  const variables = [...new Set([...left.variables, ...right.variables])];
+  const random = createSeededRandom(seed);
+  let checked = 0;
+
+  for (let attempt = 0; attempt < samples * 10 && checked < samples; attempt += 1) {
+    const values = Object.fromEntries(variables.map(name => [name, (random() * 2 - 1) * SAMPLE_RANGE]));
+    const leftValue = left.evaluate(values);
+    const rightValue = right.evaluate(values);
+    const leftDefined = Number.isFinite(leftValue);
+    const rightDefined = Number.isFinite(rightValue);
+
+    if (!leftDefined && !rightDefined) continue;
+    if (leftDefined !== rightDefined || !valuesAgree(leftValue, rightValue)) return false;
+
+    checked += 1;
+    // Without variables one point says it all.
+    if (variables.length === 0) return true;
+  }
+
+  return checked >= Math.min(samples, MIN_CHECKED_SAMPLES);
+};
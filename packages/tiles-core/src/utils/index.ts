@@ -2,3 +2,9 @@ export * from './colorUtils';
 export * from './surfacePalette';
 export * from './blanks';
 export * from './GridUtils';
+export * from './semver';
+export * from './interactive';
+export * from './sanitizeHtml';
+export * from './math';
+export * from './expression';
+export * from './openAnswer';
@@ -0,0 +1,75 @@
+import type { InteractionType, InteractiveDataByType, InteractiveInputData } from '../types';
+
+/** Allows for floating point noise, e.g. 0.1 + 0.2 against 0.3 with zero tolerance. */
+const NUMERIC_EPSILON = 1e-9;
+
+const DEFAULT_INTERACTIVE_DATA: { [TType in InteractionType]: () => InteractiveDataByType<TType> } = {
+  quiz: () => ({
+    options: [
+      { id: 'option-1', text: 'Odpowiedź A', isCorrect: true },
+      { id: 'option-2', text: 'Odpowiedź B', isCorrect: false }
+    ],
+    multipleCorrect: false
+  }),
+  'drag-drop': () => ({
+    targets: [
+      { id: 'target-1', label: 'Grupa 1' },
+      { id: 'target-2', label: 'Grupa 2' }
+    ],
+    items: [
+      { id: 'item-1', text: 'Element 1', targetId: 'target-1' },
+      { id: 'item-2', text: 'Element 2', targetId: 'target-2' }
+    ]
+  }),
+  click: () => ({
+    imageUrl: '',
+    imageAlt: '',
+    hotspots: []
+  }),
+  input: () => ({
+    correctValue: 0,
+    tolerance: 0,
+    unit: ''
+  })
+};
+
+/**
+ * Starting payload for a freshly created interactive tile or one whose interaction type
+ * has just been switched.
+ */
+export const createInteractiveData = <TType extends InteractionType>(
+  interactionType: TType
+): InteractiveDataByType<TType> => DEFAULT_INTERACTIVE_DATA[interactionType]();
+
+/** Accepts both `1.5` and `1,5`; returns `null` for anything that is not a finite number. */
+export const parseNumericAnswer = (raw: string): number | null => {
+  const normalized = raw.trim().replace(/\s+/g, '').replace(',', '.');
+  if (!normalized) return null;
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+export interface NumericTolerance {
+  /** Largest accepted absolute difference. */
+  absolute?: number;
+  /** Largest accepted difference as a fraction of the expected value. */
+  relative?: number;
+}
+
+/** The larger of the two tolerances applies, so either one alone is enough to accept a value. */
+export const isWithinTolerance = (
+  value: number,
+  expected: number,
+  { absolute = 0, relative = 0 }: NumericTolerance
+): boolean => {
+  const tolerance = Math.max(0, absolute, relative * Math.abs(expected));
+  return Math.abs(value - expected) <= tolerance + NUMERIC_EPSILON;
+};
+
+export const evaluateNumericAnswer = (data: InteractiveInputData, raw: string): boolean => {
+  const value = parseNumericAnswer(raw);
+  if (value === null) return false;
+
+  return isWithinTolerance(value, data.correctValue, { absolute: data.tolerance });
+};
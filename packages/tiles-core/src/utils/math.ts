@@ -0,0 +1,64 @@
+/** `data-type` of the rich text nodes holding a LaTeX formula. */
+export const MATH_INLINE_TYPE = 'math-inline';
+export const MATH_BLOCK_TYPE = 'math-block';
+
+export type MathTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'math'; latex: string; display: boolean };
+
+const findClosingDelimiter = (text: string, delimiter: string, from: number): number => {
+  let index = text.indexOf(delimiter, from);
+  while (index !== -1 && text[index - 1] === '\\') {
+    index = text.indexOf(delimiter, index + 1);
+  }
+  return index;
+};
+
+/**
+ * Splits plain text (quiz answers, blanks templates, pairing items) into text and formulas.
+ * `$...$` is an inline formula, `$$...$$` a formula on its own line, and `\$` a literal
+ * dollar sign. A `$` without a closing partner stays plain text.
+ */
+export const splitMathText = (text: string): MathTextSegment[] => {
+  const segments: MathTextSegment[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) segments.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === '\\' && text[index + 1] === '$') {
+      buffer += '$';
+      index += 2;
+      continue;
+    }
+
+    if (char === '$') {
+      const display = text[index + 1] === '$';
+      const delimiter = display ? '$$' : '$';
+      const start = index + delimiter.length;
+      const end = findClosingDelimiter(text, delimiter, start);
+      const latex = end === -1 ? '' : text.slice(start, end).trim();
+
+      if (latex) {
+        flush();
+        segments.push({ type: 'math', latex, display });
+        index = end + delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return segments;
+};
+
+export const hasMathText = (text: string): boolean => splitMathText(text).some(segment => segment.type === 'math');
@@ -0,0 +1,151 @@
+const QUOTES: Record<string, string> = { "'": "'", '"': '"', '„': '”' };
+
+const LIST_BRACKETS: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+/**
+ * Reads a list-shaped answer such as `['napis1', 'napis2']`, `[1, 2, 3]` or `a; b; c`.
+ * Brackets are optional, items are separated by commas or semicolons and may be quoted;
+ * quoted items keep their exact text. Returns `null` when a quote is never closed.
+ */
+export const parseListAnswer = (raw: string): string[] | null => {
+  let text = raw.trim();
+  const closing = LIST_BRACKETS[text[0]];
+  if (closing && text.endsWith(closing)) {
+    text = text.slice(1, -1);
+  }
+
+  const items: string[] = [];
+  let current = '';
+  let quoted: string | null = null;
+  let index = 0;
+
+  const pushItem = () => {
+    const item = current.trim();
+    if (quoted !== null) items.push(quoted);
+    else if (item) items.push(item);
+    current = '';
+    quoted = null;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const closingQuote = QUOTES[char];
+
+    if (closingQuote && current.trim() === '' && quoted === null) {
+      const end = text.indexOf(closingQuote, index + 1);
+      if (end === -1) return null;
+      quoted = text.slice(index + 1, end);
+      index = end + 1;
+      continue;
+    }
+
+    if (char === ',' || char === ';') {
+      pushItem();
+    } else if (quoted !== null) {
+      // Whitespace after a closing quote is ignored; anything else joins the quoted text.
+      if (char.trim()) {
+        current = quoted + char;
+        quoted = null;
+      }
+    } else {
+      current += char;
+    }
+    index += 1;
+  }
+
+  pushItem();
+  return items;
+};
+
+/** Longest regular expression an author can save for an accepted answer. */
+export const MAX_ANSWER_PATTERN_LENGTH = 200;
+
+/** Longer student answers are never run against a pattern and simply do not match. */
+export const MAX_PATTERN_INPUT_LENGTH = 500;
+
+export type AnswerPatternProblem = 'too-long' | 'nested-quantifier' | 'invalid';
+
+/** Quantifiers that can repeat a group many times. */
+const REPEATING_QUANTIFIER = /^(?:[*+]|\{\d+,\d*\})/;
+
+const MAX_CACHED_PATTERNS = 100;
+
+/**
+ * Finds a quantified group that itself contains a quantifier, e.g. `(a+)+` or `(\w*x)*`.
+ * Such patterns can backtrack exponentially and freeze the student's tab.
+ */
+const hasNestedQuantifier = (pattern: string): boolean => {
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      index += 1;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the `?` of `(?:`, `(?=`, `(?<name>`... so it does not count as a quantifier.
+      if (pattern[index + 1] === '?') index += 1;
+    } else if (char === ')') {
+      const containsQuantifier = groups.pop() ?? false;
+      const rest = pattern.slice(index + 1);
+      if (REPEATING_QUANTIFIER.test(rest)) {
+        if (containsQuantifier) return true;
+        if (groups.length) groups[groups.length - 1] = true;
+      } else if (containsQuantifier && groups.length) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === '?' || REPEATING_QUANTIFIER.test(pattern.slice(index))) && groups.length) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+};
+
+/** Explains why a pattern is refused, or returns `null` when it can be used. */
+export const getAnswerPatternProblem = (pattern: string): AnswerPatternProblem | null => {
+  if (pattern.length > MAX_ANSWER_PATTERN_LENGTH) return 'too-long';
+  if (hasNestedQuantifier(pattern)) return 'nested-quantifier';
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'invalid';
+  }
+  return null;
+};
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compiles an author's regular expression so it has to match the whole answer. Returns
+ * `null` for patterns refused by `getAnswerPatternProblem`. Compiled patterns are cached.
+ */
+export const createAnswerPattern = (pattern: string, ignoreCase = false): RegExp | null => {
+  const key = `${ignoreCase ? 'i' : ''}/${pattern}`;
+  const cached = compiledPatterns.get(key);
+  if (cached !== undefined) return cached;
+
+  const compiled = getAnswerPatternProblem(pattern)
+    ? null
+    : new RegExp(`^(?:${pattern})$`, ignoreCase ? 'i' : '');
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) compiledPatterns.clear();
+  compiledPatterns.set(key, compiled);
+  return compiled;
+};
+
+/** Runs an author's pattern against a student answer within the length limits above. */
+export const matchesAnswerPattern = (pattern: string, answer: string, ignoreCase = false): boolean => {
+  if (answer.length > MAX_PATTERN_INPUT_LENGTH) return false;
+  return createAnswerPattern(pattern, ignoreCase)?.test(answer) ?? false;
+};
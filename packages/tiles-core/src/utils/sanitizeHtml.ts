@@ -0,0 +1,302 @@
+import { MATH_BLOCK_TYPE, MATH_INLINE_TYPE } from './math';
+
+/**
+ * Allowlist-based HTML sanitizer for rich text coming from lesson documents. It keeps exactly
+ * what the editor's TipTap extensions produce (StarterKit marks and blocks, lists, links,
+ * `textStyle` spans with colour, font family and size, aligned paragraphs and formula nodes)
+ * and drops everything else. It works on the markup string, so it runs the same in the browser and
+ * in tests without a DOM.
+ */
+
+const ALLOWED_TAGS = new Set([
+  'p',
+  'div',
+  'br',
+  'hr',
+  'span',
+  'strong',
+  'b',
+  'em',
+  'i',
+  'u',
+  's',
+  'code',
+  'pre',
+  'blockquote',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'a'
+]);
+
+const VOID_TAGS = new Set(['br', 'hr']);
+
+/** Elements whose whole content is removed together with the tag. */
+const DROPPED_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'noscript',
+  'noembed',
+  'noframes',
+  'textarea',
+  'title',
+  'xmp'
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'style']);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(['href', 'target', 'rel']),
+  ol: new Set(['start', 'type']),
+  span: new Set(['data-type', 'data-latex']),
+  div: new Set(['data-type', 'data-latex'])
+};
+
+const CSS_LENGTH = '-?(?:\\d+|\\d*\\.\\d+)(?:px|em|rem|pt|%)?';
+
+const STYLE_PROPERTIES: Record<string, RegExp> = {
+  color: /^(?:#[0-9a-f]{3,8}|rgba?\(\s*[\d.]+%?\s*(?:,\s*[\d.]+%?\s*){2,3}\)|[a-z]+)$/i,
+  'font-family': /^[\w\s,'"-]+$/,
+  'font-size': new RegExp(`^${CSS_LENGTH}$`),
+  'text-align': /^(?:left|right|center|justify|start|end)$/,
+  margin: new RegExp(`^${CSS_LENGTH}(?:\\s+${CSS_LENGTH}){0,3}$`)
+};
+
+const SAFE_URL_SCHEMES = /^(?:https?|mailto|tel):/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  colon: ':',
+  tab: '\t',
+  newline: '\n'
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const sanitizeUrl = (value: string): string | null => {
+  // Browsers ignore whitespace and control characters inside a scheme ("java\tscript:").
+  const url = Array.from(value)
+    .filter(char => char.charCodeAt(0) > 0x20 && char.charCodeAt(0) !== 0x7f)
+    .join('');
+  const schemeEnd = url.search(/[/?#]/);
+  const head = schemeEnd === -1 ? url : url.slice(0, schemeEnd);
+
+  if (!head.includes(':') && !head.includes('&')) return value.trim();
+  return SAFE_URL_SCHEMES.test(url) ? value.trim() : null;
+};
+
+const sanitizeStyle = (value: string): string | null => {
+  const declarations = value
+    .split(';')
+    .map(declaration => {
+      const separator = declaration.indexOf(':');
+      if (separator === -1) return null;
+
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const propertyValue = declaration.slice(separator + 1).trim();
+      const pattern = STYLE_PROPERTIES[property];
+      return pattern?.test(propertyValue) ? `${property}: ${propertyValue}` : null;
+    })
+    .filter((declaration): declaration is string => declaration !== null);
+
+  return declarations.length > 0 ? `${declarations.join('; ')};` : null;
+};
+
+const sanitizeAttribute = (tag: string, name: string, rawValue: string): string | null => {
+  if (!GLOBAL_ATTRIBUTES.has(name) && !TAG_ATTRIBUTES[tag]?.has(name)) return null;
+
+  const value = decodeEntities(rawValue);
+  switch (name) {
+    case 'style':
+      return sanitizeStyle(value);
+    case 'href':
+      return sanitizeUrl(value);
+    case 'target':
+      return /^_(?:blank|self)$/.test(value) ? value : null;
+    case 'start':
+      return /^\d+$/.test(value) ? value : null;
+    case 'type':
+      return /^[1aAiI]$/.test(value) ? value : null;
+    case 'data-type':
+      return value === MATH_INLINE_TYPE || value === MATH_BLOCK_TYPE ? value : null;
+    case 'data-latex':
+      // Formula source; rendered by KaTeX, never interpreted as markup.
+      return value;
+    case 'class':
+    case 'rel':
+      return /^[\w\s-]*$/.test(value) ? value : null;
+    default:
+      return null;
+  }
+};
+
+interface ParsedTag {
+  name: string;
+  attributes: Array<[string, string]>;
+  /** Index just past the closing `>`, or -1 when the tag never ends. */
+  end: number;
+}
+
+const TAG_NAME = /[a-zA-Z][a-zA-Z0-9-]*/y;
+const ATTRIBUTE_NAME = /[^\s/>"'=]+/y;
+
+const parseTag = (html: string, start: number): ParsedTag => {
+  TAG_NAME.lastIndex = start;
+  const name = (TAG_NAME.exec(html)?.[0] ?? '').toLowerCase();
+  const attributes: Array<[string, string]> = [];
+  let index = TAG_NAME.lastIndex;
+
+  while (index < html.length) {
+    const char = html[index];
+    if (char === '>') return { name, attributes, end: index + 1 };
+    if (/[\s/]/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    ATTRIBUTE_NAME.lastIndex = index;
+    const attributeName = ATTRIBUTE_NAME.exec(html)?.[0];
+    if (!attributeName) {
+      // A stray quote or `=` without a name; skip it like browsers do.
+      index += 1;
+      continue;
+    }
+    index = ATTRIBUTE_NAME.lastIndex;
+
+    while (/\s/.test(html[index] ?? '')) index += 1;
+    if (html[index] !== '=') {
+      attributes.push([attributeName.toLowerCase(), '']);
+      continue;
+    }
+
+    index += 1;
+    while (/\s/.test(html[index] ?? '')) index += 1;
+
+    const quote = html[index];
+    let value: string;
+    if (quote === '"' || quote === "'") {
+      const closing = html.indexOf(quote, index + 1);
+      if (closing === -1) return { name, attributes, end: -1 };
+      value = html.slice(index + 1, closing);
+      index = closing + 1;
+    } else {
+      const valueEnd = html.slice(index).search(/[\s>]/);
+      value = valueEnd === -1 ? html.slice(index) : html.slice(index, index + valueEnd);
+      index = valueEnd === -1 ? html.length : index + valueEnd;
+    }
+    attributes.push([attributeName.toLowerCase(), value]);
+  }
+
+  return { name, attributes, end: -1 };
+};
+
+const serializeOpeningTag = (tag: ParsedTag): string => {
+  const attributes = new Map<string, string>();
+  tag.attributes.forEach(([name, rawValue]) => {
+    if (attributes.has(name)) return;
+    const value = sanitizeAttribute(tag.name, name, rawValue);
+    if (value !== null) attributes.set(name, value);
+  });
+
+  if (tag.name === 'a' && attributes.get('target') === '_blank') {
+    attributes.set('rel', 'noopener noreferrer nofollow');
+  }
+
+  const serialized = [...attributes].map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+  return `<${tag.name}${serialized}>`;
+};
+
+/**
+ * Returns `html` reduced to the tags, attributes and inline styles the rich text editor can
+ * produce. Disallowed elements are unwrapped (their text stays), except for script-like
+ * elements, which are removed with their content. Comments and declarations are dropped.
+ */
+export const sanitizeHtml = (html: string | null | undefined): string => {
+  if (!html) return '';
+
+  let output = '';
+  let index = 0;
+
+  while (index < html.length) {
+    const tagStart = html.indexOf('<', index);
+    if (tagStart === -1) {
+      output += html.slice(index).replace(/>/g, '&gt;');
+      break;
+    }
+
+    output += html.slice(index, tagStart).replace(/>/g, '&gt;');
+    const next = html[tagStart + 1] ?? '';
+
+    if (html.startsWith('<!--', tagStart)) {
+      const commentEnd = html.indexOf('-->', tagStart + 4);
+      index = commentEnd === -1 ? html.length : commentEnd + 3;
+      continue;
+    }
+
+    if (next === '!' || next === '?') {
+      const declarationEnd = html.indexOf('>', tagStart);
+      index = declarationEnd === -1 ? html.length : declarationEnd + 1;
+      continue;
+    }
+
+    if (next === '/' && /[a-zA-Z]/.test(html[tagStart + 2] ?? '')) {
+      const closingTag = parseTag(html, tagStart + 2);
+      if (closingTag.end === -1) break;
+      if (ALLOWED_TAGS.has(closingTag.name) && !VOID_TAGS.has(closingTag.name)) {
+        output += `</${closingTag.name}>`;
+      }
+      index = closingTag.end;
+      continue;
+    }
+
+    if (!/[a-zA-Z]/.test(next)) {
+      output += '&lt;';
+      index = tagStart + 1;
+      continue;
+    }
+
+    const tag = parseTag(html, tagStart + 1);
+    if (tag.end === -1) break;
+    index = tag.end;
+
+    if (tag.name === 'plaintext') break;
+
+    if (DROPPED_CONTENT_TAGS.has(tag.name)) {
+      const closing = new RegExp(`</${tag.name}[\\s/>]`, 'ig');
+      closing.lastIndex = index;
+      const match = closing.exec(html);
+      if (!match) break;
+      const closingEnd = html.indexOf('>', match.index);
+      index = closingEnd === -1 ? html.length : closingEnd + 1;
+      continue;
+    }
+
+    if (ALLOWED_TAGS.has(tag.name)) {
+      output += serializeOpeningTag(tag);
+    }
+  }
+
+  return output;
+};
@@ -0,0 +1,125 @@
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+type Comparator = {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemanticVersion;
+};
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/i;
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~)?\s*(.+)$/;
+
+const toNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value === 'x' || value === 'X' || value === '*') {
+    return null;
+  }
+
+  return Number.parseInt(value, 10);
+};
+
+export const parseVersion = (value: string): SemanticVersion | null => {
+  const match = VERSION_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  return {
+    major: Number.parseInt(match[1], 10),
+    minor: toNumber(match[2]) ?? 0,
+    patch: toNumber(match[3]) ?? 0
+  };
+};
+
+export const compareVersions = (a: string | SemanticVersion, b: string | SemanticVersion): number => {
+  const left = typeof a === 'string' ? parseVersion(a) : a;
+  const right = typeof b === 'string' ? parseVersion(b) : b;
+
+  if (!left || !right) {
+    throw new Error(`Cannot compare invalid versions "${String(a)}" and "${String(b)}"`);
+  }
+
+  if (left.major !== right.major) return left.major - right.major;
+  if (left.minor !== right.minor) return left.minor - right.minor;
+  return left.patch - right.patch;
+};
+
+/**
+ * Expand a single range token (e.g. `^1.2.0`, `1.x`, `>=1.0.0`) into plain comparators.
+ */
+const expandToken = (token: string): Comparator[] | null => {
+  if (token === '*' || token === 'x' || token === 'X') {
+    return [];
+  }
+
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) return null;
+
+  const [, operator, rawVersion] = match;
+  const versionMatch = VERSION_PATTERN.exec(rawVersion.trim());
+  if (!versionMatch) return null;
+
+  const major = Number.parseInt(versionMatch[1], 10);
+  const minor = toNumber(versionMatch[2]);
+  const patch = toNumber(versionMatch[3]);
+  const base: SemanticVersion = { major, minor: minor ?? 0, patch: patch ?? 0 };
+
+  if (operator === '^') {
+    const upper = major > 0 || minor === null
+      ? { major: major + 1, minor: 0, patch: 0 }
+      : { major: 0, minor: minor + 1, patch: 0 };
+    return [{ operator: '>=', version: base }, { operator: '<', version: upper }];
+  }
+
+  if (operator === '~' || ((!operator || operator === '=') && (minor === null || patch === null))) {
+    const upper = minor === null
+      ? { major: major + 1, minor: 0, patch: 0 }
+      : { major, minor: minor + 1, patch: 0 };
+    return [{ operator: '>=', version: base }, { operator: '<', version: upper }];
+  }
+
+  return [{ operator: (operator as Comparator['operator']) || '=', version: base }];
+};
+
+const satisfiesComparator = (version: SemanticVersion, comparator: Comparator): boolean => {
+  const result = compareVersions(version, comparator.version);
+
+  switch (comparator.operator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    case '=':
+      return result === 0;
+  }
+};
+
+/**
+ * Check whether a version matches a range such as `>=1.0.0 <1.2.0`, `^1.0.0`, `1.1.x`
+ * or alternatives joined with `||`.
+ */
+export const satisfiesVersionRange = (version: string, range: string): boolean => {
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+
+  return range.split('||').some(alternative => {
+    const tokens = alternative
+      .trim()
+      .replace(/(<=|>=|<|>|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const expanded = expandToken(token);
+      if (!expanded) return false;
+      comparators.push(...expanded);
+    }
+
+    return comparators.every(comparator => satisfiesComparator(parsed, comparator));
+  });
+};
@@ -10,6 +10,7 @@ import OrderedList from '@tiptap/extension-ordered-list';
 import ListItem from '@tiptap/extension-list-item';
 import FontSize from '../extensions/FontSize';
 import TextAlignExtension from '../extensions/TextAlign';
+import { MathBlock, MathInline } from '../extensions/Math';
 
 export interface RichTextContent {
   text: string;
@@ -121,7 +122,9 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       Color.configure({ types: ['textStyle'] }),
       FontFamily.configure({ types: ['textStyle'] }),
       FontSize,
-      TextAlignExtension.configure({ types: ['paragraph'] })
+      TextAlignExtension.configure({ types: ['paragraph'] }),
+      MathInline,
+      MathBlock
     ],
     content: content.richText || defaultParagraph(content.text),
     onUpdate: ({ editor: tiptap }) => {
@@ -158,8 +161,11 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   const handleBlur = (event: React.FocusEvent) => {
     const toolbar = document.querySelector('.top-toolbar');
     if (toolbar && event.relatedTarget && toolbar.contains(event.relatedTarget as Node)) {
-      event.preventDefault();
-      editor.commands.focus();
+      // Text fields in toolbar popovers (formula source, colour code) keep their focus.
+      if (!(event.relatedTarget as HTMLElement).closest('input, textarea, select')) {
+        event.preventDefault();
+        editor.commands.focus();
+      }
       return;
     }
 
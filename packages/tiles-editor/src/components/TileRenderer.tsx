@@ -6,7 +6,8 @@ import { TileFrame } from './TileFrame';
 import { BaseTileRendererProps } from './shared';
 import { BlanksTileRenderer, ImageTileRenderer, ProgrammingTileRenderer,
          QuizTileRenderer, SequencingTileRenderer, OpenTileRenderer,
-         TextTileRenderer, PairingTileRenderer} from '../tiles';
+         TextTileRenderer, PairingTileRenderer, VisualizationTileRenderer,
+         InteractiveTileRenderer, BankSlotTileRenderer} from '../tiles';
 
 interface TileRendererProps {
   tile: LessonTile;
@@ -34,6 +35,9 @@ const TILE_RENDERERS: Partial<Record<LessonTile['type'], React.ComponentType<any
   blanks: BlanksTileRenderer,
   open: OpenTileRenderer,
   pairing: PairingTileRenderer,
+  visualization: VisualizationTileRenderer,
+  interactive: InteractiveTileRenderer,
+  'bank-slot': BankSlotTileRenderer,
 };
 
 export const TileRenderer: React.FC<TileRendererProps> = ({
@@ -1,6 +1,6 @@
 import React, { forwardRef } from 'react';
 import { Type } from 'lucide-react';
-import { Lesson, LessonTile, EditorState } from 'tiles-core';
+import { Lesson, LessonTile, EditorState, GridPosition } from 'tiles-core';
 import { GridUtils } from 'tiles-core/utils';
 import { Editor } from '@tiptap/react';
 import { TileRenderer } from '../TileRenderer'
@@ -14,6 +14,8 @@ interface LessonCanvasProps {
   onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
   onSelectTile: (tileId: string | null) => void;
   onDeleteTile: (tileId: string) => void;
+  onMoveTiles?: (positions: Record<string, GridPosition>) => boolean;
+  onDeleteTiles?: (tileIds: string[]) => void;
   onAddTile: (tileType: string, position: { x: number; y: number }) => void;
   onFinishTextEditing: () => void;
   showGrid?: boolean;
@@ -27,6 +29,8 @@ export const LessonCanvas = forwardRef<HTMLDivElement, LessonCanvasProps>(({
   onUpdateTile,
   onSelectTile,
   onDeleteTile,
+  onMoveTiles,
+  onDeleteTiles,
   onAddTile,
   onFinishTextEditing,
   showGrid = true,
@@ -36,6 +40,7 @@ export const LessonCanvas = forwardRef<HTMLDivElement, LessonCanvasProps>(({
     dragPreview,
     handleTileDoubleClick,
     handleCanvasClick,
+    handleCanvasMouseDown,
     handleDrop,
     handleDragOver,
     handleDragLeave,
@@ -48,6 +53,8 @@ export const LessonCanvas = forwardRef<HTMLDivElement, LessonCanvasProps>(({
     onUpdateTile,
     onSelectTile,
     onDeleteTile,
+    onMoveTiles,
+    onDeleteTiles,
     onAddTile,
     canvasRef: ref as React.RefObject<HTMLDivElement>,
   });
@@ -106,13 +113,34 @@ export const LessonCanvas = forwardRef<HTMLDivElement, LessonCanvasProps>(({
     );
   };
 
+  const renderMarquee = () => {
+    const interaction = editorState.interaction;
+    if (interaction.type !== 'marquee') return null;
+
+    return (
+      <div
+        className="absolute bg-blue-100 border border-blue-400 rounded-sm pointer-events-none opacity-60"
+        style={{
+          left: Math.min(interaction.start.x, interaction.current.x),
+          top: Math.min(interaction.start.y, interaction.current.y),
+          width: Math.abs(interaction.current.x - interaction.start.x),
+          height: Math.abs(interaction.current.y - interaction.start.y),
+          zIndex: 1000
+        }}
+      />
+    );
+  };
+
   return (
     <div className="relative">
       <div
         ref={ref}
-        className="relative bg-white border-2 border-gray-300 border-dashed rounded-3xl mx-auto"
+        className="relative bg-white border-2 border-gray-300 border-dashed rounded-3xl mx-auto focus:outline-none"
         style={canvasStyle}
+        tabIndex={0}
+        aria-label="Płótno lekcji"
         onClick={handleCanvasClick}
+        onMouseDown={handleCanvasMouseDown}
         onDrop={handleDrop}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -123,12 +151,15 @@ export const LessonCanvas = forwardRef<HTMLDivElement, LessonCanvasProps>(({
         {/* Drag Preview */}
         {renderDragPreview()}
 
+        {/* Rubber-band selection */}
+        {renderMarquee()}
+
         {/* Render Tiles */}
         {content.tiles.map(tile => (
           <TileRenderer
             key={tile.id}
             tile={tile}
-            isSelected={editorState.selectedTileId === tile.id}
+            isSelected={editorState.selectedTileIds.includes(tile.id)}
             isEditing={editorState.mode === 'editing' && editorState.selectedTileId === tile.id}
             isEditingText={editorState.mode === 'textEditing' && editorState.selectedTileId === tile.id}
             isImageEditing={editorState.mode === 'imageEditing' && editorState.selectedTileId === tile.id}
@@ -1,6 +1,6 @@
 import React from 'react';
 
-import { Type, Image, Puzzle, Eye, HelpCircle, Plus, Code, ArrowUpDown, Link2, FileText } from 'lucide-react';
+import { Type, Image, Puzzle, Eye, HelpCircle, Plus, Code, ArrowUpDown, Link2, FileText, MousePointerClick, Library } from 'lucide-react';
 import { TilePaletteItem } from 'tiles-core';
 
 interface TilePaletteProps {
@@ -19,6 +19,11 @@ const TILE_TYPES: TilePaletteItem[] = [
     title: 'Obraz',
     icon: 'Image'
   },
+  {
+    type: 'interactive',
+    title: 'Zadanie interaktywne',
+    icon: 'MousePointerClick'
+  },
   {
     type: 'visualization',
     title: 'Wizualizacja',
@@ -53,6 +58,11 @@ const TILE_TYPES: TilePaletteItem[] = [
     type: 'pairing',
     title: 'Dopasuj pary',
     icon: 'Link2'
+  },
+  {
+    type: 'bank-slot',
+    title: 'Pytanie z banku',
+    icon: 'Library'
   }
 ];
 
@@ -67,6 +77,8 @@ const getIcon = (iconName: string) => {
     case 'ArrowUpDown': return ArrowUpDown;
     case 'FileText': return FileText;
     case 'Link2': return Link2;
+    case 'MousePointerClick': return MousePointerClick;
+    case 'Library': return Library;
     default: return Type;
   }
 };
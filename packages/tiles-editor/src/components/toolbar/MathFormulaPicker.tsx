@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { Sigma } from 'lucide-react';
+import { Editor } from '@tiptap/react';
+import { renderLatex } from 'ui-primitives';
+
+interface MathFormulaPickerProps {
+  editor?: Editor | null;
+  className?: string;
+}
+
+const EXAMPLES = [
+  { latex: '\\frac{a}{b}', label: 'Ułamek' },
+  { latex: '\\sqrt{x}', label: 'Pierwiastek' },
+  { latex: 'x^{2}', label: 'Potęga' },
+  { latex: 'a_{n}', label: 'Indeks' },
+  { latex: '\\log_{a} b', label: 'Logarytm' },
+  { latex: '\\sum_{k=1}^{n} k', label: 'Suma' }
+];
+
+export const MathFormulaPicker: React.FC<MathFormulaPickerProps> = ({ editor, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [latex, setLatex] = useState('');
+  const [display, setDisplay] = useState(false);
+
+  const isEditingFormula = Boolean(editor?.isActive('mathInline') || editor?.isActive('mathBlock'));
+  const preview = useMemo(() => (latex.trim() ? renderLatex(latex, display) : ''), [latex, display]);
+
+  const handleOpen = () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+
+    // With a formula selected the popover edits it instead of inserting a new one.
+    const isBlock = Boolean(editor?.isActive('mathBlock'));
+    const selected = isBlock || editor?.isActive('mathInline');
+    setLatex(selected ? String(editor?.getAttributes(isBlock ? 'mathBlock' : 'mathInline').latex ?? '') : '');
+    setDisplay(isBlock);
+    setIsOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!latex.trim()) return;
+    editor?.chain().focus().insertMath(latex.trim(), display).run();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={handleOpen}
+        onMouseDown={(e) => e.preventDefault()}
+        className={`p-2 rounded-lg transition-all duration-200 min-w-[36px] h-9 flex items-center justify-center border ${
+          isEditingFormula
+            ? 'bg-blue-500 text-white shadow-sm border-blue-600 hover:bg-blue-600'
+            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100 hover:shadow-sm border-transparent'
+        }`}
+        title="Wzór matematyczny"
+      >
+        <Sigma className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              setIsOpen(false);
+              editor?.commands.focus();
+            }}
+          />
+
+          {/* The toolbar keeps focus in the editor; let the formula field take it. */}
+          <div
+            className="absolute top-full left-0 mt-2 w-96 bg-white border border-gray-200 rounded-xl shadow-xl z-50 overflow-hidden"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="px-4 py-3 bg-gray-50 border-b border-gray-100">
+              <h3 className="text-sm font-semibold text-gray-800">Wzór matematyczny</h3>
+              <p className="text-xs text-gray-600 mt-1">Wpisz wzór w składni LaTeX</p>
+            </div>
+
+            <div className="p-4 space-y-3">
+              <textarea
+                value={latex}
+                onChange={(e) => setLatex(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                    e.preventDefault();
+                    handleSubmit();
+                  }
+                  if (e.key === 'Escape') {
+                    setIsOpen(false);
+                    editor?.commands.focus();
+                  }
+                }}
+                rows={3}
+                autoFocus
+                spellCheck={false}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
+                placeholder="\frac{-b \pm \sqrt{\Delta}}{2a}"
+              />
+
+              <div className="flex flex-wrap gap-1">
+                {EXAMPLES.map(example => (
+                  <button
+                    key={example.latex}
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => setLatex(current => `${current}${example.latex}`)}
+                    className="px-2 py-1 rounded-md bg-gray-100 text-xs text-gray-700 hover:bg-gray-200 transition-colors"
+                  >
+                    {example.label}
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={display}
+                  onChange={(e) => setDisplay(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Wzór w osobnym wierszu
+              </label>
+
+              <div className="min-h-[56px] px-3 py-2 rounded-lg border border-dashed border-gray-200 bg-gray-50 overflow-x-auto text-gray-900">
+                {preview ? (
+                  <div dangerouslySetInnerHTML={{ __html: preview }} />
+                ) : (
+                  <p className="text-xs text-gray-500">Podgląd pojawi się po wpisaniu wzoru</p>
+                )}
+              </div>
+            </div>
+
+            <div className="px-4 py-3 bg-gray-50 border-t border-gray-100 flex items-center justify-between">
+              <span className="text-xs text-gray-500">Ctrl+Enter, aby zatwierdzić</span>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={handleSubmit}
+                disabled={!latex.trim()}
+                className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isEditingFormula ? 'Zapisz wzór' : 'Wstaw wzór'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
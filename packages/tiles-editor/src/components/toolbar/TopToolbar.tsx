@@ -1,11 +1,37 @@
 import React, { useEffect, useState } from 'react';
-import { Bold, Italic, Underline, List, ListOrdered, Undo, Redo, Code, FileCode, X, ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import {
+  Bold,
+  Italic,
+  Underline,
+  List,
+  ListOrdered,
+  Undo,
+  Redo,
+  Code,
+  FileCode,
+  X,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  AlignStartVertical,
+  AlignStartHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  Copy,
+  Scissors,
+  ClipboardPaste,
+  CopyPlus,
+  Lock
+} from 'lucide-react';
 import { Editor } from '@tiptap/react';
 import { FontSizeSelector } from './FontSizeSelector';
 import { TextColorPicker } from './TextColorPicker';
 import { FontSelector } from './FontSelector';
 import { AlignmentControls } from './AlignmentControls';
-import { LessonTile, ProgrammingTile, TextTile, SequencingTile, OpenTile } from 'tiles-core';
+import { MathFormulaPicker } from './MathFormulaPicker';
+import { CompletionRequirement, LessonTile, ProgrammingTile, TextTile, SequencingTile, OpenTile } from 'tiles-core';
+import { AlignEdge, DistributeAxis } from '../../utils/tileArrangement';
 
 
 interface TopToolbarProps {
@@ -20,6 +46,20 @@ interface TopToolbarProps {
   onAddPage?: () => void;
   onDeletePage?: () => void;
   canDeletePage?: boolean;
+  /** What students must do on the current page before "Następna" unlocks. */
+  pageCompletionRequirement?: CompletionRequirement;
+  onChangePageCompletionRequirement?: (requirement: CompletionRequirement) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  selectionCount?: number;
+  onAlignSelection?: (edge: AlignEdge) => void;
+  onDistributeSelection?: (axis: DistributeAxis) => void;
+  onCopySelection?: () => void;
+  onCutSelection?: () => void;
+  onPaste?: () => void;
+  onDuplicateSelection?: () => void;
   className?: string;
 }
 
@@ -35,6 +75,19 @@ export const TopToolbar: React.FC<TopToolbarProps> = ({
   onAddPage,
   onDeletePage,
   canDeletePage = true,
+  pageCompletionRequirement = 'none',
+  onChangePageCompletionRequirement,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  selectionCount = 0,
+  onAlignSelection,
+  onDistributeSelection,
+  onCopySelection,
+  onCutSelection,
+  onPaste,
+  onDuplicateSelection,
   className = ''
 }) => {
   const [currentFont, setCurrentFont] = useState('Inter, system-ui, sans-serif');
@@ -218,6 +271,9 @@ export const TopToolbar: React.FC<TopToolbarProps> = ({
           >
             <FileCode className="w-4 h-4" />
           </button>
+
+          {/* Math Formula */}
+          <MathFormulaPicker editor={editor} />
           
           <div className="w-px h-6 bg-gray-300"></div>
           
@@ -278,7 +334,124 @@ export const TopToolbar: React.FC<TopToolbarProps> = ({
 
   return (
     <div className={toolbarClassName}>
-      <div className="flex-1 basis-0" />
+      <div className="flex flex-1 basis-0 items-center gap-1">
+        {onUndo && (
+          <button
+            type="button"
+            onClick={onUndo}
+            disabled={!canUndo}
+            className={getFormattingButtonClass(false, !canUndo)}
+            title="Cofnij (Ctrl+Z)"
+          >
+            <Undo className="w-4 h-4" />
+          </button>
+        )}
+        {onRedo && (
+          <button
+            type="button"
+            onClick={onRedo}
+            disabled={!canRedo}
+            className={getFormattingButtonClass(false, !canRedo)}
+            title="Ponów (Ctrl+Shift+Z)"
+          >
+            <Redo className="w-4 h-4" />
+          </button>
+        )}
+        {(onCopySelection || onCutSelection || onPaste || onDuplicateSelection) && (
+          <div className="w-px h-6 bg-gray-300 mx-1"></div>
+        )}
+        {onCopySelection && (
+          <button
+            type="button"
+            onClick={onCopySelection}
+            disabled={selectionCount === 0}
+            className={getFormattingButtonClass(false, selectionCount === 0)}
+            title="Kopiuj (Ctrl+C)"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        )}
+        {onCutSelection && (
+          <button
+            type="button"
+            onClick={onCutSelection}
+            disabled={selectionCount === 0}
+            className={getFormattingButtonClass(false, selectionCount === 0)}
+            title="Wytnij (Ctrl+X)"
+          >
+            <Scissors className="w-4 h-4" />
+          </button>
+        )}
+        {onPaste && (
+          <button
+            type="button"
+            onClick={onPaste}
+            className={getFormattingButtonClass(false)}
+            title="Wklej (Ctrl+V)"
+          >
+            <ClipboardPaste className="w-4 h-4" />
+          </button>
+        )}
+        {onDuplicateSelection && (
+          <button
+            type="button"
+            onClick={onDuplicateSelection}
+            disabled={selectionCount === 0}
+            className={getFormattingButtonClass(false, selectionCount === 0)}
+            title="Powiel (Ctrl+D)"
+          >
+            <CopyPlus className="w-4 h-4" />
+          </button>
+        )}
+        {selectionCount > 1 && (onAlignSelection || onDistributeSelection) && (
+          <>
+            <div className="w-px h-6 bg-gray-300 mx-1"></div>
+            <span className="text-sm text-gray-500 mr-1">Zaznaczono: {selectionCount}</span>
+            {onAlignSelection && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onAlignSelection('left')}
+                  className={getFormattingButtonClass(false)}
+                  title="Wyrównaj do lewej"
+                >
+                  <AlignStartVertical className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onAlignSelection('top')}
+                  className={getFormattingButtonClass(false)}
+                  title="Wyrównaj do góry"
+                >
+                  <AlignStartHorizontal className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            {onDistributeSelection && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onDistributeSelection('horizontal')}
+                  disabled={selectionCount < 3}
+                  className={getFormattingButtonClass(false, selectionCount < 3)}
+                  title="Rozłóż równomiernie w poziomie"
+                >
+                  <AlignHorizontalDistributeCenter className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDistributeSelection('vertical')}
+                  disabled={selectionCount < 3}
+                  className={getFormattingButtonClass(false, selectionCount < 3)}
+                  title="Rozłóż równomiernie w pionie"
+                >
+                  <AlignVerticalDistributeCenter className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </>
+        )}
+      </div>
 
       <div className="flex flex-1 basis-0 justify-center min-w-0">
         {hasPagination && (
@@ -329,6 +502,24 @@ export const TopToolbar: React.FC<TopToolbarProps> = ({
             <span>
               Strona {currentPage} z {safeTotalPages}
             </span>
+            {onChangePageCompletionRequirement && (
+              <label
+                className="inline-flex items-center gap-1.5 h-9 px-2 rounded-lg border border-gray-200 text-gray-600"
+                title="Warunek przejścia na następną stronę"
+              >
+                <Lock className="w-4 h-4" />
+                <select
+                  value={pageCompletionRequirement}
+                  onChange={(e) => onChangePageCompletionRequirement(e.target.value as CompletionRequirement)}
+                  className="bg-transparent text-sm focus:outline-none"
+                  aria-label="Warunek przejścia na następną stronę"
+                >
+                  <option value="none">Przejście bez warunku</option>
+                  <option value="attempted">Wymagana próba</option>
+                  <option value="correct">Wymagana poprawna odpowiedź</option>
+                </select>
+              </label>
+            )}
             {onAddPage && (
               <button
                 type="button"
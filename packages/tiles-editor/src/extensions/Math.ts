@@ -0,0 +1,110 @@
+import { Node, mergeAttributes, type NodeViewRenderer, type NodeViewRendererProps } from '@tiptap/core';
+import { MATH_BLOCK_TYPE, MATH_INLINE_TYPE } from 'tiles-core/utils';
+import { renderLatex } from 'ui-primitives';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mathInline: {
+      /** Insert a formula, or replace the selected one */
+      insertMath: (latex: string, display?: boolean) => ReturnType;
+    };
+  }
+}
+
+const latexAttribute = {
+  latex: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-latex') ?? element.textContent ?? '',
+    renderHTML: (attributes: Record<string, unknown>) => ({ 'data-latex': attributes.latex })
+  }
+};
+
+type MathNode = NodeViewRendererProps['node'];
+
+/** Shows the rendered formula in the editor; the node itself is edited from the toolbar. */
+const createMathNodeView = (tag: 'span' | 'div', display: boolean): NodeViewRenderer => ({ node }) => {
+  const dom = document.createElement(tag);
+  dom.className = 'math-node';
+  dom.contentEditable = 'false';
+
+  const render = (latex: string) => {
+    dom.innerHTML = renderLatex(latex, display);
+  };
+  render(node.attrs.latex);
+
+  return {
+    dom,
+    update: (updatedNode: MathNode) => {
+      if (updatedNode.type !== node.type) return false;
+      render(updatedNode.attrs.latex);
+      return true;
+    }
+  };
+};
+
+export const MathInline = Node.create({
+  name: 'mathInline',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: `span[data-type="${MATH_INLINE_TYPE}"]` }];
+  },
+
+  // The LaTeX source doubles as the text content, so markup read without KaTeX still shows it.
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-type': MATH_INLINE_TYPE }, HTMLAttributes), node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.latex}$`;
+  },
+
+  addNodeView() {
+    return createMathNodeView('span', false);
+  },
+
+  addCommands() {
+    return {
+      insertMath:
+        (latex: string, display = false) =>
+        ({ commands }) =>
+          commands.insertContent({ type: display ? 'mathBlock' : this.name, attrs: { latex } })
+    };
+  }
+});
+
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+  group: 'block',
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: `div[data-type="${MATH_BLOCK_TYPE}"]` }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['div', mergeAttributes({ 'data-type': MATH_BLOCK_TYPE }, HTMLAttributes), node.attrs.latex];
+  },
+
+  renderText({ node }) {
+    return `$$${node.attrs.latex}$$`;
+  },
+
+  addNodeView() {
+    return createMathNodeView('div', true);
+  }
+});
+
+export default MathInline;
@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+
+interface UseHistoryShortcutsOptions {
+  onUndo: () => void;
+  onRedo: () => void;
+  /** Disable while a rich text editor is active so TipTap keeps handling its own history. */
+  enabled?: boolean;
+}
+
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Bind Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) to the lesson history. Keystrokes typed into form
+ * fields and content-editable elements are left alone.
+ */
+export const useHistoryShortcuts = ({ onUndo, onRedo, enabled = true }: UseHistoryShortcutsOptions) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo, enabled]);
+};
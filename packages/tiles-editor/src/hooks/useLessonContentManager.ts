@@ -1,6 +1,9 @@
-import { Dispatch, useCallback, useEffect, useMemo, useState } from 'react';
+import { Dispatch, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { LessonContentService } from '../services/lessonContentService';
+import { LessonConflictError } from '../services/storage';
 import {
+  CompletionRequirement,
+  GridPosition,
   Lesson,
   LessonTile,
   ProgrammingTile,
@@ -8,26 +11,49 @@ import {
   TextTile,
   OpenTile,
   PairingTile,
+  QuestionBank,
   EditorState,
   BlanksTile,
-  migrateTileConfig
+  getPageCompletionRequirement,
+  migrateTileConfig,
+  removePageSettings,
+  setPageCompletionRequirement
 } from 'tiles-core';
 import { GridUtils } from 'tiles-core/utils';
 import { logger } from '../utils/logger';
 import { EditorAction } from '../state/editorReducer';
+import { LessonHistory } from '../state/lessonHistory';
+import { AlignEdge, DistributeAxis, alignTiles, distributeTiles } from '../utils/tileArrangement';
+import { placeClipboardTiles } from '../utils/tileClipboard';
+import {
+  LessonPackageError,
+  LessonPackageImportResult,
+  createLessonPackage,
+  parseLessonPackage,
+  remapImportedLesson,
+  serializeLessonPackage
+} from '../services/lessonPackage';
+import {
+  LessonSaveConflict,
+  TileConflictChoice,
+  getConflictingTiles,
+  mergeConflictingTiles
+} from '../utils/lessonConflicts';
 
 type TileFactory = (position: { x: number; y: number }, page: number) => LessonTile;
 
 const tileFactoryMap: Partial<Record<LessonTile['type'], TileFactory>> = {
   text: (position, page) => LessonContentService.createTextTile(position, page),
   image: (position, page) => LessonContentService.createImageTile(position, page),
+  interactive: (position, page) => LessonContentService.createInteractiveTile(position, page),
   visualization: (position, page) => LessonContentService.createVisualizationTile(position, page),
   quiz: (position, page) => LessonContentService.createQuizTile(position, page),
   programming: (position, page) => LessonContentService.createProgrammingTile(position, page),
   sequencing: (position, page) => LessonContentService.createSequencingTile(position, page),
   blanks: (position, page) => LessonContentService.createBlanksTile(position, page),
   open: (position, page) => LessonContentService.createOpenTile(position, page),
-  pairing: (position, page) => LessonContentService.createPairingTile(position, page)
+  pairing: (position, page) => LessonContentService.createPairingTile(position, page),
+  'bank-slot': (position, page) => LessonContentService.createBankSlotTile(position, page)
 };
 
 const isRichTextTile = (
@@ -52,6 +78,11 @@ interface NotificationHandlers {
   warning: (title: string, message?: string) => void;
 }
 
+export type LessonConflictResolution =
+  | 'keepMine'
+  | 'takeTheirs'
+  | { tiles: Record<string, TileConflictChoice> };
+
 interface UseLessonContentManagerOptions {
   lessonId: string;
   editorState: EditorState;
@@ -71,6 +102,16 @@ export const useLessonContentManager = ({
   const [currentPage, setCurrentPage] = useState(1);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflict, setConflict] = useState<LessonSaveConflict | null>(null);
+  // Set when the author closes the conflict dialog; auto-save waits for a manual save.
+  const [isAutoSavePaused, setIsAutoSavePaused] = useState(false);
+  // Last version known to match storage; used to tell local deletions from remote additions.
+  const baseContentRef = useRef<Lesson | null>(null);
+  const historyRef = useRef<LessonHistory | null>(null);
+  if (!historyRef.current) {
+    historyRef.current = new LessonHistory();
+  }
+  const history = historyRef.current;
 
   const normalizeTilePage = useCallback((tile: LessonTile): LessonTile => ({
     ...tile,
@@ -99,20 +140,32 @@ export const useLessonContentManager = ({
     [getMaxPageFromTiles]
   );
 
-  const loadLessonContent = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const content = await LessonContentService.getLessonContent(lessonId);
+  /**
+   * Apply a document change and record it in the undo history. Updaters returning `prev`
+   * (nothing changed) are not recorded.
+   */
+  const applyChange = useCallback(
+    (label: string, updater: (prev: Lesson) => Lesson, coalesceKey?: string) => {
+      setLessonContent(prev => {
+        if (!prev) {
+          return prev;
+        }
 
-      if (!content) {
-        error('Błąd ładowania', 'Nie udało się załadować zawartości lekcji');
-        return;
-      }
+        const next = updater(prev);
+        history.push({ label, before: prev, after: next, coalesceKey });
+        return next;
+      });
+    },
+    [history]
+  );
 
+  const prepareContent = useCallback(
+    (content: Lesson): Lesson => {
       const migratedTiles = content.tiles.map(migrateTileConfig);
       const normalizedTiles = migratedTiles.map(normalizeTilePage);
       const totalPages = Math.max(content.total_pages ?? 1, getMaxPageFromTiles(normalizedTiles));
-      const normalizedContent: Lesson = {
+
+      return {
         ...content,
         tiles: normalizedTiles,
         total_pages: totalPages,
@@ -121,17 +174,30 @@ export const useLessonContentManager = ({
           height: computeMaxCanvasHeight(normalizedTiles, totalPages)
         }
       };
+    },
+    [normalizeTilePage, getMaxPageFromTiles, computeMaxCanvasHeight]
+  );
+
+  const loadLessonContent = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const content = await LessonContentService.getLessonContent(lessonId);
+      const normalizedContent = prepareContent(content);
+      baseContentRef.current = content;
 
+      history.clear();
       setLessonContent(normalizedContent);
       setCurrentPage(1);
-      logger.info(`Loaded lesson content with ${normalizedTiles.length} tiles across ${totalPages} pages`);
+      logger.info(
+        `Loaded lesson content with ${normalizedContent.tiles.length} tiles across ${normalizedContent.total_pages} pages`
+      );
     } catch (err) {
       logger.error('Failed to load lesson content:', err);
       error('Błąd ładowania', 'Wystąpił błąd podczas ładowania zawartości lekcji');
     } finally {
       setIsLoading(false);
     }
-  }, [lessonId, error, normalizeTilePage, getMaxPageFromTiles, computeMaxCanvasHeight]);
+  }, [lessonId, error, prepareContent, history]);
 
   useEffect(() => {
     void loadLessonContent();
@@ -153,13 +219,14 @@ export const useLessonContentManager = ({
     LessonContentService.persistLessonContent(lessonContent);
   }, [lessonContent]);
 
-  const saveLessonContent = useCallback(
-    async (showNotification = true) => {
-      if (!lessonContent) return;
-
+  const persistContent = useCallback(
+    async (content: Lesson, showNotification: boolean) => {
       try {
         setIsSaving(true);
-        await LessonContentService.saveLessonContent(lessonContent);
+        const saved = await LessonContentService.saveLessonContent(content);
+        baseContentRef.current = saved;
+        setLessonContent(prev => (prev ? { ...prev, revision: saved.revision } : prev));
+        setIsAutoSavePaused(false);
         dispatch({ type: 'clearUnsaved' });
 
         if (showNotification) {
@@ -168,17 +235,70 @@ export const useLessonContentManager = ({
 
         logger.info('Lesson content saved successfully');
       } catch (err) {
+        if (err instanceof LessonConflictError && err.remote) {
+          setConflict({
+            local: content,
+            remote: err.remote,
+            tiles: getConflictingTiles(content, err.remote, baseContentRef.current)
+          });
+          warning('Konflikt zapisu', 'Lekcja została w międzyczasie zmieniona w innym miejscu');
+          return;
+        }
+
         logger.error('Failed to save lesson content:', err);
         error('Błąd zapisu', 'Nie udało się zapisać zawartości lekcji');
       } finally {
         setIsSaving(false);
       }
     },
-    [lessonContent, dispatch, success, error]
+    [dispatch, success, error, warning]
+  );
+
+  const saveLessonContent = useCallback(
+    async (showNotification = true) => {
+      if (!lessonContent) return;
+      await persistContent(lessonContent, showNotification);
+    },
+    [lessonContent, persistContent]
   );
 
+  const resolveConflict = useCallback(
+    async (resolution: LessonConflictResolution) => {
+      if (!conflict) return;
+
+      setConflict(null);
+      setIsAutoSavePaused(false);
+
+      if (resolution === 'takeTheirs') {
+        baseContentRef.current = conflict.remote;
+        applyChange('Przyjęcie zapisanej wersji', () => prepareContent(conflict.remote));
+        dispatch({ type: 'selectTile', tileId: null });
+        dispatch({ type: 'clearUnsaved' });
+        logger.info('Conflict resolved by taking the stored lesson version');
+        return;
+      }
+
+      // Edits made while the dialog was open belong to "mine" as well.
+      const local = lessonContent ?? conflict.local;
+      const resolved =
+        resolution === 'keepMine'
+          ? { ...local, revision: conflict.remote.revision }
+          : prepareContent(mergeConflictingTiles({ ...conflict, local }, resolution.tiles));
+
+      applyChange('Rozwiązanie konfliktu', () => resolved);
+      await persistContent(resolved, true);
+    },
+    [conflict, lessonContent, prepareContent, persistContent, applyChange, dispatch]
+  );
+
+  /** Close the conflict dialog without resolving it; the next manual save runs into it again. */
+  const dismissConflict = useCallback(() => {
+    setConflict(null);
+    setIsAutoSavePaused(true);
+  }, []);
+
   useEffect(() => {
-    if (!editorState.hasUnsavedChanges || !lessonContent) {
+    if (!editorState.hasUnsavedChanges || !lessonContent || conflict || isAutoSavePaused) {
       return;
     }
 
@@ -187,7 +307,7 @@ export const useLessonContentManager = ({
     }, 5000);
 
     return () => clearTimeout(autoSaveTimer);
-  }, [editorState.hasUnsavedChanges, lessonContent, saveLessonContent]);
+  }, [editorState.hasUnsavedChanges, lessonContent, conflict, isAutoSavePaused, saveLessonContent]);
 
   const addTile = useCallback(
     (tileType: string, position: { x: number; y: number }) => {
@@ -202,11 +322,7 @@ export const useLessonContentManager = ({
 
       let addedTile = false;
 
-      setLessonContent(prev => {
-        if (!prev) {
-          return prev;
-        }
-
+      applyChange('Dodanie kafelka', prev => {
         const pageTiles = getTilesForPage(prev.tiles, currentPage);
         const availableGridPos = GridUtils.findNextAvailablePosition(
           newTile.gridPosition,
@@ -249,18 +365,14 @@ export const useLessonContentManager = ({
       dispatch({ type: 'selectTile', tileId: newTile.id });
       logger.info(`Added new ${tileType} tile to lesson`);
     },
-    [currentPage, getTilesForPage, computeMaxCanvasHeight, dispatch, warning]
+    [currentPage, getTilesForPage, computeMaxCanvasHeight, applyChange, dispatch, warning]
   );
 
   const updateTile = useCallback(
     (tileId: string, updates: Partial<LessonTile>) => {
       let wasUpdated = false;
 
-      setLessonContent(prev => {
-        if (!prev) {
-          return prev;
-        }
-
+      applyChange('Edycja kafelka', prev => {
         const updatedTiles = prev.tiles.map(tile => {
           if (tile.id !== tileId) {
             return tile;
@@ -307,7 +419,7 @@ export const useLessonContentManager = ({
           },
           updated_at: new Date().toISOString()
         };
-      });
+      }, `update:${tileId}`);
 
       if (!wasUpdated) {
         return;
@@ -315,18 +427,14 @@ export const useLessonContentManager = ({
 
       dispatch({ type: 'markUnsaved' });
     },
-    [computeMaxCanvasHeight, getMaxPageFromTiles, dispatch]
+    [computeMaxCanvasHeight, getMaxPageFromTiles, applyChange, dispatch]
   );
 
   const deleteTile = useCallback(
     (tileId: string): boolean => {
       let removedTileExists = false;
 
-      setLessonContent(prev => {
-        if (!prev) {
-          return prev;
-        }
-
+      applyChange('Usunięcie kafelka', prev => {
         const tile = prev.tiles.find(t => t.id === tileId);
         if (!tile) {
           return prev;
@@ -364,17 +472,194 @@ export const useLessonContentManager = ({
 
       return true;
     },
-    [computeMaxCanvasHeight, dispatch, editorState.selectedTileId, success]
+    [computeMaxCanvasHeight, applyChange, dispatch, editorState.selectedTileId, success]
   );
 
-  const addPage = useCallback(() => {
-    let newTotal = 0;
+  const deleteTiles = useCallback(
+    (tileIds: string[]): number => {
+      let removedCount = 0;
 
-    setLessonContent(prev => {
-      if (!prev) {
-        return prev;
+      applyChange('Usunięcie kafelków', prev => {
+        const updatedTiles = prev.tiles.filter(tile => !tileIds.includes(tile.id));
+        removedCount = prev.tiles.length - updatedTiles.length;
+        if (!removedCount) {
+          return prev;
+        }
+
+        return {
+          ...prev,
+          tiles: updatedTiles,
+          canvas_settings: {
+            ...prev.canvas_settings,
+            height: computeMaxCanvasHeight(updatedTiles, prev.total_pages)
+          },
+          updated_at: new Date().toISOString()
+        };
+      });
+
+      if (!removedCount) {
+        return 0;
+      }
+
+      dispatch({ type: 'markUnsaved' });
+      dispatch({ type: 'selectTile', tileId: null });
+      dispatch({ type: 'stopEditing' });
+      success('Kafelki usunięte', `Usunięto kafelki: ${removedCount}`);
+
+      return removedCount;
+    },
+    [computeMaxCanvasHeight, applyChange, dispatch, success]
+  );
+
+  /**
+   * Move several tiles at once. The whole group is validated with `GridUtils.isValidGroupPosition`
+   * against the other tiles on its page; nothing moves when any tile would collide.
+   */
+  const moveTiles = useCallback(
+    (positions: Record<string, GridPosition>, label = 'Przesunięcie kafelków'): boolean => {
+      if (!lessonContent) return false;
+
+      const movedTiles = lessonContent.tiles.filter(tile => tile.id in positions);
+      if (!movedTiles.length) return false;
+
+      const page = movedTiles[0].page ?? 1;
+      if (
+        !GridUtils.isValidGroupPosition(
+          positions,
+          lessonContent.canvas_settings,
+          getTilesForPage(lessonContent.tiles, page)
+        )
+      ) {
+        return false;
+      }
+
+      applyChange(label, prev => {
+        const updatedTiles = prev.tiles.map(tile => {
+          const gridPosition = positions[tile.id];
+          if (!gridPosition) {
+            return tile;
+          }
+
+          return {
+            ...tile,
+            gridPosition,
+            position: GridUtils.gridToPixel(gridPosition, prev.canvas_settings),
+            size: GridUtils.gridSizeToPixel(gridPosition, prev.canvas_settings),
+            updated_at: new Date().toISOString()
+          };
+        });
+
+        return {
+          ...prev,
+          tiles: updatedTiles,
+          canvas_settings: {
+            ...prev.canvas_settings,
+            height: computeMaxCanvasHeight(updatedTiles, prev.total_pages)
+          },
+          updated_at: new Date().toISOString()
+        };
+      });
+
+      dispatch({ type: 'markUnsaved' });
+
+      return true;
+    },
+    [lessonContent, applyChange, getTilesForPage, computeMaxCanvasHeight, dispatch]
+  );
+
+  const getSelectedTiles = useCallback((): LessonTile[] => {
+    if (!lessonContent) return [];
+    return lessonContent.tiles.filter(tile => editorState.selectedTileIds.includes(tile.id));
+  }, [lessonContent, editorState.selectedTileIds]);
+
+  const alignSelection = useCallback(
+    (edge: AlignEdge) => {
+      const positions = alignTiles(getSelectedTiles(), edge);
+      if (!Object.keys(positions).length) return false;
+
+      const moved = moveTiles(positions, edge === 'left' ? 'Wyrównanie do lewej' : 'Wyrównanie do góry');
+      if (!moved) {
+        warning('Nie można wyrównać', 'Po wyrównaniu kafelki nachodziłyby na siebie lub na inne kafelki.');
+      }
+      return moved;
+    },
+    [getSelectedTiles, moveTiles, warning]
+  );
+
+  const distributeSelection = useCallback(
+    (axis: DistributeAxis) => {
+      const positions = distributeTiles(getSelectedTiles(), axis);
+      if (!Object.keys(positions).length) {
+        warning('Za mało kafelków', 'Zaznacz co najmniej trzy kafelki, aby rozłożyć je równomiernie.');
+        return false;
       }
 
+      const moved = moveTiles(positions, 'Równomierne rozłożenie');
+      if (!moved) {
+        warning('Nie można rozłożyć', 'Po rozłożeniu kafelki nachodziłyby na siebie lub na inne kafelki.');
+      }
+      return moved;
+    },
+    [getSelectedTiles, moveTiles, warning]
+  );
+
+  /**
+   * Insert copies of `tiles` on the current page with fresh ids. Works for tiles coming from
+   * another page or lesson; positions are resolved against the current page.
+   */
+  const pasteTiles = useCallback(
+    (tiles: LessonTile[], label = 'Wklejenie kafelków'): string[] => {
+      if (!tiles.length) return [];
+
+      let pastedIds: string[] = [];
+
+      applyChange(label, prev => {
+        const pasted = placeClipboardTiles(
+          tiles,
+          currentPage,
+          prev.canvas_settings,
+          getTilesForPage(prev.tiles, currentPage)
+        );
+        pastedIds = pasted.map(tile => tile.id);
+
+        const updatedTiles = [...prev.tiles, ...pasted];
+        const totalPages = Math.max(prev.total_pages, currentPage);
+
+        return {
+          ...prev,
+          tiles: updatedTiles,
+          total_pages: totalPages,
+          canvas_settings: {
+            ...prev.canvas_settings,
+            height: computeMaxCanvasHeight(updatedTiles, totalPages)
+          },
+          updated_at: new Date().toISOString()
+        };
+      });
+
+      if (pastedIds.length) {
+        dispatch({ type: 'markUnsaved' });
+        dispatch({ type: 'setSelection', tileIds: pastedIds });
+      }
+
+      return pastedIds;
+    },
+    [applyChange, currentPage, getTilesForPage, computeMaxCanvasHeight, dispatch]
+  );
+
+  const duplicateTiles = useCallback(
+    (tileIds: string[]): string[] => {
+      if (!lessonContent) return [];
+      const tiles = lessonContent.tiles.filter(tile => tileIds.includes(tile.id));
+      return pasteTiles(tiles, 'Powielenie kafelków');
+    },
+    [lessonContent, pasteTiles]
+  );
+
+  const addPage = useCallback(() => {
+    let newTotal = 0;
+
+    applyChange('Dodanie strony', prev => {
       newTotal = (prev.total_pages ?? 1) + 1;
       const maxHeight = computeMaxCanvasHeight(prev.tiles, newTotal);
 
@@ -399,7 +684,7 @@ export const useLessonContentManager = ({
     dispatch({ type: 'markUnsaved' });
 
     return newTotal;
-  }, [computeMaxCanvasHeight, dispatch]);
+  }, [computeMaxCanvasHeight, applyChange, dispatch]);
 
   const deletePage = useCallback(
     (pageToDelete: number) => {
@@ -407,11 +692,7 @@ export const useLessonContentManager = ({
       let filteredTiles: LessonTile[] = [];
       let deleted = false;
 
-      setLessonContent(prev => {
-        if (!prev) {
-          return prev;
-        }
-
+      applyChange('Usunięcie strony', prev => {
         if (prev.total_pages <= 1) {
           operationResult = { nextPage: prev.total_pages, totalPages: prev.total_pages };
           return prev;
@@ -432,6 +713,7 @@ export const useLessonContentManager = ({
           ...prev,
           tiles: filteredTiles,
           total_pages: newTotalPages,
+          page_settings: removePageSettings(prev.page_settings, pageToDelete),
           canvas_settings: {
             ...prev.canvas_settings,
             height: maxHeight
@@ -455,7 +737,7 @@ export const useLessonContentManager = ({
 
       return operationResult.nextPage;
     },
-    [computeMaxCanvasHeight, dispatch, success]
+    [computeMaxCanvasHeight, applyChange, dispatch, success]
   );
 
   const changePage = useCallback(
@@ -479,8 +761,8 @@ export const useLessonContentManager = ({
   const clearCanvas = useCallback(() => {
     let hadTiles = false;
 
-    setLessonContent(prev => {
-      if (!prev || prev.tiles.length === 0) {
+    applyChange('Wyczyszczenie płótna', prev => {
+      if (prev.tiles.length === 0) {
         return prev;
       }
 
@@ -506,9 +788,125 @@ export const useLessonContentManager = ({
     dispatch({ type: 'selectTile', tileId: null });
     dispatch({ type: 'stopEditing' });
 
-    success('Płótno wyczyszczone', 'Wszystkie kafelki zostały usunięte');
+    success('Płótno wyczyszczone', 'Wszystkie kafelki zostały usunięte. Możesz to cofnąć skrótem Ctrl+Z.');
     return true;
-  }, [computeMaxCanvasHeight, dispatch, success]);
+  }, [computeMaxCanvasHeight, applyChange, dispatch, success]);
+
+  /**
+   * Replace the lesson with the one from an exported package. The current lesson keeps its id and
+   * storage revision, so the import is saved (and undone) like any other edit.
+   */
+  const importLesson = useCallback(
+    (packageText: string): boolean => {
+      let imported: LessonPackageImportResult;
+      try {
+        imported = parseLessonPackage(packageText);
+      } catch (err) {
+        logger.warn('Lesson package import failed:', err);
+        error(
+          'Import nieudany',
+          err instanceof LessonPackageError ? err.message : 'Nie udało się wczytać pakietu lekcji.'
+        );
+        return false;
+      }
+
+      applyChange('Import lekcji', prev =>
+        prepareContent({
+          ...remapImportedLesson(imported.lesson, { lessonId }),
+          revision: prev.revision,
+          created_at: prev.created_at,
+          updated_at: new Date().toISOString()
+        })
+      );
+
+      setCurrentPage(1);
+      dispatch({ type: 'markUnsaved' });
+      dispatch({ type: 'selectTile', tileId: null });
+      dispatch({ type: 'stopEditing' });
+
+      success('Lekcja zaimportowana', `Wczytano kafelki: ${imported.lesson.tiles.length}. Zapisz, aby zachować zmiany.`);
+      imported.warnings.forEach(message => warning('Import lekcji', message));
+      return true;
+    },
+    [applyChange, prepareContent, lessonId, dispatch, success, warning, error]
+  );
+
+  const exportLesson = useCallback(async (): Promise<string | null> => {
+    if (!lessonContent) return null;
+
+    try {
+      const { pkg, warnings } = await createLessonPackage(lessonContent);
+      warnings.forEach(message => warning('Eksport lekcji', message));
+      return serializeLessonPackage(pkg);
+    } catch (err) {
+      logger.error('Lesson package export failed:', err);
+      error('Eksport nieudany', 'Nie udało się przygotować pakietu lekcji.');
+      return null;
+    }
+  }, [lessonContent, warning, error]);
+
+  const restoreSnapshot = useCallback(
+    (snapshot: Lesson | null) => {
+      if (!snapshot) {
+        return false;
+      }
+
+      // The revision tracks storage, not the document history, so it is never rolled back.
+      setLessonContent(prev => (prev ? { ...snapshot, revision: prev.revision } : prev));
+
+      if (editorState.selectedTileId && !snapshot.tiles.some(tile => tile.id === editorState.selectedTileId)) {
+        dispatch({ type: 'selectTile', tileId: null });
+        dispatch({ type: 'stopEditing' });
+      }
+      dispatch({ type: 'markUnsaved' });
+      return true;
+    },
+    [editorState.selectedTileId, dispatch]
+  );
+
+  const undo = useCallback(() => restoreSnapshot(history.undo()), [history, restoreSnapshot]);
+
+  const redo = useCallback(() => restoreSnapshot(history.redo()), [history, restoreSnapshot]);
+
+  const updatePageCompletionRequirement = useCallback(
+    (page: number, completionRequirement: CompletionRequirement) => {
+      applyChange('Zmiana warunku przejścia strony', prev => ({
+        ...prev,
+        page_settings: setPageCompletionRequirement(prev.page_settings, page, completionRequirement),
+        updated_at: new Date().toISOString()
+      }));
+      dispatch({ type: 'markUnsaved' });
+    },
+    [applyChange, dispatch]
+  );
+
+  const updateQuestionBanks = useCallback(
+    (questionBanks: QuestionBank[]) => {
+      applyChange(
+        'Zmiana banków pytań',
+        prev => ({
+          ...prev,
+          question_banks: questionBanks,
+          updated_at: new Date().toISOString()
+        }),
+        'question-banks'
+      );
+      dispatch({ type: 'markUnsaved' });
+    },
+    [applyChange, dispatch]
+  );
+
+  useEffect(() => {
+    if (editorState.interaction.type === 'idle') {
+      history.endGroup();
+    } else {
+      history.beginGroup(editorState.interaction.type);
+    }
+  }, [editorState.interaction.type, history]);
+
+  useEffect(() => {
+    history.seal();
+  }, [editorState.selectedTileId, editorState.mode, history]);
 
   const totalPages = useMemo(() => Math.max(1, lessonContent?.total_pages ?? 1), [lessonContent]);
 
@@ -516,6 +914,11 @@ export const useLessonContentManager = ({
     return Math.min(Math.max(1, currentPage), totalPages);
   }, [currentPage, totalPages]);
 
+  const pageCompletionRequirement = useMemo(
+    () => (lessonContent ? getPageCompletionRequirement(lessonContent, safePage) : 'none'),
+    [lessonContent, safePage]
+  );
+
   const pageTiles = useMemo(() => {
     if (!lessonContent) return [] as LessonTile[];
     return getTilesForPage(lessonContent.tiles, safePage);
@@ -566,11 +969,31 @@ export const useLessonContentManager = ({
     addTile,
     updateTile,
     deleteTile,
+    deleteTiles,
+    moveTiles,
+    alignSelection,
+    distributeSelection,
+    getSelectedTiles,
+    pasteTiles,
+    duplicateTiles,
     addPage,
     deletePage,
     changePage,
+    pageCompletionRequirement,
+    updatePageCompletionRequirement,
+    questionBanks: lessonContent?.question_banks ?? [],
+    updateQuestionBanks,
     clearCanvas,
+    importLesson,
+    exportLesson,
     saveLessonContent,
-    loadLessonContent
+    loadLessonContent,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+    undo,
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo
   };
 };
@@ -0,0 +1,124 @@
+import { useCallback, useEffect } from 'react';
+import { LessonTile } from 'tiles-core';
+import { isEditableTarget } from './useHistoryShortcuts';
+import { parseTileClipboard, serializeTilesForClipboard } from '../utils/tileClipboard';
+import { logger } from '../utils/logger';
+
+interface UseTileClipboardOptions {
+  lessonId: string;
+  getSelectedTiles: () => LessonTile[];
+  onPaste: (tiles: LessonTile[]) => void;
+  onCut: (tileIds: string[]) => void;
+  onDuplicate: (tileIds: string[]) => void;
+  enabled?: boolean;
+}
+
+// Fallback for browsers without async clipboard access (e.g. plain http). Shared by every editor
+// instance in the tab, so tiles can still be moved between lessons.
+let lastCopiedPayload: string | null = null;
+
+const hasTextSelection = () => {
+  const selection = window.getSelection();
+  return !!selection && !selection.isCollapsed;
+};
+
+/**
+ * Copy, cut and paste tiles through the system clipboard (Ctrl+C / Ctrl+X / Ctrl+V) and
+ * duplicate them with Ctrl+D. Clipboard events coming from form fields, content-editable elements
+ * or a regular text selection are left to the browser.
+ */
+export const useTileClipboard = ({
+  lessonId,
+  getSelectedTiles,
+  onPaste,
+  onCut,
+  onDuplicate,
+  enabled = true
+}: UseTileClipboardOptions) => {
+  const writeSelection = useCallback(async (): Promise<LessonTile[]> => {
+    const tiles = getSelectedTiles();
+    if (!tiles.length) return [];
+
+    lastCopiedPayload = serializeTilesForClipboard(tiles, lessonId);
+    try {
+      await navigator.clipboard?.writeText(lastCopiedPayload);
+    } catch (error) {
+      logger.debug('Clipboard write unavailable, keeping tiles in memory', error);
+    }
+    return tiles;
+  }, [getSelectedTiles, lessonId]);
+
+  const copySelection = useCallback(async () => {
+    await writeSelection();
+  }, [writeSelection]);
+
+  const cutSelection = useCallback(async () => {
+    const tiles = await writeSelection();
+    if (tiles.length) onCut(tiles.map(tile => tile.id));
+  }, [writeSelection, onCut]);
+
+  const pasteFromClipboard = useCallback(async () => {
+    let text: string | null = null;
+    try {
+      text = (await navigator.clipboard?.readText()) ?? null;
+    } catch (error) {
+      logger.debug('Clipboard read unavailable, using tiles kept in memory', error);
+    }
+
+    const tiles = parseTileClipboard(text ?? '') ?? parseTileClipboard(lastCopiedPayload ?? '');
+    if (tiles) onPaste(tiles);
+  }, [onPaste]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleCopyOrCut = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || hasTextSelection()) return;
+
+      const tiles = getSelectedTiles();
+      if (!tiles.length || !e.clipboardData) return;
+
+      lastCopiedPayload = serializeTilesForClipboard(tiles, lessonId);
+      e.clipboardData.setData('text/plain', lastCopiedPayload);
+      e.preventDefault();
+
+      if (e.type === 'cut') {
+        onCut(tiles.map(tile => tile.id));
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+
+      const tiles = parseTileClipboard(e.clipboardData?.getData('text/plain') ?? '');
+      if (!tiles) return;
+
+      e.preventDefault();
+      onPaste(tiles);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey || isEditableTarget(e.target)) return;
+      if (e.key.toLowerCase() !== 'd') return;
+
+      const tiles = getSelectedTiles();
+      if (!tiles.length) return;
+
+      e.preventDefault();
+      onDuplicate(tiles.map(tile => tile.id));
+    };
+
+    document.addEventListener('copy', handleCopyOrCut);
+    document.addEventListener('cut', handleCopyOrCut);
+    document.addEventListener('paste', handlePaste);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('copy', handleCopyOrCut);
+      document.removeEventListener('cut', handleCopyOrCut);
+      document.removeEventListener('paste', handlePaste);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled, getSelectedTiles, lessonId, onPaste, onCut, onDuplicate]);
+
+  return { copySelection, cutSelection, pasteFromClipboard };
+};
@@ -1,8 +1,9 @@
-import { useState, useEffect, RefObject } from 'react';
+import { useState, useEffect, useRef, RefObject } from 'react';
 import { Lesson, LessonTile, GridPosition, EditorState, TextTile, ImageTile } from 'tiles-core';
 import { EditorAction } from '../state/editorReducer';
 import { GridUtils } from 'tiles-core/utils';
 import { logger } from '../utils/logger';
+import { isEditableTarget } from './useHistoryShortcuts';
 
 interface UseTileInteractionsProps {
   content: Lesson;
@@ -11,10 +12,34 @@ interface UseTileInteractionsProps {
   onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
   onSelectTile: (tileId: string | null) => void;
   onDeleteTile: (tileId: string) => void;
+  onMoveTiles?: (positions: Record<string, GridPosition>) => boolean;
+  onDeleteTiles?: (tileIds: string[]) => void;
   onAddTile: (tileType: string, position: { x: number; y: number }) => void;
   canvasRef: RefObject<HTMLDivElement>;
 }
 
+/**
+ * Edit mode entered on double click or Enter: rich text tiles open their text editor,
+ * images the image editor and the remaining tiles the side panel.
+ */
+const getEditActionForTile = (tile: LessonTile): EditorAction => {
+  if (
+    tile.type === 'text' ||
+    tile.type === 'programming' ||
+    tile.type === 'sequencing' ||
+    tile.type === 'quiz' ||
+    tile.type === 'open' ||
+    tile.type === 'pairing' ||
+    tile.type === 'blanks'
+  ) {
+    return { type: 'startTextEditing', tileId: tile.id };
+  }
+  if (tile.type === 'image') {
+    return { type: 'startImageEditing', tileId: tile.id };
+  }
+  return { type: 'startEditing', tileId: tile.id };
+};
+
 export const useTileInteractions = ({
   content,
   editorState,
@@ -22,31 +47,26 @@ export const useTileInteractions = ({
   onUpdateTile,
   onSelectTile,
   onDeleteTile,
+  onMoveTiles,
+  onDeleteTiles,
   onAddTile,
   canvasRef
 }: UseTileInteractionsProps) => {
   const [dragPreview, setDragPreview] = useState<GridPosition | null>(null);
   const [resizePreview, setResizePreview] = useState<{ tileId: string; gridPosition: GridPosition } | null>(null);
+  // A rubber-band selection ends with a click on the canvas, which must not clear the new selection.
+  const suppressCanvasClickRef = useRef(false);
+  const lastGroupDeltaRef = useRef<{ cols: number; rows: number } | null>(null);
 
   const handleTileDoubleClick = (tile: LessonTile) => {
-    if (
-      tile.type === 'text' ||
-      tile.type === 'programming' ||
-      tile.type === 'sequencing' ||
-      tile.type === 'quiz' ||
-      tile.type === 'open' ||
-      tile.type === 'pairing' ||
-      tile.type === 'blanks'
-    ) {
-      dispatch({ type: 'startTextEditing', tileId: tile.id });
-    } else if (tile.type === 'image') {
-      dispatch({ type: 'startImageEditing', tileId: tile.id });
-    } else {
-      dispatch({ type: 'startEditing', tileId: tile.id });
-    }
+    dispatch(getEditActionForTile(tile));
   };
 
   const handleCanvasClick = (e: React.MouseEvent) => {
+    if (suppressCanvasClickRef.current) {
+      suppressCanvasClickRef.current = false;
+      return;
+    }
     if (e.target === e.currentTarget) {
       onSelectTile(null);
       dispatch({ type: 'stopEditing' });
@@ -97,12 +117,46 @@ export const useTileInteractions = ({
     }
   };
 
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    if (editorState.mode === 'textEditing' || editorState.mode === 'imageEditing') return;
+
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    dispatch({
+      type: 'startMarquee',
+      start: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      additive: e.shiftKey
+    });
+  };
+
   const handleTileMouseDown = (e: React.MouseEvent, tile: LessonTile) => {
     if (editorState.mode === 'textEditing' || editorState.mode === 'imageEditing') {
       return;
     }
     e.preventDefault();
     e.stopPropagation();
+
+    if (e.shiftKey) {
+      dispatch({ type: 'toggleTileSelection', tileId: tile.id });
+      return;
+    }
+
+    if (onMoveTiles && editorState.selectedTileIds.length > 1 && editorState.selectedTileIds.includes(tile.id)) {
+      const startGridPositions = Object.fromEntries(
+        content.tiles
+          .filter(t => editorState.selectedTileIds.includes(t.id))
+          .map(t => [t.id, { ...t.gridPosition }])
+      );
+      lastGroupDeltaRef.current = null;
+      dispatch({
+        type: 'startGroupDrag',
+        tileIds: Object.keys(startGridPositions),
+        startPosition: { x: e.clientX, y: e.clientY },
+        startGridPositions
+      });
+      return;
+    }
+
     onSelectTile(tile.id);
     if (tile.type === 'text' && !(tile as TextTile).content.showBorder) {
       const tileElement = e.currentTarget as HTMLElement;
@@ -184,6 +238,31 @@ export const useTileInteractions = ({
           });
         }
       }
+      if (interaction.type === 'groupDrag' && onMoveTiles) {
+        const gridUnit = content.canvas_settings.gridSize + GridUtils.GRID_GAP;
+        const delta = {
+          cols: Math.round((e.clientX - interaction.startPosition.x) / gridUnit),
+          rows: Math.round((e.clientY - interaction.startPosition.y) / gridUnit)
+        };
+        const lastDelta = lastGroupDeltaRef.current;
+        if (lastDelta && lastDelta.cols === delta.cols && lastDelta.rows === delta.rows) return;
+
+        const positions = Object.fromEntries(
+          Object.entries(interaction.startGridPositions).map(([tileId, start]) => [
+            tileId,
+            { ...start, col: start.col + delta.cols, row: start.row + delta.rows }
+          ])
+        );
+        if (onMoveTiles(positions)) {
+          lastGroupDeltaRef.current = delta;
+        }
+      }
+      if (interaction.type === 'marquee') {
+        const rect = canvasRef.current?.getBoundingClientRect();
+        if (rect) {
+          dispatch({ type: 'updateMarquee', current: { x: e.clientX - rect.left, y: e.clientY - rect.top } });
+        }
+      }
       if (interaction.type === 'imageDrag' && interaction.start) {
         const deltaX = e.clientX - interaction.start.x;
         const deltaY = e.clientY - interaction.start.y;
@@ -324,7 +403,35 @@ export const useTileInteractions = ({
     };
 
     const handleMouseUp = () => {
-      if (editorState.interaction.type !== 'idle') {
+      const interaction = editorState.interaction;
+      if (interaction.type === 'marquee') {
+        const left = Math.min(interaction.start.x, interaction.current.x);
+        const top = Math.min(interaction.start.y, interaction.current.y);
+        const right = Math.max(interaction.start.x, interaction.current.x);
+        const bottom = Math.max(interaction.start.y, interaction.current.y);
+
+        // Tiny rectangles are plain clicks and keep the existing click-to-deselect behaviour.
+        if (right - left > 4 || bottom - top > 4) {
+          const hitIds = content.tiles
+            .filter(tile =>
+              tile.position.x < right &&
+              tile.position.x + tile.size.width > left &&
+              tile.position.y < bottom &&
+              tile.position.y + tile.size.height > top
+            )
+            .map(tile => tile.id);
+          const tileIds = interaction.additive
+            ? Array.from(new Set([...editorState.selectedTileIds, ...hitIds]))
+            : hitIds;
+
+          suppressCanvasClickRef.current = true;
+          dispatch({ type: 'endInteraction' });
+          dispatch({ type: 'setSelection', tileIds });
+          return;
+        }
+      }
+
+      if (interaction.type !== 'idle') {
         dispatch({ type: 'endInteraction' });
         setResizePreview(null);
       }
@@ -338,27 +445,156 @@ export const useTileInteractions = ({
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [editorState.interaction, content, onUpdateTile, dispatch, editorState.selectedTileId, canvasRef]);
+  }, [
+    editorState.interaction,
+    content,
+    onUpdateTile,
+    onMoveTiles,
+    dispatch,
+    editorState.selectedTileId,
+    editorState.selectedTileIds,
+    canvasRef
+  ]);
 
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Delete' && editorState.selectedTileId) {
-        onDeleteTile(editorState.selectedTileId);
+    const applyKeyboardGridChange = (tile: LessonTile, gridPosition: GridPosition) => {
+      if (!GridUtils.isValidGridPosition(gridPosition, content.canvas_settings, content.tiles, tile.id)) {
+        return;
+      }
+
+      onUpdateTile(tile.id, {
+        position: GridUtils.gridToPixel(gridPosition, content.canvas_settings),
+        size: GridUtils.gridSizeToPixel(gridPosition, content.canvas_settings),
+        gridPosition
+      });
+    };
+
+    const handleArrowKey = (e: KeyboardEvent, cols: number, rows: number) => {
+      const selectedTiles = content.tiles.filter(tile => editorState.selectedTileIds.includes(tile.id));
+      if (!selectedTiles.length) return;
+      e.preventDefault();
+
+      // Shift+arrow resizes from the bottom-right corner of the primary tile.
+      if (e.shiftKey) {
+        const tile = selectedTiles.find(candidate => candidate.id === editorState.selectedTileId);
+        if (!tile) return;
+        applyKeyboardGridChange(tile, {
+          ...tile.gridPosition,
+          colSpan: Math.max(1, tile.gridPosition.colSpan + cols),
+          rowSpan: Math.max(1, tile.gridPosition.rowSpan + rows)
+        });
+        return;
       }
+
+      if (selectedTiles.length > 1 && onMoveTiles) {
+        onMoveTiles(
+          Object.fromEntries(
+            selectedTiles.map(tile => [
+              tile.id,
+              { ...tile.gridPosition, col: tile.gridPosition.col + cols, row: tile.gridPosition.row + rows }
+            ])
+          )
+        );
+        return;
+      }
+
+      const tile = selectedTiles[selectedTiles.length - 1];
+      applyKeyboardGridChange(tile, {
+        ...tile.gridPosition,
+        col: tile.gridPosition.col + cols,
+        row: tile.gridPosition.row + rows
+      });
+    };
+
+    const cycleSelection = (e: KeyboardEvent) => {
+      const ordered = [...content.tiles].sort(
+        (a, b) => a.gridPosition.row - b.gridPosition.row || a.gridPosition.col - b.gridPosition.col
+      );
+      if (!ordered.length) return;
+      e.preventDefault();
+
+      const currentIndex = ordered.findIndex(tile => tile.id === editorState.selectedTileId);
+      const step = e.shiftKey ? -1 : 1;
+      const nextIndex =
+        currentIndex === -1
+          ? (e.shiftKey ? ordered.length - 1 : 0)
+          : (currentIndex + step + ordered.length) % ordered.length;
+      onSelectTile(ordered[nextIndex].id);
+    };
+
+    // Navigation keys only apply while focus is on the canvas (or nowhere in particular),
+    // so Tab and arrows keep working in the toolbar and side panel.
+    const isCanvasFocused = (target: EventTarget | null) =>
+      target === document.body || (target instanceof Node && !!canvasRef.current?.contains(target));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         onSelectTile(null);
         dispatch({ type: 'stopEditing' });
       }
+      if (isEditableTarget(e.target)) return;
+
+      if (e.key === 'Delete' && editorState.selectedTileIds.length > 1 && onDeleteTiles) {
+        onDeleteTiles(editorState.selectedTileIds);
+      } else if (e.key === 'Delete' && editorState.selectedTileId) {
+        onDeleteTile(editorState.selectedTileId);
+      }
+
+      const isBusy =
+        editorState.mode === 'textEditing' ||
+        editorState.mode === 'imageEditing' ||
+        editorState.interaction.type !== 'idle';
+      if (isBusy || e.ctrlKey || e.metaKey || e.altKey || !isCanvasFocused(e.target)) return;
+
+      switch (e.key) {
+        case 'ArrowLeft':
+          handleArrowKey(e, -1, 0);
+          break;
+        case 'ArrowRight':
+          handleArrowKey(e, 1, 0);
+          break;
+        case 'ArrowUp':
+          handleArrowKey(e, 0, -1);
+          break;
+        case 'ArrowDown':
+          handleArrowKey(e, 0, 1);
+          break;
+        case 'Tab':
+          cycleSelection(e);
+          break;
+        case 'Enter': {
+          const tile = content.tiles.find(candidate => candidate.id === editorState.selectedTileId);
+          if (tile) {
+            e.preventDefault();
+            dispatch(getEditActionForTile(tile));
+          }
+          break;
+        }
+      }
     };
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [editorState.selectedTileId, onDeleteTile, onSelectTile, dispatch]);
+  }, [
+    content,
+    editorState.selectedTileId,
+    editorState.selectedTileIds,
+    editorState.mode,
+    editorState.interaction.type,
+    onUpdateTile,
+    onMoveTiles,
+    onDeleteTile,
+    onDeleteTiles,
+    onSelectTile,
+    dispatch,
+    canvasRef
+  ]);
 
   return {
     dragPreview,
     resizePreview,
     handleTileDoubleClick,
     handleCanvasClick,
+    handleCanvasMouseDown,
     handleDrop,
     handleDragOver,
     handleDragLeave,
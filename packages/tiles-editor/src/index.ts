@@ -14,5 +14,13 @@ export * from './side-editors';
 export * from './hooks/useLessonEditor';
 export * from './hooks/useLessonContentManager';
 export * from './hooks/useTileInteractions';
+export * from './hooks/useHistoryShortcuts';
+export * from './hooks/useTileClipboard';
 export * from './state/editorReducer';
+export * from './state/lessonHistory';
 export * from './services/lessonContentService';
+export * from './services/lessonPackage';
+export * from './services/storage';
+export * from './utils/lessonConflicts';
+export * from './utils/tileArrangement';
+export * from './utils/tileClipboard';
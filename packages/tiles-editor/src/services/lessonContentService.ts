@@ -2,17 +2,34 @@ import {
   Lesson,
   LessonTile,
   TextTile,
+  InteractiveTile,
   ProgrammingTile,
   SequencingTile,
   BlanksTile,
   OpenTile,
   PairingTile,
+  BankSlotTile,
+  QuizTile,
+  QuestionBank,
+  QuestionBankItem,
+  QuestionBankItemType,
   CanvasSettings,
   GridPosition,
-  TILE_VERSION
+  LESSON_FORMAT_VERSION,
+  TILE_VERSION,
+  lessonSchema,
+  migrateLessonDocument
 } from 'tiles-core';
 import { GridUtils, extractPlaceholdersFromTemplate } from 'tiles-core/utils';
 import { logger } from '../utils/logger';
+import {
+  LessonConflictError,
+  LessonStorageAdapter,
+  LessonStorageConfig,
+  LessonStorageEntry,
+  createLessonStorageAdapter,
+  resolveLessonStorageConfig
+} from './storage';
 
 const DEFAULT_CANVAS_SETTINGS: CanvasSettings = {
   width: GridUtils.GRID_COLUMNS,
@@ -21,13 +38,23 @@ const DEFAULT_CANVAS_SETTINGS: CanvasSettings = {
   snapToGrid: true
 };
 
-const STORAGE_KEY_PREFIX = 'lesson-content:';
-
+/**
+ * Session cache of the lessons opened in the editor. Drafts are also written through the
+ * storage adapter so they survive a reload; `saveLessonContent` bumps the revision.
+ */
 const inMemoryLessonStore = new Map<string, Lesson>();
 
-const isBrowserEnvironment = () => typeof window !== 'undefined' && !!window.localStorage;
+/** Pending draft write per lesson, so drafts reach the adapter in the order they were made. */
+const draftWrites = new Map<string, Promise<void>>();
 
-const getStorageKey = (lessonId: string) => `${STORAGE_KEY_PREFIX}${lessonId}`;
+let storageAdapter: LessonStorageAdapter | null = null;
+
+const getStorageAdapter = (): LessonStorageAdapter => {
+  if (!storageAdapter) {
+    storageAdapter = createLessonStorageAdapter(resolveLessonStorageConfig());
+  }
+  return storageAdapter;
+};
 
 const cloneLesson = (lesson: Lesson): Lesson => JSON.parse(JSON.stringify(lesson)) as Lesson;
 
@@ -49,7 +76,9 @@ export class LessonContentService {
       canvas_settings: { ...DEFAULT_CANVAS_SETTINGS },
       total_pages: 1,
       created_at: timestamp,
-      updated_at: timestamp
+      updated_at: timestamp,
+      format_version: LESSON_FORMAT_VERSION,
+      revision: 0
     };
   }
 
@@ -75,88 +104,210 @@ export class LessonContentService {
     return cloned;
   }
 
-  private static writeToStores(content: Lesson): void {
-    inMemoryLessonStore.set(content.lesson_id, content);
-
-    if (isBrowserEnvironment()) {
-      try {
-        window.localStorage.setItem(getStorageKey(content.lesson_id), JSON.stringify(content));
-      } catch (error) {
-        logger.warn('Failed to persist lesson content to localStorage:', error);
+  /**
+   * Bring a stored document up to the current lesson format before validating it.
+   * Documents that still fail validation are kept as-is instead of being dropped,
+   * so a schema mismatch never results in an empty lesson overwriting the stored one.
+   */
+  private static migrateContent(raw: unknown): Lesson {
+    const { lesson, report } = migrateLessonDocument(raw);
+
+    if (report) {
+      if (report.applied.length > 0) {
+        logger.info(
+          `Migrated lesson document from ${report.fromVersion} to ${report.toVersion}:`,
+          report.applied
+        );
       }
+      report.tiles.forEach(tileReport => {
+        logger.info(
+          `Migrated ${tileReport.tileType} tile ${tileReport.tileId} from ${tileReport.fromVersion} to ${tileReport.toVersion}:`,
+          tileReport.applied
+        );
+      });
+    }
+
+    const result = lessonSchema.safeParse(lesson);
+    if (!result.success) {
+      logger.warn('Stored lesson content does not match the current schema:', result.error);
+      return lesson as Lesson;
     }
+
+    return result.data;
   }
 
-  private static readFromStores(lessonId: string): Lesson | null {
+  /**
+   * Resolves to `null` only when the lesson has never been stored. Read failures are thrown,
+   * so an unreachable backend never looks like an empty lesson that a save would overwrite.
+   */
+  private static async readFromStores(lessonId: string): Promise<Lesson | null> {
     const fromMemory = inMemoryLessonStore.get(lessonId);
     if (fromMemory) {
       return cloneLesson(fromMemory);
     }
 
-    if (isBrowserEnvironment()) {
-      try {
-        const stored = window.localStorage.getItem(getStorageKey(lessonId));
-        if (stored) {
-          const parsed = JSON.parse(stored) as Lesson;
-          const normalized = this.normalizeContent(parsed);
-          this.writeToStores(normalized);
-          return cloneLesson(normalized);
-        }
-      } catch (error) {
-        logger.warn('Failed to read lesson content from localStorage:', error);
-      }
+    const adapter = getStorageAdapter();
+    let stored: unknown;
+    try {
+      stored = await adapter.get(lessonId);
+    } catch (error) {
+      logger.error(`Failed to read lesson content from ${adapter.name} storage:`, error);
+      throw error;
     }
 
-    return null;
+    if (!stored) {
+      return null;
+    }
+
+    const normalized = this.normalizeContent(this.migrateContent(stored));
+    inMemoryLessonStore.set(lessonId, normalized);
+    return cloneLesson(normalized);
   }
 
   /**
-   * Get lesson content by lesson ID
+   * Select the persistence backend. Accepts a ready adapter (e.g. one talking to a custom backend)
+   * or a config for one of the built-in adapters. Clears the session cache so lessons are re-read
+   * from the new backend.
    */
-  static async getLessonContent(lessonId: string): Promise<Lesson | null> {
-    try {
-      const storedContent = this.readFromStores(lessonId);
+  static configureStorage(adapterOrConfig: LessonStorageAdapter | LessonStorageConfig): void {
+    storageAdapter =
+      'type' in adapterOrConfig ? createLessonStorageAdapter(adapterOrConfig) : adapterOrConfig;
+    inMemoryLessonStore.clear();
+    draftWrites.clear();
+    logger.info(`Lesson storage set to ${storageAdapter.name}`);
+  }
 
-      if (storedContent) {
-        return storedContent;
-      }
+  static getStorageAdapter(): LessonStorageAdapter {
+    return getStorageAdapter();
+  }
 
-      const mockContent = this.createEmptyContent(lessonId);
-      this.writeToStores(mockContent);
+  /**
+   * Get lesson content by lesson ID. Lessons that were never saved start out empty; storage
+   * and migration errors are passed on to the caller.
+   */
+  static async getLessonContent(lessonId: string): Promise<Lesson> {
+    const storedContent = await this.readFromStores(lessonId);
 
-      return cloneLesson(mockContent);
-    } catch (error) {
-      logger.error('Failed to load lesson content:', error);
-      return null;
+    if (storedContent) {
+      return storedContent;
     }
+
+    const emptyContent = this.createEmptyContent(lessonId);
+    inMemoryLessonStore.set(lessonId, emptyContent);
+
+    return cloneLesson(emptyContent);
   }
 
   /**
-   * Save lesson content
+   * Save lesson content. The write is based on `content.revision`; when the stored lesson has
+   * moved on in the meantime a `LessonConflictError` carrying the stored version is thrown.
+   * Resolves to the saved lesson with its new revision.
    */
-  static async saveLessonContent(content: Lesson): Promise<void> {
+  static async saveLessonContent(content: Lesson): Promise<Lesson> {
+    const adapter = getStorageAdapter();
+    const expectedRevision = content.revision ?? 0;
+
     try {
-      const normalized = this.normalizeContent(content);
+      // A draft still on its way to the adapter must not land on top of this save.
+      await draftWrites.get(content.lesson_id);
+
+      const normalized: Lesson = { ...this.normalizeContent(content), revision: expectedRevision + 1 };
 
-      // Simulate API call - replace with actual Supabase call
-      logger.info('Saving lesson content:', normalized);
+      logger.info(`Saving lesson content to ${adapter.name} storage:`, normalized);
 
-      this.writeToStores(normalized);
+      await adapter.save(normalized, { expectedRevision });
+      inMemoryLessonStore.set(normalized.lesson_id, normalized);
 
-      // Here you would make the actual API call to save to Supabase
-      // await supabase.from('lesson_content').upsert(normalized);
+      return cloneLesson(normalized);
     } catch (error) {
+      if (error instanceof LessonConflictError) {
+        logger.warn('Lesson content was modified elsewhere:', error.message);
+        throw await this.attachRemoteContent(error);
+      }
+
       logger.error('Failed to save lesson content:', error);
       throw error;
     }
   }
 
+  private static async attachRemoteContent(conflict: LessonConflictError): Promise<LessonConflictError> {
+    if (conflict.remote) {
+      return conflict;
+    }
+
+    try {
+      const stored = await getStorageAdapter().get(conflict.lessonId);
+      if (!stored) {
+        return conflict;
+      }
+
+      const remote = this.migrateContent(stored);
+      return new LessonConflictError(
+        conflict.lessonId,
+        conflict.expectedRevision,
+        conflict.actualRevision ?? remote.revision,
+        remote
+      );
+    } catch (error) {
+      logger.warn('Failed to load the conflicting lesson version:', error);
+      return conflict;
+    }
+  }
+
+  /**
+   * Keep an unsaved draft. It is stored under the revision it was based on, so it never
+   * counts as a new save, and a draft based on an outdated revision is rejected by the
+   * adapter instead of overwriting someone else's save.
+   */
   static persistLessonContent(content: Lesson): void {
+    let normalized: Lesson;
     try {
-      const normalized = this.normalizeContent(content);
-      this.writeToStores(normalized);
+      normalized = this.normalizeContent(content);
     } catch (error) {
       logger.warn('Failed to persist lesson content draft:', error);
+      return;
+    }
+
+    const lessonId = normalized.lesson_id;
+    inMemoryLessonStore.set(lessonId, normalized);
+
+    const adapter = getStorageAdapter();
+    const write = (draftWrites.get(lessonId) ?? Promise.resolve())
+      .then(() => adapter.save(normalized, { expectedRevision: normalized.revision ?? 0 }))
+      .catch(error => {
+        logger.warn(`Failed to persist lesson content draft to ${adapter.name} storage:`, error);
+      })
+      .finally(() => {
+        if (draftWrites.get(lessonId) === write) {
+          draftWrites.delete(lessonId);
+        }
+      });
+    draftWrites.set(lessonId, write);
+  }
+
+  /**
+   * List lessons available in the configured storage
+   */
+  static async listLessons(): Promise<LessonStorageEntry[]> {
+    try {
+      return await getStorageAdapter().list();
+    } catch (error) {
+      logger.error('Failed to list lessons:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete lesson content from the configured storage
+   */
+  static async deleteLessonContent(lessonId: string): Promise<void> {
+    try {
+      inMemoryLessonStore.delete(lessonId);
+      await draftWrites.get(lessonId);
+      await getStorageAdapter().delete(lessonId);
+    } catch (error) {
+      logger.error('Failed to delete lesson content:', error);
+      throw error;
     }
   }
 
@@ -199,6 +350,27 @@ export class LessonContentService {
     };
   }
 
+  /**
+   * Create a new interactive tile; it starts as a numeric answer task
+   */
+  static createInteractiveTile(position: { x: number; y: number }, page = 1): InteractiveTile {
+    const base = this.initializeTileBase('interactive', position, page, { colSpan: 6, rowSpan: 6 });
+
+    return {
+      ...base,
+      content: {
+        title: 'Zadanie interaktywne',
+        description: 'Ile wynosi 3/4 zapisane w postaci dziesiętnej?',
+        interactionType: 'input',
+        data: {
+          correctValue: 0.75,
+          tolerance: 0,
+          unit: ''
+        }
+      }
+    };
+  }
+
   /**
    * Create a new visualization tile
    */
@@ -213,7 +385,7 @@ export class LessonContentService {
         chartType: 'bar',
         data: {
           labels: ['A', 'B', 'C', 'D'],
-          values: [10, 20, 15, 25]
+          series: [{ id: 'series-1', name: 'Seria 1', color: '#3b82f6', values: [10, 20, 15, 25] }]
         },
         videoUrl: '',
         videoLoop: true
@@ -370,7 +542,8 @@ export class LessonContentService {
         backgroundColor: '#d4d4d4',
         showBorder: true,
         expectedFormat: "['napis1', 'napis2', 'napis3']",
-        correctAnswer: "['napis1', 'napis2', 'napis3']",
+        answerMode: 'list',
+        acceptedAnswers: [{ id: 'answer-1', value: "['napis1', 'napis2', 'napis3']" }],
         ignoreCase: true,
         ignoreWhitespace: true,
         attachments: [
@@ -384,13 +557,60 @@ export class LessonContentService {
     };
   }
 
+  /**
+   * Create a new question bank slot tile
+   */
+  static createBankSlotTile(position: { x: number; y: number }, page = 1, bankId = ''): BankSlotTile {
+    const base = this.initializeTileBase('bank-slot', position, page, { colSpan: 8, rowSpan: 6 });
+
+    return {
+      ...base,
+      content: {
+        bankId,
+        backgroundColor: '#D4D4D4'
+      }
+    };
+  }
+
+  /**
+   * Create an empty question bank
+   */
+  static createQuestionBank(name: string): QuestionBank {
+    return {
+      id: `bank-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      items: []
+    };
+  }
+
+  /**
+   * Create a question bank item with the same starter content as a new tile of its type
+   */
+  static createQuestionBankItem(type: QuestionBankItemType): QuestionBankItem {
+    const id = `bank-item-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const position = { x: 0, y: 0 };
+
+    if (type === 'quiz') {
+      return { id, type, content: (this.createQuizTile(position) as QuizTile).content };
+    }
+
+    return { id, type, content: this.createBlanksTile(position).content };
+  }
+
+  /**
+   * Generate a unique tile id
+   */
+  static createTileId(): string {
+    return `tile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   private static initializeTileBase<TType extends LessonTile['type']>(
     type: TType,
     position: { x: number; y: number },
     page: number,
     spans: Pick<GridPosition, 'colSpan' | 'rowSpan'>
   ): Omit<Extract<LessonTile, { type: TType }>, 'content'> {
-    const id = `tile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const id = this.createTileId();
     const now = new Date().toISOString();
 
     const gridPos = GridUtils.pixelToGrid(position, DEFAULT_CANVAS_SETTINGS);
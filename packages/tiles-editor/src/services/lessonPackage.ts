@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import { Lesson, LessonTile, lessonSchema, migrateLessonDocument } from 'tiles-core';
+import { LessonContentService } from './lessonContentService';
+import { logger } from '../utils/logger';
+
+export const LESSON_PACKAGE_FORMAT = 'course-editor/lesson-package';
+export const LESSON_PACKAGE_VERSION = 1;
+
+/** Image data bundled for an image tile whose picture lives on a remote URL. */
+export interface LessonPackageAsset {
+  tileId: string;
+  sourceUrl: string;
+  mimeType: string;
+  /** The image as a `data:` URL. */
+  data: string;
+}
+
+/** Attachment metadata of an open tile. Files themselves are referenced by URL only. */
+export interface LessonPackageAttachment {
+  tileId: string;
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface LessonPackage {
+  format: typeof LESSON_PACKAGE_FORMAT;
+  version: number;
+  exported_at: string;
+  lesson: Lesson;
+  assets: LessonPackageAsset[];
+  attachments: LessonPackageAttachment[];
+}
+
+export interface LessonPackageExportOptions {
+  /** Download remote images and store them in the package. Defaults to `true`. */
+  bundleImages?: boolean;
+  fetchImpl?: typeof fetch;
+}
+
+export interface LessonPackageImportResult {
+  lesson: Lesson;
+  attachments: LessonPackageAttachment[];
+  /** Things that did not stop the import but the author should know about. */
+  warnings: string[];
+}
+
+export interface LessonPackageRemapOptions {
+  /** Import as this lesson instead of the one recorded in the package. */
+  lessonId?: string;
+  /** Tile ids already in use; colliding tiles get new ids. */
+  takenTileIds?: Iterable<string>;
+}
+
+export class LessonPackageError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'LessonPackageError';
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+const lessonPackageEnvelopeSchema = z.object({
+  format: z.literal(LESSON_PACKAGE_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: z.string().optional(),
+  lesson: z.unknown(),
+  assets: z
+    .array(
+      z.object({
+        tileId: z.string(),
+        sourceUrl: z.string(),
+        mimeType: z.string(),
+        data: z.string().startsWith('data:')
+      })
+    )
+    .default([]),
+  attachments: z
+    .array(z.object({ tileId: z.string(), id: z.string(), name: z.string(), url: z.string() }))
+    .default([])
+});
+
+const isRemoteUrl = (url: string) => /^https?:\/\//i.test(url);
+
+const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+
+/**
+ * Build a portable package from a lesson. Images that are already inline (`data:` URLs) travel
+ * inside the lesson; remote images are downloaded and bundled when possible. Images that cannot
+ * be fetched (offline, CORS) stay as URL references and are reported in `warnings`.
+ */
+export const createLessonPackage = async (
+  lesson: Lesson,
+  { bundleImages = true, fetchImpl = globalThis.fetch?.bind(globalThis) }: LessonPackageExportOptions = {}
+): Promise<{ pkg: LessonPackage; warnings: string[] }> => {
+  const warnings: string[] = [];
+  const assets: LessonPackageAsset[] = [];
+
+  if (bundleImages && fetchImpl) {
+    for (const tile of lesson.tiles) {
+      if (tile.type !== 'image' || !isRemoteUrl(tile.content.url)) continue;
+
+      try {
+        const response = await fetchImpl(tile.content.url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const blob = await response.blob();
+        assets.push({
+          tileId: tile.id,
+          sourceUrl: tile.content.url,
+          mimeType: blob.type,
+          data: await blobToDataUrl(blob)
+        });
+      } catch (error) {
+        logger.warn(`Could not bundle image ${tile.content.url}:`, error);
+        warnings.push(`Obraz ${tile.content.url} nie został dołączony i pozostanie odnośnikiem.`);
+      }
+    }
+  }
+
+  const attachments = lesson.tiles.flatMap(tile =>
+    tile.type === 'open'
+      ? tile.content.attachments.map(attachment => ({ tileId: tile.id, ...attachment }))
+      : []
+  );
+
+  return {
+    pkg: {
+      format: LESSON_PACKAGE_FORMAT,
+      version: LESSON_PACKAGE_VERSION,
+      exported_at: new Date().toISOString(),
+      lesson,
+      assets,
+      attachments
+    },
+    warnings
+  };
+};
+
+export const serializeLessonPackage = (pkg: LessonPackage): string => JSON.stringify(pkg, null, 2);
+
+/**
+ * Read a package produced by `createLessonPackage`: checks the envelope, migrates the lesson
+ * to the current format, validates it with `lessonSchema` and swaps bundled images back in.
+ * Throws `LessonPackageError` with a readable message when the package cannot be used.
+ */
+export const parseLessonPackage = (text: string): LessonPackageImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new LessonPackageError('Plik nie jest poprawnym plikiem JSON.', { cause: error });
+  }
+
+  const envelope = lessonPackageEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new LessonPackageError(`To nie jest pakiet lekcji: ${formatIssues(envelope.error)}`);
+  }
+  if (envelope.data.version > LESSON_PACKAGE_VERSION) {
+    throw new LessonPackageError(
+      `Pakiet ma wersję ${envelope.data.version}, a edytor obsługuje co najwyżej wersję ${LESSON_PACKAGE_VERSION}.`
+    );
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = migrateLessonDocument(envelope.data.lesson).lesson;
+  } catch (error) {
+    throw new LessonPackageError(
+      `Nie można wczytać lekcji: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+
+  const result = lessonSchema.safeParse(migrated);
+  if (!result.success) {
+    throw new LessonPackageError(`Lekcja w pakiecie jest niepoprawna: ${formatIssues(result.error)}`);
+  }
+
+  const assetsByTile = new Map(envelope.data.assets.map(asset => [asset.tileId, asset]));
+  const tiles = result.data.tiles.map((tile): LessonTile => {
+    const asset = assetsByTile.get(tile.id);
+    if (tile.type !== 'image' || !asset || asset.sourceUrl !== tile.content.url) {
+      return tile;
+    }
+    return { ...tile, content: { ...tile.content, url: asset.data } };
+  });
+
+  const warnings = envelope.data.attachments.length
+    ? [`Załączniki (${envelope.data.attachments.length}) są odnośnikami i muszą być dostępne pod tymi samymi adresami.`]
+    : [];
+
+  return { lesson: { ...result.data, tiles }, attachments: envelope.data.attachments, warnings };
+};
+
+/**
+ * Move an imported lesson under `lessonId` and give its tiles ids that do not clash with
+ * `takenTileIds` or with each other. The revision is reset because the lesson starts a new history
+ * in this environment.
+ */
+export const remapImportedLesson = (
+  lesson: Lesson,
+  { lessonId, takenTileIds = [] }: LessonPackageRemapOptions = {}
+): Lesson => {
+  const usedTileIds = new Set(takenTileIds);
+  const targetLessonId = lessonId ?? lesson.lesson_id;
+
+  const tiles = lesson.tiles.map(tile => {
+    const id = usedTileIds.has(tile.id) ? LessonContentService.createTileId() : tile.id;
+    usedTileIds.add(id);
+    return id === tile.id ? tile : { ...tile, id };
+  });
+
+  return {
+    ...lesson,
+    id: `content-${targetLessonId}`,
+    lesson_id: targetLessonId,
+    tiles,
+    revision: 0
+  };
+};
@@ -0,0 +1,49 @@
+import { createIndexedDbStorageAdapter } from './indexedDbAdapter';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createMemoryStorageAdapter } from './memoryAdapter';
+import { createRestStorageAdapter } from './restAdapter';
+import { LessonStorageAdapter, LessonStorageConfig, LessonStorageType } from './types';
+import { logger } from '../../utils/logger';
+
+export * from './types';
+export * from './memoryAdapter';
+export * from './localStorageAdapter';
+export * from './indexedDbAdapter';
+export * from './restAdapter';
+
+export const createLessonStorageAdapter = (config: LessonStorageConfig): LessonStorageAdapter => {
+  switch (config.type) {
+    case 'memory':
+      return createMemoryStorageAdapter();
+    case 'localStorage':
+      return createLocalStorageAdapter(config.keyPrefix);
+    case 'indexedDB':
+      return createIndexedDbStorageAdapter(config.databaseName, config.storeName);
+    case 'rest':
+      return createRestStorageAdapter(config);
+  }
+};
+
+const STORAGE_TYPES: LessonStorageType[] = ['memory', 'localStorage', 'indexedDB', 'rest'];
+
+/**
+ * Read the storage backend from `VITE_LESSON_STORAGE` (`memory`, `localStorage`, `indexedDB` or `rest`).
+ * The REST adapter additionally needs `VITE_LESSON_STORAGE_ENDPOINT`. Falls back to `localStorage`.
+ */
+export const resolveLessonStorageConfig = (
+  env: Record<string, string | undefined> = import.meta.env
+): LessonStorageConfig => {
+  const requested = env.VITE_LESSON_STORAGE as LessonStorageType | undefined;
+  const type = requested && STORAGE_TYPES.includes(requested) ? requested : 'localStorage';
+
+  if (type === 'rest') {
+    const baseUrl = env.VITE_LESSON_STORAGE_ENDPOINT;
+    if (baseUrl) {
+      return { type, baseUrl };
+    }
+    logger.warn('VITE_LESSON_STORAGE=rest requires VITE_LESSON_STORAGE_ENDPOINT, falling back to localStorage');
+    return { type: 'localStorage' };
+  }
+
+  return { type };
+};
@@ -0,0 +1,92 @@
+import { Lesson } from 'tiles-core';
+import { LessonStorageAdapter, LessonStorageError, assertExpectedRevision } from './types';
+
+export const DEFAULT_INDEXED_DB_NAME = 'course-editor';
+export const DEFAULT_INDEXED_DB_STORE = 'lessons';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbStorageAdapter = (
+  databaseName: string = DEFAULT_INDEXED_DB_NAME,
+  storeName: string = DEFAULT_INDEXED_DB_STORE
+): LessonStorageAdapter => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new LessonStorageError('indexedDB', 'IndexedDB is not available in this environment'));
+    }
+
+    if (!databasePromise) {
+      databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: 'lesson_id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          databasePromise = null;
+          reject(new LessonStorageError('indexedDB', `Failed to open database "${databaseName}"`, { cause: request.error }));
+        };
+      });
+    }
+
+    return databasePromise;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const database = await openDatabase();
+    const transaction = database.transaction(storeName, mode);
+    return promisifyRequest(operation(transaction.objectStore(storeName)));
+  };
+
+  return {
+    name: 'indexedDB',
+    get: async lessonId => (await withStore<unknown>('readonly', store => store.get(lessonId))) ?? null,
+    save: async (lesson, options) => {
+      // Stored as plain JSON so the structured clone never carries class instances or functions.
+      const document = JSON.parse(JSON.stringify(lesson)) as Lesson;
+      const database = await openDatabase();
+
+      // Revision check and write share one transaction so another tab cannot slip in between.
+      await new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        let failure: unknown = null;
+
+        const readRequest = store.get(lesson.lesson_id);
+        readRequest.onsuccess = () => {
+          try {
+            assertExpectedRevision(lesson.lesson_id, readRequest.result ?? null, options);
+            store.put(document);
+          } catch (error) {
+            failure = error;
+            transaction.abort();
+          }
+        };
+
+        transaction.oncomplete = () => resolve();
+        transaction.onabort = () => reject(failure ?? transaction.error);
+        transaction.onerror = () => reject(failure ?? transaction.error);
+      });
+    },
+    list: async () => {
+      const documents = await withStore<Array<{ lesson_id: string; updated_at?: string }>>('readonly', store =>
+        store.getAll()
+      );
+      return documents.map(document => ({ lessonId: document.lesson_id, updatedAt: document.updated_at }));
+    },
+    delete: async lessonId => {
+      await withStore('readwrite', store => store.delete(lessonId));
+    }
+  };
+};
@@ -0,0 +1,61 @@
+import { LessonStorageAdapter, LessonStorageEntry, LessonStorageError, assertExpectedRevision } from './types';
+
+export const DEFAULT_LOCAL_STORAGE_KEY_PREFIX = 'lesson-content:';
+
+const getLocalStorage = (): Storage => {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    throw new LessonStorageError('localStorage', 'localStorage is not available in this environment');
+  }
+
+  return window.localStorage;
+};
+
+export const createLocalStorageAdapter = (
+  keyPrefix: string = DEFAULT_LOCAL_STORAGE_KEY_PREFIX
+): LessonStorageAdapter => {
+  const getKey = (lessonId: string) => `${keyPrefix}${lessonId}`;
+
+  return {
+    name: 'localStorage',
+    get: async lessonId => {
+      const stored = getLocalStorage().getItem(getKey(lessonId));
+      return stored ? (JSON.parse(stored) as unknown) : null;
+    },
+    save: async (lesson, options) => {
+      const storage = getLocalStorage();
+      const stored = storage.getItem(getKey(lesson.lesson_id));
+      assertExpectedRevision(lesson.lesson_id, stored ? (JSON.parse(stored) as unknown) : null, options);
+
+      try {
+        storage.setItem(getKey(lesson.lesson_id), JSON.stringify(lesson));
+      } catch (error) {
+        throw new LessonStorageError('localStorage', `Failed to save lesson ${lesson.lesson_id}`, { cause: error });
+      }
+    },
+    list: async () => {
+      const storage = getLocalStorage();
+      const entries: LessonStorageEntry[] = [];
+
+      for (let index = 0; index < storage.length; index++) {
+        const key = storage.key(index);
+        if (!key || !key.startsWith(keyPrefix)) continue;
+
+        const lessonId = key.slice(keyPrefix.length);
+        try {
+          const parsed = JSON.parse(storage.getItem(key) ?? 'null') as { updated_at?: unknown } | null;
+          entries.push({
+            lessonId,
+            updatedAt: typeof parsed?.updated_at === 'string' ? parsed.updated_at : undefined
+          });
+        } catch {
+          entries.push({ lessonId });
+        }
+      }
+
+      return entries;
+    },
+    delete: async lessonId => {
+      getLocalStorage().removeItem(getKey(lessonId));
+    }
+  };
+};
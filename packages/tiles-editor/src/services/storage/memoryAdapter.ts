@@ -0,0 +1,25 @@
+import { Lesson } from 'tiles-core';
+import { LessonStorageAdapter, assertExpectedRevision } from './types';
+
+const cloneDocument = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+export const createMemoryStorageAdapter = (initial: Lesson[] = []): LessonStorageAdapter => {
+  const store = new Map<string, Lesson>(initial.map(lesson => [lesson.lesson_id, cloneDocument(lesson)]));
+
+  return {
+    name: 'memory',
+    get: async lessonId => {
+      const stored = store.get(lessonId);
+      return stored ? cloneDocument(stored) : null;
+    },
+    save: async (lesson, options) => {
+      assertExpectedRevision(lesson.lesson_id, store.get(lesson.lesson_id) ?? null, options);
+      store.set(lesson.lesson_id, cloneDocument(lesson));
+    },
+    list: async () =>
+      Array.from(store.values()).map(lesson => ({ lessonId: lesson.lesson_id, updatedAt: lesson.updated_at })),
+    delete: async lessonId => {
+      store.delete(lessonId);
+    }
+  };
+};
@@ -0,0 +1,84 @@
+import { LessonConflictError, LessonStorageAdapter, LessonStorageEntry, LessonStorageError } from './types';
+
+interface RestStorageOptions {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Adapter for a plain JSON REST resource:
+ * `GET /` lists lessons, `GET|PUT|DELETE /:lessonId` reads, writes and removes a single lesson.
+ * A `404` on read is treated as "not saved yet". Saves send the expected revision as `If-Match`
+ * and treat `409`/`412` responses as conflicts.
+ */
+export const createRestStorageAdapter = ({ baseUrl, headers, fetchImpl }: RestStorageOptions): LessonStorageAdapter => {
+  const collectionUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  const getLessonUrl = (lessonId: string) => `${collectionUrl}/${encodeURIComponent(lessonId)}`;
+
+  const request = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const doFetch = fetchImpl ?? fetch;
+
+    try {
+      return await doFetch(url, {
+        ...init,
+        headers: {
+          Accept: 'application/json',
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...headers,
+          ...(init.headers as Record<string, string> | undefined)
+        }
+      });
+    } catch (error) {
+      throw new LessonStorageError('rest', `Request to ${url} failed`, { cause: error });
+    }
+  };
+
+  const ensureOk = (response: Response, action: string) => {
+    if (!response.ok) {
+      throw new LessonStorageError('rest', `Failed to ${action}: ${response.status} ${response.statusText}`);
+    }
+  };
+
+  return {
+    name: 'rest',
+    get: async lessonId => {
+      const response = await request(getLessonUrl(lessonId));
+      if (response.status === 404) {
+        return null;
+      }
+      ensureOk(response, `load lesson ${lessonId}`);
+      return (await response.json()) as unknown;
+    },
+    save: async (lesson, options) => {
+      const response = await request(getLessonUrl(lesson.lesson_id), {
+        method: 'PUT',
+        body: JSON.stringify(lesson),
+        headers: options?.expectedRevision !== undefined ? { 'If-Match': `"${options.expectedRevision}"` } : undefined
+      });
+      if (options?.expectedRevision !== undefined && (response.status === 409 || response.status === 412)) {
+        throw new LessonConflictError(lesson.lesson_id, options.expectedRevision, null);
+      }
+      ensureOk(response, `save lesson ${lesson.lesson_id}`);
+    },
+    list: async () => {
+      const response = await request(collectionUrl);
+      ensureOk(response, 'list lessons');
+      const payload = (await response.json()) as Array<{ lesson_id?: string; lessonId?: string; updated_at?: string }>;
+
+      return payload.reduce<LessonStorageEntry[]>((entries, item) => {
+        const lessonId = item.lesson_id ?? item.lessonId;
+        if (lessonId) {
+          entries.push({ lessonId, updatedAt: item.updated_at });
+        }
+        return entries;
+      }, []);
+    },
+    delete: async lessonId => {
+      const response = await request(getLessonUrl(lessonId), { method: 'DELETE' });
+      if (response.status !== 404) {
+        ensureOk(response, `delete lesson ${lessonId}`);
+      }
+    }
+  };
+};
@@ -0,0 +1,99 @@
+import { Lesson } from 'tiles-core';
+
+export interface LessonStorageEntry {
+  lessonId: string;
+  updatedAt?: string;
+}
+
+export interface LessonSaveOptions {
+  /**
+   * Revision the caller based its changes on. When set, adapters reject the write with
+   * `LessonConflictError` if the stored document has a different revision.
+   */
+  expectedRevision?: number;
+}
+
+/**
+ * Persistence backend used by `LessonContentService`. Adapters store whole lesson documents
+ * keyed by `lesson_id` and return them as raw JSON, so documents written by older editors
+ * still go through the lesson migrations before being validated.
+ */
+export interface LessonStorageAdapter {
+  readonly name: string;
+  /** Resolves to the stored document or `null` when the lesson has not been saved yet. */
+  get: (lessonId: string) => Promise<unknown>;
+  save: (lesson: Lesson, options?: LessonSaveOptions) => Promise<void>;
+  list: () => Promise<LessonStorageEntry[]>;
+  delete: (lessonId: string) => Promise<void>;
+}
+
+export type LessonStorageConfig =
+  | { type: 'memory' }
+  | { type: 'localStorage'; keyPrefix?: string }
+  | { type: 'indexedDB'; databaseName?: string; storeName?: string }
+  | {
+      type: 'rest';
+      /** Collection URL, e.g. `https://api.example.com/lessons`. Lessons live under `<baseUrl>/<lessonId>`. */
+      baseUrl: string;
+      headers?: Record<string, string>;
+      fetchImpl?: typeof fetch;
+    };
+
+export type LessonStorageType = LessonStorageConfig['type'];
+
+export class LessonStorageError extends Error {
+  readonly adapter: string;
+
+  constructor(adapter: string, message: string, options?: { cause?: unknown }) {
+    super(`[${adapter}] ${message}`);
+    this.name = 'LessonStorageError';
+    this.adapter = adapter;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export class LessonConflictError extends Error {
+  readonly lessonId: string;
+  readonly expectedRevision: number;
+  readonly actualRevision: number | null;
+  /** Current stored version of the lesson, when the caller fetched it. */
+  readonly remote: Lesson | null;
+
+  constructor(
+    lessonId: string,
+    expectedRevision: number,
+    actualRevision: number | null,
+    remote: Lesson | null = null
+  ) {
+    super(
+      `Lesson ${lessonId} was modified elsewhere (expected revision ${expectedRevision}, found ${actualRevision ?? 'unknown'})`
+    );
+    this.name = 'LessonConflictError';
+    this.lessonId = lessonId;
+    this.expectedRevision = expectedRevision;
+    this.actualRevision = actualRevision;
+    this.remote = remote;
+  }
+}
+
+export const getDocumentRevision = (document: unknown): number => {
+  const revision = (document as { revision?: unknown } | null)?.revision;
+  return typeof revision === 'number' ? revision : 0;
+};
+
+/**
+ * Shared check for adapters that can read the stored document before writing it.
+ * Lessons that were never saved accept any expected revision.
+ */
+export const assertExpectedRevision = (lessonId: string, stored: unknown, options?: LessonSaveOptions): void => {
+  if (options?.expectedRevision === undefined || stored === null || stored === undefined) {
+    return;
+  }
+
+  const actualRevision = getDocumentRevision(stored);
+  if (actualRevision !== options.expectedRevision) {
+    throw new LessonConflictError(lessonId, options.expectedRevision, actualRevision);
+  }
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { BankSlotTile, LessonTile, QuestionBank, getQuestionBank } from 'tiles-core';
+
+interface BankSlotEditorProps {
+  tile: BankSlotTile;
+  questionBanks: QuestionBank[];
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+export const BankSlotEditor: React.FC<BankSlotEditorProps> = ({ tile, questionBanks, onUpdateTile }) => {
+  const selectedBank = getQuestionBank(questionBanks, tile.content.bankId);
+
+  const updateContent = (updates: Partial<BankSlotTile['content']>) => {
+    onUpdateTile(tile.id, {
+      content: {
+        ...tile.content,
+        ...updates
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">Bank pytań</label>
+        {questionBanks.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Lekcja nie ma jeszcze banków pytań. Utwórz bank przyciskiem „Banki pytań” w nagłówku edytora.
+          </p>
+        ) : (
+          <select
+            value={selectedBank ? selectedBank.id : ''}
+            onChange={(e) => updateContent({ bankId: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="" disabled>
+              Wybierz bank
+            </option>
+            {questionBanks.map(bank => (
+              <option key={bank.id} value={bank.id}>
+                {bank.name || 'Bank bez nazwy'} ({bank.items.length})
+              </option>
+            ))}
+          </select>
+        )}
+        {selectedBank && (
+          <p className="text-xs text-gray-600 mt-2">
+            Każdy uczeń zobaczy jedno losowe pytanie z tego banku. Kafelki korzystające z tego samego banku
+            nie powtarzają pytań.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">Kolor tła w edytorze</label>
+        <input
+          type="color"
+          value={tile.content.backgroundColor}
+          onChange={(e) => updateContent({ backgroundColor: e.target.value })}
+          className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
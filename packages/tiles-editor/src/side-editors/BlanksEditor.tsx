@@ -0,0 +1,186 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BlanksTile, LessonTile } from 'tiles-core';
+import { extractPlaceholdersFromTemplate } from 'tiles-core/utils';
+import { MathTextToggle } from './MathTextToggle';
+
+interface BlanksEditorProps {
+  /** Only the content is edited, so question bank items can reuse this editor. */
+  tile: Pick<BlanksTile, 'id' | 'content'>;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+export const BlanksEditor: React.FC<BlanksEditorProps> = ({ tile: blanksTile, onUpdateTile }) => {
+  const updateContent = (updates: Partial<BlanksTile['content']>) => {
+    onUpdateTile(blanksTile.id, {
+      content: {
+        ...blanksTile.content,
+        ...updates
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const handleTemplateChange = (value: string) => {
+    const placeholders = extractPlaceholdersFromTemplate(value);
+    const autoOptions = placeholders.map(({ optionId, answerText }) => ({
+      id: optionId,
+      text: answerText,
+      isAuto: true as const
+    }));
+
+    const blanks = placeholders.map(({ blankId, optionId }) => ({
+      id: blankId,
+      correctOptionId: optionId
+    }));
+
+    const distractors = blanksTile.content.options.filter(option => option.isAuto !== true);
+
+    updateContent({
+      textTemplate: value,
+      blanks,
+      options: [...autoOptions, ...distractors]
+    });
+  };
+
+  const handleDistractorTextChange = (optionId: string, value: string) => {
+    const options = blanksTile.content.options.map(option => {
+      if (option.id !== optionId) {
+        return option;
+      }
+
+      if (option.isAuto === true) {
+        return option;
+      }
+
+      return { ...option, text: value };
+    });
+
+    updateContent({ options });
+  };
+
+  const handleAddDistractor = () => {
+    const autoOptions = blanksTile.content.options.filter(option => option.isAuto === true);
+    const distractors = blanksTile.content.options.filter(option => option.isAuto !== true);
+    const newOptionId = `distractor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    const options = [
+      ...autoOptions,
+      ...distractors,
+      {
+        id: newOptionId,
+        text: `Nowe wyrażenie ${distractors.length + 1}`,
+        isAuto: false as const
+      }
+    ];
+    updateContent({ options });
+  };
+
+  const handleRemoveDistractor = (optionId: string) => {
+    const options = blanksTile.content.options.filter(option => option.id !== optionId || option.isAuto === true);
+    updateContent({ options });
+  };
+
+  const distractorOptions = blanksTile.content.options.filter(option => option.isAuto !== true);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-3">Kolor akcentu</label>
+          <input
+            type="color"
+            value={blanksTile.content.backgroundColor}
+            onChange={(e) => updateContent({ backgroundColor: e.target.value })}
+            className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Tekst z lukami</label>
+        <p className="text-xs text-gray-600 mb-2">
+          Wstaw poprawne odpowiedzi w podw&oacute;jnych nawiasach klamrowych, np. <code className="bg-gray-100 px-1 py-0.5 rounded">{'{{Warszawa}}'}</code>.
+        </p>
+        <textarea
+          value={blanksTile.content.textTemplate}
+          onChange={(e) => handleTemplateChange(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          placeholder="Tekst zadania z lukami"
+        />
+      </div>
+
+      <MathTextToggle
+        checked={blanksTile.content.renderMath ?? false}
+        onChange={(renderMath) => updateContent({ renderMath })}
+        target="tekście i słowach"
+      />
+
+      <label className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+        <input
+          type="checkbox"
+          checked={blanksTile.content.shuffleOptions ?? false}
+          onChange={(e) => updateContent({ shuffleOptions: e.target.checked })}
+          className="w-5 h-5 text-blue-600"
+        />
+        <div>
+          <span className="text-sm font-medium text-gray-900">Losowa kolejność słów</span>
+          <p className="text-xs text-gray-600 mt-1">
+            Każdy uczeń zobaczy słowa do wstawienia w innej kolejności
+          </p>
+        </div>
+      </label>
+
+      <div className="space-y-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-900">Słowa Zapychacze</h4>
+            <button
+              type="button"
+              onClick={handleAddDistractor}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+            >
+              <Plus className="w-4 h-4" />
+              Dodaj
+            </button>
+          </div>
+
+          {distractorOptions.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Dodaj dodatkowe słowa lub wyrażenia, które utrudnią zadanie uczniowi.
+            </p>
+          ) : (
+              <div className="space-y-3">
+                {distractorOptions.map(option => (
+                    <div
+                        key={option.id}
+                        className="border border-gray-200 rounded-xl p-4 bg-gray-50 space-y-3"
+                    >
+                      <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={option.text}
+                            onChange={(e) =>
+                                handleDistractorTextChange(option.id, e.target.value)
+                            }
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                            placeholder="Treść zapychacza"
+                        />
+                        <button
+                            type="button"
+                            onClick={() => handleRemoveDistractor(option.id)}
+                            className="inline-flex items-center justify-center text-rose-600 hover:bg-rose-50 p-2 rounded-lg"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                ))}
+              </div>
+
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CompletionRequirement, LessonTile } from 'tiles-core';
+
+interface CompletionRequirementEditorProps {
+  tile: LessonTile;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+const PAGE_DEFAULT = 'page';
+
+export const CompletionRequirementEditor: React.FC<CompletionRequirementEditorProps> = ({ tile, onUpdateTile }) => {
+  const handleChange = (value: string) => {
+    onUpdateTile(tile.id, {
+      completionRequirement: value === PAGE_DEFAULT ? undefined : (value as CompletionRequirement),
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-6">
+      <h4 className="text-sm font-semibold text-gray-900">Przejście dalej</h4>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Warunek dla tego zadania</label>
+        <select
+          value={tile.completionRequirement ?? PAGE_DEFAULT}
+          onChange={(e) => handleChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        >
+          <option value={PAGE_DEFAULT}>Jak dla strony</option>
+          <option value="none">Bez warunku</option>
+          <option value="attempted">Wymagana próba</option>
+          <option value="correct">Wymagana poprawna odpowiedź</option>
+        </select>
+        <p className="text-xs text-gray-600 mt-1">
+          Uczeń nie przejdzie na następną stronę, dopóki warunek nie zostanie spełniony.
+        </p>
+      </div>
+    </div>
+  );
+};
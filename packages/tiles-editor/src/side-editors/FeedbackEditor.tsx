@@ -0,0 +1,194 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  AnswerableTileType,
+  LessonTile,
+  OpenTile,
+  QuizTile,
+  TileFeedback,
+  TileHint,
+  applyTileFeedback,
+  getTileFeedback
+} from 'tiles-core';
+import { RichTextField } from './RichTextField';
+
+interface FeedbackEditorProps {
+  tile: LessonTile<AnswerableTileType>;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+export const FeedbackEditor: React.FC<FeedbackEditorProps> = ({ tile, onUpdateTile }) => {
+  const feedback = getTileFeedback(tile);
+  const hints = feedback.hints ?? [];
+  const quizTile = tile.type === 'quiz' ? (tile as QuizTile) : null;
+  const openTile = tile.type === 'open' ? (tile as OpenTile) : null;
+
+  const updateFeedback = (updates: Partial<TileFeedback>) => {
+    const next = { ...feedback, ...updates };
+    if (!next.hints?.length) delete next.hints;
+
+    // `tile` is a union of task tiles, so its content cannot be narrowed to a single variant here.
+    onUpdateTile(tile.id, {
+      content: applyTileFeedback(tile, next),
+      updated_at: new Date().toISOString()
+    } as Partial<LessonTile>);
+  };
+
+  const updateHint = (hintId: string, updates: Partial<TileHint>) => {
+    updateFeedback({ hints: hints.map(hint => (hint.id === hintId ? { ...hint, ...updates } : hint)) });
+  };
+
+  const handleAddHint = () => {
+    const lastThreshold = hints.reduce((max, hint) => Math.max(max, hint.afterAttempts), 0);
+    updateFeedback({
+      hints: [
+        ...hints,
+        {
+          id: `hint-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+          text: '',
+          afterAttempts: lastThreshold + 1
+        }
+      ]
+    });
+  };
+
+  const handleAnswerFeedbackChange = (answerIndex: number, value: string | undefined) => {
+    if (!quizTile) return;
+
+    onUpdateTile(tile.id, {
+      content: {
+        ...quizTile.content,
+        answers: quizTile.content.answers.map((answer, index) =>
+          index === answerIndex ? { ...answer, feedback: value } : answer
+        )
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const handleAcceptedAnswerFeedbackChange = (answerId: string, value: string | undefined) => {
+    if (!openTile) return;
+
+    onUpdateTile(tile.id, {
+      content: {
+        ...openTile.content,
+        acceptedAnswers: openTile.content.acceptedAnswers.map(answer =>
+          answer.id === answerId ? { ...answer, feedback: value } : answer
+        )
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-6">
+      <h4 className="text-sm font-semibold text-gray-900">Informacja zwrotna</h4>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Po poprawnej odpowiedzi</label>
+        <RichTextField
+          value={feedback.correct}
+          onChange={value => updateFeedback({ correct: value })}
+          placeholder="Świetnie! To poprawna odpowiedź."
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Po błędnej odpowiedzi</label>
+        <RichTextField
+          value={feedback.incorrect}
+          onChange={value => updateFeedback({ incorrect: value })}
+          placeholder="Spróbuj ponownie."
+        />
+      </div>
+
+      {quizTile && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700">Komentarze do odpowiedzi</p>
+          {quizTile.content.answers.map((answer, index) => (
+            <div key={index}>
+              <label className="block text-xs text-gray-600 mb-1">
+                {answer.text || `Odpowiedź ${index + 1}`}
+              </label>
+              <RichTextField
+                value={answer.feedback}
+                onChange={value => handleAnswerFeedbackChange(index, value)}
+                placeholder="Widoczny po sprawdzeniu, jeśli uczeń wybrał tę odpowiedź"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {openTile && openTile.content.acceptedAnswers.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-gray-700">Komentarze do odpowiedzi</p>
+          {openTile.content.acceptedAnswers.map((answer, index) => (
+            <div key={answer.id}>
+              <label className="block text-xs text-gray-600 mb-1 font-mono truncate">
+                {answer.value || `Odpowiedź ${index + 1}`}
+              </label>
+              <RichTextField
+                value={answer.feedback}
+                onChange={value => handleAcceptedAnswerFeedbackChange(answer.id, value)}
+                placeholder="Widoczny zamiast komunikatu o poprawnej odpowiedzi, jeśli uczeń podał tę odpowiedź"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-gray-700">Wskazówki</p>
+          <button
+            type="button"
+            onClick={handleAddHint}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+          >
+            <Plus className="w-4 h-4" />
+            Dodaj
+          </button>
+        </div>
+
+        {hints.length === 0 ? (
+          <p className="text-xs text-gray-600">
+            Wskazówki pojawiają się uczniowi po określonej liczbie błędnych prób.
+          </p>
+        ) : (
+          hints.map(hint => (
+            <div key={hint.id} className="border border-gray-200 rounded-xl p-4 bg-gray-50 space-y-3">
+              <div className="flex items-center gap-3">
+                <label className="text-xs text-gray-600 flex-1">Po liczbie błędnych prób</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={hint.afterAttempts}
+                  onChange={e => {
+                    const value = Number(e.target.value);
+                    if (Number.isInteger(value) && value > 0) updateHint(hint.id, { afterAttempts: value });
+                  }}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateFeedback({ hints: hints.filter(item => item.id !== hint.id) })}
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-lg text-rose-600 transition hover:bg-rose-50"
+                  aria-label="Usuń wskazówkę"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <RichTextField
+                value={hint.text}
+                onChange={value => updateHint(hint.id, { text: value ?? '' })}
+                placeholder="Treść wskazówki"
+              />
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
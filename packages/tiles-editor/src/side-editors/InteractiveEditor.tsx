@@ -0,0 +1,502 @@
+import React from 'react';
+import { Hash, ListChecks, MousePointerClick, Move, Plus, Trash2 } from 'lucide-react';
+import {
+  InteractionType,
+  InteractiveClickData,
+  InteractiveDragDropData,
+  InteractiveHotspot,
+  InteractiveInputData,
+  InteractiveQuizData,
+  InteractiveTile
+} from 'tiles-core';
+import { createInteractiveData, parseNumericAnswer } from 'tiles-core/utils';
+import { HotspotImage } from 'tiles-runtime/interactive';
+import { ImageUploadComponent } from './ImageUploadComponent';
+
+interface InteractiveEditorProps {
+  tile: InteractiveTile;
+  onUpdateTile: (tileId: string, updates: Partial<InteractiveTile>) => void;
+}
+
+interface DataEditorProps<TData> {
+  data: TData;
+  onChange: (data: TData) => void;
+}
+
+const INTERACTION_TYPES: Array<{ value: InteractionType; label: string; icon: React.ReactNode }> = [
+  { value: 'click', label: 'Wskaż na obrazie', icon: <MousePointerClick className="w-4 h-4" /> },
+  { value: 'input', label: 'Odpowiedź liczbowa', icon: <Hash className="w-4 h-4" /> },
+  { value: 'drag-drop', label: 'Przeciągnij i upuść', icon: <Move className="w-4 h-4" /> },
+  { value: 'quiz', label: 'Wybór odpowiedzi', icon: <ListChecks className="w-4 h-4" /> }
+];
+
+/** Size, in percent of the image, of a hotspot added by clicking the preview. */
+const NEW_HOTSPOT_SIZE = 20;
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+const addButtonClassName =
+  'inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition';
+
+const removeButtonClassName =
+  'inline-flex items-center justify-center text-rose-600 hover:bg-rose-50 p-2 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent';
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+const SectionHeader: React.FC<{ title: string; actionLabel: string; onAction: () => void }> = ({
+  title,
+  actionLabel,
+  onAction
+}) => (
+  <div className="flex items-center justify-between">
+    <h4 className="text-sm font-semibold text-gray-900">{title}</h4>
+    <button type="button" onClick={onAction} className={addButtonClassName}>
+      <Plus className="w-4 h-4" />
+      {actionLabel}
+    </button>
+  </div>
+);
+
+const QuizDataEditor: React.FC<DataEditorProps<InteractiveQuizData>> = ({ data, onChange }) => {
+  const updateOption = (optionId: string, updates: Partial<InteractiveQuizData['options'][number]>) => {
+    onChange({
+      ...data,
+      options: data.options.map(option => {
+        if (option.id === optionId) return { ...option, ...updates };
+        // A single-answer question keeps exactly one correct option.
+        if (updates.isCorrect && !data.multipleCorrect) return { ...option, isCorrect: false };
+        return option;
+      })
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+        <input
+          type="checkbox"
+          checked={data.multipleCorrect}
+          onChange={(e) => onChange({ ...data, multipleCorrect: e.target.checked })}
+          className="w-5 h-5 text-blue-600"
+        />
+        <span className="text-sm font-medium text-gray-900">Wiele poprawnych odpowiedzi</span>
+      </label>
+
+      <div className="space-y-3">
+        <SectionHeader
+          title="Odpowiedzi"
+          actionLabel="Dodaj odpowiedź"
+          onAction={() =>
+            onChange({
+              ...data,
+              options: [
+                ...data.options,
+                { id: createId('option'), text: `Odpowiedź ${data.options.length + 1}`, isCorrect: false }
+              ]
+            })
+          }
+        />
+        {data.options.map((option, index) => (
+          <div key={option.id} className="flex items-center gap-2">
+            <input
+              type={data.multipleCorrect ? 'checkbox' : 'radio'}
+              checked={option.isCorrect}
+              onChange={(e) => updateOption(option.id, { isCorrect: e.target.checked })}
+              className="w-5 h-5 text-blue-600 flex-shrink-0"
+              aria-label={`Odpowiedź ${index + 1} jest poprawna`}
+            />
+            <input
+              type="text"
+              value={option.text}
+              onChange={(e) => updateOption(option.id, { text: e.target.value })}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...data, options: data.options.filter(item => item.id !== option.id) })}
+              disabled={data.options.length <= 1}
+              className={removeButtonClassName}
+              aria-label={`Usuń odpowiedź ${index + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const DragDropDataEditor: React.FC<DataEditorProps<InteractiveDragDropData>> = ({ data, onChange }) => {
+  const handleRemoveTarget = (targetId: string) => {
+    const targets = data.targets.filter(target => target.id !== targetId);
+    const fallbackId = targets[0]?.id;
+    if (!fallbackId) return;
+
+    onChange({
+      targets,
+      items: data.items.map(item => (item.targetId === targetId ? { ...item, targetId: fallbackId } : item))
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <SectionHeader
+          title="Miejsca docelowe"
+          actionLabel="Dodaj miejsce"
+          onAction={() =>
+            onChange({
+              ...data,
+              targets: [...data.targets, { id: createId('target'), label: `Grupa ${data.targets.length + 1}` }]
+            })
+          }
+        />
+        {data.targets.map((target, index) => (
+          <div key={target.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={target.label}
+              onChange={(e) =>
+                onChange({
+                  ...data,
+                  targets: data.targets.map(item => (item.id === target.id ? { ...item, label: e.target.value } : item))
+                })
+              }
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => handleRemoveTarget(target.id)}
+              disabled={data.targets.length <= 1}
+              className={removeButtonClassName}
+              aria-label={`Usuń miejsce ${index + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <SectionHeader
+          title="Elementy"
+          actionLabel="Dodaj element"
+          onAction={() =>
+            onChange({
+              ...data,
+              items: [
+                ...data.items,
+                {
+                  id: createId('item'),
+                  text: `Element ${data.items.length + 1}`,
+                  targetId: data.targets[0]?.id ?? ''
+                }
+              ]
+            })
+          }
+        />
+        {data.items.map((item, index) => (
+          <div key={item.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item.text}
+              onChange={(e) =>
+                onChange({
+                  ...data,
+                  items: data.items.map(entry => (entry.id === item.id ? { ...entry, text: e.target.value } : entry))
+                })
+              }
+              className={inputClassName}
+            />
+            <select
+              value={item.targetId}
+              onChange={(e) =>
+                onChange({
+                  ...data,
+                  items: data.items.map(entry => (entry.id === item.id ? { ...entry, targetId: e.target.value } : entry))
+                })
+              }
+              className={`${inputClassName} max-w-[9rem]`}
+              aria-label={`Miejsce docelowe elementu ${index + 1}`}
+            >
+              {data.targets.map(target => (
+                <option key={target.id} value={target.id}>
+                  {target.label || 'Bez nazwy'}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange({ ...data, items: data.items.filter(entry => entry.id !== item.id) })}
+              className={removeButtonClassName}
+              aria-label={`Usuń element ${index + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const HOTSPOT_FIELDS: Array<{ key: 'x' | 'y' | 'width' | 'height'; label: string }> = [
+  { key: 'x', label: 'X %' },
+  { key: 'y', label: 'Y %' },
+  { key: 'width', label: 'Szer. %' },
+  { key: 'height', label: 'Wys. %' }
+];
+
+const ClickDataEditor: React.FC<DataEditorProps<InteractiveClickData>> = ({ data, onChange }) => {
+  const updateHotspot = (hotspotId: string, updates: Partial<InteractiveHotspot>) => {
+    onChange({
+      ...data,
+      hotspots: data.hotspots.map(hotspot => (hotspot.id === hotspotId ? { ...hotspot, ...updates } : hotspot))
+    });
+  };
+
+  const handleAddHotspot = (point: { x: number; y: number }) => {
+    const half = NEW_HOTSPOT_SIZE / 2;
+    onChange({
+      ...data,
+      hotspots: [
+        ...data.hotspots,
+        {
+          id: createId('hotspot'),
+          label: `Obszar ${data.hotspots.length + 1}`,
+          x: clampPercent(Math.min(point.x - half, 100 - NEW_HOTSPOT_SIZE)),
+          y: clampPercent(Math.min(point.y - half, 100 - NEW_HOTSPOT_SIZE)),
+          width: NEW_HOTSPOT_SIZE,
+          height: NEW_HOTSPOT_SIZE,
+          isCorrect: data.hotspots.length === 0
+        }
+      ]
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <ImageUploadComponent currentUrl={data.imageUrl} onImageSelect={(url) => onChange({ ...data, imageUrl: url })} />
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Tekst alternatywny</label>
+        <input
+          type="text"
+          value={data.imageAlt ?? ''}
+          onChange={(e) => onChange({ ...data, imageAlt: e.target.value })}
+          className={inputClassName}
+          placeholder="Opis obrazu dla czytników ekranu"
+        />
+      </div>
+
+      {data.imageUrl.trim() && (
+        <div className="space-y-2">
+          <div className="h-48 rounded-lg bg-gray-50 p-2">
+            <HotspotImage
+              imageUrl={data.imageUrl}
+              imageAlt={data.imageAlt}
+              hotspots={data.hotspots}
+              getHotspotStyle={hotspot => ({
+                border: `2px dashed ${hotspot.isCorrect ? '#16a34a' : '#2563eb'}`,
+                backgroundColor: hotspot.isCorrect ? 'rgba(34, 197, 94, 0.2)' : 'rgba(59, 130, 246, 0.12)'
+              })}
+              onImageClick={handleAddHotspot}
+            />
+          </div>
+          <p className="text-xs text-gray-600">
+            Kliknij obraz, aby dodać obszar. Zielone obszary to poprawne odpowiedzi.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-900">Obszary</h4>
+        {data.hotspots.length === 0 && <p className="text-sm text-gray-600">Brak obszarów do kliknięcia.</p>}
+        {data.hotspots.map((hotspot, index) => (
+          <div key={hotspot.id} className="space-y-2 rounded-lg border border-gray-200 p-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={hotspot.label}
+                onChange={(e) => updateHotspot(hotspot.id, { label: e.target.value })}
+                className={inputClassName}
+                placeholder="Nazwa obszaru"
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...data, hotspots: data.hotspots.filter(item => item.id !== hotspot.id) })}
+                className={removeButtonClassName}
+                aria-label={`Usuń obszar ${index + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {HOTSPOT_FIELDS.map(field => (
+                <label key={field.key} className="text-xs text-gray-600">
+                  {field.label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(hotspot[field.key] * 10) / 10}
+                    onChange={(e) => {
+                      const value = parseNumericAnswer(e.target.value);
+                      if (value !== null) updateHotspot(hotspot.id, { [field.key]: clampPercent(value) });
+                    }}
+                    className={`${inputClassName} mt-1 px-2`}
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={hotspot.isCorrect}
+                onChange={(e) => updateHotspot(hotspot.id, { isCorrect: e.target.checked })}
+                className="w-4 h-4 text-blue-600"
+              />
+              Poprawna odpowiedź
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const InputDataEditor: React.FC<DataEditorProps<InteractiveInputData>> = ({ data, onChange }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Poprawna wartość</label>
+        <input
+          type="number"
+          step="any"
+          value={data.correctValue}
+          onChange={(e) => {
+            const value = parseNumericAnswer(e.target.value);
+            if (value !== null) onChange({ ...data, correctValue: value });
+          }}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Tolerancja (±)</label>
+        <input
+          type="number"
+          step="any"
+          min={0}
+          value={data.tolerance}
+          onChange={(e) => {
+            const value = parseNumericAnswer(e.target.value);
+            if (value !== null) onChange({ ...data, tolerance: Math.abs(value) });
+          }}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Jednostka</label>
+      <input
+        type="text"
+        value={data.unit ?? ''}
+        onChange={(e) => onChange({ ...data, unit: e.target.value })}
+        className={inputClassName}
+        placeholder="np. cm, kg, %"
+      />
+    </div>
+    <p className="text-xs text-gray-600">
+      Akceptowane są odpowiedzi z przedziału {data.correctValue - data.tolerance} – {data.correctValue + data.tolerance}.
+      Uczeń może użyć przecinka lub kropki.
+    </p>
+  </div>
+);
+
+export const InteractiveEditor: React.FC<InteractiveEditorProps> = ({ tile, onUpdateTile }) => {
+  const { content } = tile;
+
+  const setContent = (next: InteractiveTile['content']) => {
+    onUpdateTile(tile.id, {
+      content: next,
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const handleTypeChange = (interactionType: InteractionType) => {
+    if (interactionType === content.interactionType) return;
+    setContent({
+      title: content.title,
+      description: content.description,
+      interactionType,
+      data: createInteractiveData(interactionType)
+    } as InteractiveTile['content']);
+  };
+
+  const renderDataEditor = () => {
+    switch (content.interactionType) {
+      case 'quiz':
+        return <QuizDataEditor data={content.data} onChange={data => setContent({ ...content, data })} />;
+      case 'drag-drop':
+        return <DragDropDataEditor data={content.data} onChange={data => setContent({ ...content, data })} />;
+      case 'click':
+        return <ClickDataEditor data={content.data} onChange={data => setContent({ ...content, data })} />;
+      case 'input':
+        return <InputDataEditor data={content.data} onChange={data => setContent({ ...content, data })} />;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Tytuł</label>
+        <input
+          type="text"
+          value={content.title}
+          onChange={(e) => setContent({ ...content, title: e.target.value })}
+          className={inputClassName}
+          placeholder="Tytuł zadania"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Polecenie</label>
+        <textarea
+          value={content.description}
+          onChange={(e) => setContent({ ...content, description: e.target.value })}
+          className={`${inputClassName} min-h-[5rem] resize-y`}
+          placeholder="Opisz, co uczeń ma zrobić"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Rodzaj interakcji</label>
+        <div className="grid grid-cols-2 gap-2">
+          {INTERACTION_TYPES.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleTypeChange(option.value)}
+              className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition ${
+                content.interactionType === option.value
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.icon}
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-600 mt-1">Zmiana rodzaju zastępuje dotychczasowe ustawienia zadania.</p>
+      </div>
+
+      {renderDataEditor()}
+    </div>
+  );
+};
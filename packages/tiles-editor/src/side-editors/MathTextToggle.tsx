@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface MathTextToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  /** What the formulas can be typed in, e.g. "odpowiedziach". */
+  target: string;
+}
+
+/** Opt-in for `$...$` formulas in the plain-text fields of quiz, blanks and pairing tiles. */
+export const MathTextToggle: React.FC<MathTextToggleProps> = ({ checked, onChange, target }) => (
+  <label className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-5 h-5 text-blue-600"
+    />
+    <div>
+      <span className="text-sm font-medium text-gray-900">Wzory matematyczne</span>
+      <p className="text-xs text-gray-600 mt-1">
+        Tekst między znakami dolara w {target} jest wzorem LaTeX, np.{' '}
+        <code className="bg-gray-100 px-1 py-0.5 rounded">{'$x^2$'}</code>. Zwykły znak dolara wpisz jako{' '}
+        <code className="bg-gray-100 px-1 py-0.5 rounded">{'\\$'}</code>, np.{' '}
+        <code className="bg-gray-100 px-1 py-0.5 rounded">{'\\$5'}</code>.
+      </p>
+    </div>
+  </label>
+);
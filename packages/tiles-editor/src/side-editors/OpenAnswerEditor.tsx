@@ -0,0 +1,276 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { LessonTile, OpenAcceptedAnswer, OpenAnswerMode, OpenTile } from 'tiles-core';
+import {
+  AnswerPatternProblem,
+  getAnswerPatternProblem,
+  MAX_ANSWER_PATTERN_LENGTH,
+  parseExpression,
+  parseListAnswer,
+  parseNumericAnswer
+} from 'tiles-core/utils';
+
+interface OpenAnswerEditorProps {
+  tile: Pick<OpenTile, 'id' | 'content'>;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+const ANSWER_MODES: Array<{ value: OpenAnswerMode; label: string; description: string }> = [
+  {
+    value: 'text',
+    label: 'Tekst',
+    description: 'Odpowiedź musi być taka sama jak poprawna (z wybranymi wyjątkami).'
+  },
+  {
+    value: 'numeric',
+    label: 'Liczba',
+    description: 'Akceptowana jest liczba mieszcząca się w tolerancji. Uczeń może użyć przecinka lub kropki.'
+  },
+  {
+    value: 'expression',
+    label: 'Wyrażenie',
+    description:
+      'Akceptowane jest każde równoważne wyrażenie, np. dla x^2 - 4 także (x-2)(x+2). Wyrażenia są porównywane w losowych punktach. ' +
+      'Małe litery e i pi oznaczają stałe (e = 2,718…, pi = π), więc nie mogą być zmiennymi; E i pozostałe litery są zmiennymi. ' +
+      'Zarezerwowane są też nazwy funkcji: sqrt, abs, exp, ln, log, sin, cos, tan, tg, cot, ctg.'
+  },
+  {
+    value: 'list',
+    label: 'Lista',
+    description:
+      "Odpowiedź to lista elementów, np. ['napis1', 'napis2']. Nawiasy i cudzysłowy są opcjonalne, elementy oddziela przecinek lub średnik."
+  }
+];
+
+const VALUE_PLACEHOLDERS: Record<OpenAnswerMode, string> = {
+  text: 'np. Warszawa',
+  numeric: 'np. 3,14',
+  expression: 'np. x^2 - 4',
+  list: "np. ['napis1', 'napis2', 'napis3']"
+};
+
+const PATTERN_PROBLEMS: Record<AnswerPatternProblem, string> = {
+  'too-long': `Wyrażenie regularne może mieć najwyżej ${MAX_ANSWER_PATTERN_LENGTH} znaków.`,
+  'nested-quantifier':
+    'Powtarzana grupa nie może zawierać powtórzeń, np. (a+)+. Takie wyrażenie mogłoby zawiesić przeglądarkę ucznia.',
+  invalid: 'Niepoprawne wyrażenie regularne.'
+};
+
+const createAnswerId = () => `answer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/** Explains why an accepted answer can never match, or returns `null` when it is fine. */
+const getAnswerProblem = (answer: OpenAcceptedAnswer, answerMode: OpenAnswerMode): string | null => {
+  if (answer.value.trim().length === 0) return null;
+
+  if (answer.isPattern) {
+    const patternProblem = getAnswerPatternProblem(answer.value);
+    return patternProblem && PATTERN_PROBLEMS[patternProblem];
+  }
+
+  switch (answerMode) {
+    case 'numeric':
+      return parseNumericAnswer(answer.value) === null ? 'To nie jest liczba.' : null;
+    case 'expression':
+      return parseExpression(answer.value) === null
+        ? 'Nie udało się odczytać wyrażenia. Użyj np. 2x^2 - 3x + 1, sqrt(x), (x+1)/(x-1).'
+        : null;
+    case 'list':
+      return parseListAnswer(answer.value) === null ? 'Brakuje zamykającego cudzysłowu.' : null;
+    case 'text':
+      return null;
+  }
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+const getToggleClassName = (isActive: boolean) =>
+  `inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition ${
+    isActive
+      ? 'border-blue-500 bg-blue-50 text-blue-600 shadow-sm'
+      : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
+  }`;
+
+/** Clearing a tolerance field removes the tolerance instead of keeping the last value. */
+const parseTolerance = (raw: string): number | undefined => {
+  const value = parseNumericAnswer(raw);
+  return value === null ? undefined : Math.abs(value);
+};
+
+export const OpenAnswerEditor: React.FC<OpenAnswerEditorProps> = ({ tile, onUpdateTile }) => {
+  const { content } = tile;
+  const answerMode = content.answerMode ?? 'text';
+  const activeMode = ANSWER_MODES.find(mode => mode.value === answerMode) ?? ANSWER_MODES[0];
+
+  const updateContent = (updates: Partial<OpenTile['content']>) => {
+    onUpdateTile(tile.id, {
+      content: {
+        ...content,
+        ...updates
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const acceptedAnswers = content.acceptedAnswers;
+  const usesTextOptions = answerMode === 'text' || answerMode === 'list';
+
+  const updateAnswer = (answerId: string, updates: Partial<OpenAcceptedAnswer>) => {
+    updateContent({
+      acceptedAnswers: acceptedAnswers.map(answer => (answer.id === answerId ? { ...answer, ...updates } : answer))
+    });
+  };
+
+  const handleAddAnswer = () => {
+    updateContent({ acceptedAnswers: [...acceptedAnswers, { id: createAnswerId(), value: '' }] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700">Sposób sprawdzania</label>
+      <div className="grid grid-cols-2 gap-2">
+        {ANSWER_MODES.map(mode => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => updateContent({ answerMode: mode.value })}
+            className={`${getToggleClassName(answerMode === mode.value)} justify-center`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-600">{activeMode.description}</p>
+
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Poprawne odpowiedzi</label>
+        <button
+          type="button"
+          onClick={handleAddAnswer}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Dodaj
+        </button>
+      </div>
+      <p className="text-xs text-gray-600">
+        Odpowiedź ucznia jest poprawna, jeśli pasuje do którejkolwiek z nich. Wyrażenie regularne musi pasować do całej
+        odpowiedzi.
+      </p>
+
+      {acceptedAnswers.length === 0 ? (
+        <p className="text-xs text-rose-600">Dodaj co najmniej jedną poprawną odpowiedź.</p>
+      ) : (
+        acceptedAnswers.map((answer, index) => {
+          const problem = getAnswerProblem(answer, answerMode);
+          return (
+            <div key={answer.id} className="border border-gray-200 rounded-xl p-3 bg-gray-50 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={answer.value}
+                  onChange={(e) => updateAnswer(answer.id, { value: e.target.value })}
+                  className={`${inputClassName} ${answerMode === 'text' && !answer.isPattern ? '' : 'font-mono'}`}
+                  placeholder={answer.isPattern ? 'np. (m\\. st\\. )?Warszawa' : VALUE_PLACEHOLDERS[answerMode]}
+                  maxLength={answer.isPattern ? MAX_ANSWER_PATTERN_LENGTH : undefined}
+                  aria-label={`Poprawna odpowiedź ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateContent({ acceptedAnswers: acceptedAnswers.filter(entry => entry.id !== answer.id) })
+                  }
+                  className="inline-flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg text-rose-600 transition hover:bg-rose-50"
+                  aria-label="Usuń odpowiedź"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={answer.isPattern ?? false}
+                  onChange={(e) => updateAnswer(answer.id, { isPattern: e.target.checked || undefined })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Wyrażenie regularne
+              </label>
+              {problem && <p className="text-xs text-rose-600">{problem}</p>}
+            </div>
+          );
+        })
+      )}
+
+      {usesTextOptions && (
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => updateContent({ ignoreCase: !content.ignoreCase })}
+            className={getToggleClassName(content.ignoreCase)}
+          >
+            {(content.ignoreCase ?? false)
+              ? 'Ignoruj wielkość liter'
+              : 'Rozróżniaj wielkość liter'}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => updateContent({ ignoreWhitespace: !content.ignoreWhitespace })}
+            className={getToggleClassName(content.ignoreWhitespace)}
+          >
+            {(content.ignoreWhitespace ?? false)
+              ? 'Ignoruj białe znaki'
+              : 'Uwzględniaj białe znaki'}
+          </button>
+
+          {answerMode === 'list' && (
+            <button
+              type="button"
+              onClick={() => updateContent({ ignoreListOrder: !content.ignoreListOrder })}
+              className={getToggleClassName(content.ignoreListOrder ?? false)}
+            >
+              {(content.ignoreListOrder ?? false)
+                ? 'Dowolna kolejność elementów'
+                : 'Kolejność elementów ma znaczenie'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {answerMode === 'numeric' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tolerancja bezwzględna</label>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={content.absoluteTolerance ?? ''}
+              onChange={(e) => updateContent({ absoluteTolerance: parseTolerance(e.target.value) })}
+              className={inputClassName}
+              placeholder="np. 0,01"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tolerancja względna (%)</label>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={content.relativeTolerance === undefined ? '' : Math.round(content.relativeTolerance * 1e8) / 1e6}
+              onChange={(e) => {
+                const percent = parseTolerance(e.target.value);
+                updateContent({ relativeTolerance: percent === undefined ? undefined : percent / 100 });
+              }}
+              className={inputClassName}
+              placeholder="np. 1"
+            />
+          </div>
+          <p className="col-span-2 text-xs text-gray-600">
+            Obowiązuje większa z tolerancji. Bez tolerancji liczba musi być dokładnie równa poprawnej.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
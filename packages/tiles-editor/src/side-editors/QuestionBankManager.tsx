@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, HelpCircle, Library, Plus, Puzzle, Trash2, X } from 'lucide-react';
+import { LessonTile, QuestionBank, QuestionBankItem, QuestionBankItemType } from 'tiles-core';
+import { LessonContentService } from '../services/lessonContentService';
+import { RichTextField } from './RichTextField';
+import { QuizEditor } from './QuizEditor';
+import { BlanksEditor } from './BlanksEditor';
+
+interface QuestionBankManagerProps {
+  banks: QuestionBank[];
+  onChange: (banks: QuestionBank[]) => void;
+  onClose?: () => void;
+}
+
+const ITEM_TYPE_LABELS: Record<QuestionBankItemType, string> = {
+  quiz: 'Quiz',
+  blanks: 'Uzupełnianie luk'
+};
+
+const getItemTitle = (item: QuestionBankItem) =>
+  (item.type === 'quiz' ? item.content.question : item.content.instruction).trim() || 'Bez treści';
+
+export const QuestionBankManager: React.FC<QuestionBankManagerProps> = ({ banks, onChange, onClose }) => {
+  const [openBankId, setOpenBankId] = useState<string | null>(null);
+  const [openItemId, setOpenItemId] = useState<string | null>(null);
+
+  const openBank = banks.find(bank => bank.id === openBankId) ?? null;
+  const openItem = openBank?.items.find(item => item.id === openItemId) ?? null;
+
+  const updateBank = (bankId: string, updates: Partial<QuestionBank>) => {
+    onChange(banks.map(bank => (bank.id === bankId ? { ...bank, ...updates } : bank)));
+  };
+
+  const updateItem = (bank: QuestionBank, itemId: string, content: QuestionBankItem['content']) => {
+    updateBank(bank.id, {
+      items: bank.items.map(item => (item.id === itemId ? ({ ...item, content } as QuestionBankItem) : item))
+    });
+  };
+
+  const handleAddBank = () => {
+    const bank = LessonContentService.createQuestionBank(`Bank ${banks.length + 1}`);
+    onChange([...banks, bank]);
+    setOpenBankId(bank.id);
+  };
+
+  const handleDeleteBank = (bankId: string) => {
+    onChange(banks.filter(bank => bank.id !== bankId));
+    if (openBankId === bankId) setOpenBankId(null);
+  };
+
+  const handleAddItem = (bank: QuestionBank, type: QuestionBankItemType) => {
+    const item = LessonContentService.createQuestionBankItem(type);
+    updateBank(bank.id, { items: [...bank.items, item] });
+    setOpenItemId(item.id);
+  };
+
+  const renderItemEditor = (bank: QuestionBank, item: QuestionBankItem) => {
+    // The tile editors report whole tile updates; only the content belongs to the bank item.
+    const handleTileUpdate = (_tileId: string, updates: Partial<LessonTile>) => {
+      if (updates.content) updateItem(bank, item.id, updates.content as QuestionBankItem['content']);
+    };
+
+    if (item.type === 'quiz') {
+      return (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Pytanie</label>
+            <RichTextField
+              value={item.content.richQuestion ?? item.content.question}
+              onChange={(value, text) =>
+                updateItem(bank, item.id, { ...item.content, question: text, richQuestion: value })
+              }
+              placeholder="Treść pytania"
+            />
+          </div>
+          <QuizEditor tile={item} onUpdateTile={handleTileUpdate} />
+        </>
+      );
+    }
+
+    return (
+      <>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Polecenie</label>
+          <RichTextField
+            value={item.content.richInstruction ?? item.content.instruction}
+            onChange={(value, text) =>
+              updateItem(bank, item.id, { ...item.content, instruction: text, richInstruction: value })
+            }
+            placeholder="Treść polecenia"
+          />
+        </div>
+        <BlanksEditor tile={item} onUpdateTile={handleTileUpdate} />
+      </>
+    );
+  };
+
+  const renderBankList = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Bank to zestaw pytań, z którego kafelek „Pytanie z banku” losuje jedno pytanie dla każdego ucznia.
+      </p>
+
+      {banks.map(bank => (
+        <div key={bank.id} className="flex items-center gap-2 border border-gray-200 rounded-xl p-3 bg-gray-50">
+          <button
+            type="button"
+            onClick={() => setOpenBankId(bank.id)}
+            className="flex-1 flex items-center justify-between text-left min-w-0"
+          >
+            <span className="min-w-0">
+              <span className="block text-sm font-medium text-gray-900 truncate">{bank.name || 'Bank bez nazwy'}</span>
+              <span className="block text-xs text-gray-600">Pytania: {bank.items.length}</span>
+            </span>
+            <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          </button>
+          <button
+            type="button"
+            onClick={() => handleDeleteBank(bank.id)}
+            className="inline-flex h-9 w-9 items-center justify-center rounded-lg text-rose-600 transition hover:bg-rose-50"
+            aria-label="Usuń bank"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAddBank}
+        className="w-full inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+      >
+        <Plus className="w-4 h-4" />
+        Dodaj bank
+      </button>
+    </div>
+  );
+
+  const renderBank = (bank: QuestionBank) => (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={() => setOpenBankId(null)}
+        className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ChevronLeft className="w-4 h-4" />
+        Wszystkie banki
+      </button>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Nazwa banku</label>
+        <input
+          type="text"
+          value={bank.name}
+          onChange={(e) => updateBank(bank.id, { name: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Pytania</p>
+        {bank.items.length === 0 ? (
+          <p className="text-xs text-gray-600">Bank jest pusty. Dodaj pytania, z których będzie losowany kafelek.</p>
+        ) : (
+          bank.items.map(item => {
+            const ItemIcon = item.type === 'quiz' ? HelpCircle : Puzzle;
+            return (
+              <div key={item.id} className="flex items-center gap-2 border border-gray-200 rounded-xl p-3 bg-gray-50">
+                <button
+                  type="button"
+                  onClick={() => setOpenItemId(item.id)}
+                  className="flex-1 flex items-center gap-2 text-left min-w-0"
+                >
+                  <ItemIcon className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-900 truncate">{getItemTitle(item)}</span>
+                    <span className="block text-xs text-gray-600">{ITEM_TYPE_LABELS[item.type]}</span>
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateBank(bank.id, { items: bank.items.filter(entry => entry.id !== item.id) })}
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-lg text-rose-600 transition hover:bg-rose-50"
+                  aria-label="Usuń pytanie"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={() => handleAddItem(bank, 'quiz')}
+          className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Quiz
+        </button>
+        <button
+          type="button"
+          onClick={() => handleAddItem(bank, 'blanks')}
+          className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Luki
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (openBank && openItem) {
+      return (
+        <div className="space-y-6">
+          <button
+            type="button"
+            onClick={() => setOpenItemId(null)}
+            className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            {openBank.name || 'Bank bez nazwy'}
+          </button>
+          {/* Remount per item so the rich text field does not carry one item's text into another. */}
+          <div key={openItem.id} className="space-y-6">
+            {renderItemEditor(openBank, openItem)}
+          </div>
+        </div>
+      );
+    }
+
+    return openBank ? renderBank(openBank) : renderBankList();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+              <Library className="w-5 h-5 text-blue-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">Banki pytań</h3>
+          </div>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Zamknij banki pytań"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto overscroll-contain p-6">{renderContent()}</div>
+    </div>
+  );
+};
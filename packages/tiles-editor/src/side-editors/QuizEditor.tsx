@@ -0,0 +1,204 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { LessonTile, QuizTile } from 'tiles-core';
+import { MathTextToggle } from './MathTextToggle';
+
+interface QuizEditorProps {
+  /** Only the content is edited, so question bank items can reuse this editor. */
+  tile: Pick<QuizTile, 'id' | 'content'>;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+export const QuizEditor: React.FC<QuizEditorProps> = ({ tile: quizTile, onUpdateTile }) => {
+  const updateContent = (updates: Partial<QuizTile['content']>) => {
+    onUpdateTile(quizTile.id, {
+      content: {
+        ...quizTile.content,
+        ...updates
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const updateAnswers = (answers: QuizTile['content']['answers']) => updateContent({ answers });
+
+  const handleAnswerTextChange = (index: number, value: string) => {
+    const answers = quizTile.content.answers.map((answer, idx) =>
+      idx === index ? { ...answer, text: value } : answer
+    );
+    updateAnswers(answers);
+  };
+
+  const handleAnswerCorrectToggle = (index: number, checked: boolean) => {
+    let answers: QuizTile['content']['answers'];
+
+    if (quizTile.content.multipleCorrect) {
+      answers = quizTile.content.answers.map((answer, idx) =>
+        idx === index ? { ...answer, isCorrect: checked } : answer
+      );
+    } else {
+      answers = quizTile.content.answers.map((answer, idx) => ({
+        ...answer,
+        isCorrect: idx === index ? checked : false
+      }));
+    }
+
+    updateAnswers(answers);
+  };
+
+  const handleAddAnswer = () => {
+    const newAnswers = [
+      ...quizTile.content.answers,
+      { text: `Nowa odpowiedź ${quizTile.content.answers.length + 1}`, isCorrect: false }
+    ];
+    updateAnswers(newAnswers);
+  };
+
+  const handleRemoveAnswer = (index: number) => {
+    if (quizTile.content.answers.length <= 2) return;
+
+    const newAnswers = quizTile.content.answers.filter((_, idx) => idx !== index);
+    updateAnswers(newAnswers);
+  };
+
+  const handleModeChange = (multiple: boolean) => {
+    if (multiple) {
+      updateContent({ multipleCorrect: true });
+      return;
+    }
+
+    // Single choice keeps only the first correct answer; both changes go out in one update.
+    const firstCorrectIndex = quizTile.content.answers.findIndex((answer) => answer.isCorrect);
+    const answers = quizTile.content.answers.map((answer, idx) => ({
+      ...answer,
+      isCorrect: firstCorrectIndex === -1 ? false : idx === firstCorrectIndex
+    }));
+    updateContent({ answers, multipleCorrect: false });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">Kolor tła</label>
+        <input
+          type="color"
+          value={quizTile.content.backgroundColor}
+          onChange={(e) => updateContent({ backgroundColor: e.target.value })}
+          className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-3">Tryb pytania</label>
+        <div className="grid grid-cols-2 gap-3">
+          <label
+            className={`flex items-center justify-between px-4 py-3 rounded-xl border text-sm font-medium cursor-pointer transition-colors ${
+              quizTile.content.multipleCorrect
+                ? 'border-gray-200 text-gray-600 hover:border-gray-300'
+                : 'border-blue-500 text-blue-600 shadow-sm'
+            }`}
+          >
+            <span>Jedna odpowiedź</span>
+            <input
+              type="radio"
+              name={`quiz-mode-${quizTile.id}`}
+              checked={!quizTile.content.multipleCorrect}
+              onChange={() => handleModeChange(false)}
+              className="text-blue-600 focus:ring-blue-500"
+            />
+          </label>
+          <label
+            className={`flex items-center justify-between px-4 py-3 rounded-xl border text-sm font-medium cursor-pointer transition-colors ${
+              quizTile.content.multipleCorrect
+                ? 'border-blue-500 text-blue-600 shadow-sm'
+                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+            }`}
+          >
+            <span>Wiele odpowiedzi</span>
+            <input
+              type="radio"
+              name={`quiz-mode-${quizTile.id}`}
+              checked={quizTile.content.multipleCorrect}
+              onChange={() => handleModeChange(true)}
+              className="text-blue-600 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+      </div>
+
+      <MathTextToggle
+        checked={quizTile.content.renderMath ?? false}
+        onChange={(renderMath) => updateContent({ renderMath })}
+        target="odpowiedziach"
+      />
+
+      <label className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+        <input
+          type="checkbox"
+          checked={quizTile.content.shuffleAnswers ?? false}
+          onChange={(e) => updateContent({ shuffleAnswers: e.target.checked })}
+          className="w-5 h-5 text-blue-600"
+        />
+        <div>
+          <span className="text-sm font-medium text-gray-900">Losowa kolejność odpowiedzi</span>
+          <p className="text-xs text-gray-600 mt-1">
+            Każdy uczeń zobaczy odpowiedzi w innej kolejności
+          </p>
+        </div>
+      </label>
+
+      <div className="space-y-4">
+        <div>
+        <button
+            type="button"
+            onClick={handleAddAnswer}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Dodaj odpowiedź
+        </button>
+      </div>
+
+
+      <div className="space-y-3">
+          {quizTile.content.answers.map((answer, index) => (
+            <div key={index} className="border border-gray-200 rounded-xl p-4 space-y-3 bg-gray-50">
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                      type={quizTile.content.multipleCorrect ? 'checkbox' : 'radio'}
+                      name={quizTile.content.multipleCorrect ? `answer-${quizTile.id}` : `correct-answer-${quizTile.id}`}
+                      checked={answer.isCorrect}
+                      onChange={(e) => handleAnswerCorrectToggle(index, e.target.checked)}
+                      className="w-4 h-4 text-blue-600 focus:ring-blue-500"
+                  />
+                </label>
+
+                <input
+                    type="text"
+                    value={answer.text}
+                    onChange={(e) => handleAnswerTextChange(index, e.target.value)}
+                    className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                    placeholder={`Treść odpowiedzi ${index + 1}`}
+                />
+
+                <button
+                  type="button"
+                  onClick={() => handleRemoveAnswer(index)}
+                  disabled={quizTile.content.answers.length <= 2}
+                  className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-lg transition ${
+                    quizTile.content.answers.length <= 2
+                      ? 'text-gray-300 cursor-not-allowed'
+                      : 'text-rose-600 hover:bg-rose-50'
+                  }`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect } from 'react';
+import { EditorContent, useEditor } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import { Bold, Italic, List, Underline as UnderlineIcon } from 'lucide-react';
+import { hasRichTextContent } from 'tiles-core';
+
+interface RichTextFieldProps {
+  value?: string;
+  /**
+   * Receives `undefined` once the field no longer contains any visible text. `text` is the
+   * plain-text version, for content that stores both (e.g. `question` and `richQuestion`).
+   */
+  onChange: (value: string | undefined, text: string) => void;
+  placeholder?: string;
+}
+
+/** Small formatted-text input for side panel fields such as feedback messages. */
+export const RichTextField: React.FC<RichTextFieldProps> = ({ value, onChange, placeholder }) => {
+  const editor = useEditor({
+    extensions: [StarterKit],
+    content: value ?? '',
+    shouldRerenderOnTransaction: true,
+    onUpdate: ({ editor: tiptap }) => {
+      const html = tiptap.getHTML();
+      onChange(hasRichTextContent(html) ? html : undefined, tiptap.getText());
+    }
+  });
+
+  useEffect(() => {
+    if (!editor) return;
+    if (hasRichTextContent(value) ? editor.getHTML() !== value : !editor.isEmpty) {
+      editor.commands.setContent(value ?? '', { emitUpdate: false });
+    }
+  }, [editor, value]);
+
+  if (!editor) {
+    return null;
+  }
+
+  const toolbarButtons = [
+    { label: 'Pogrubienie', icon: Bold, mark: 'bold', toggle: () => editor.chain().focus().toggleBold().run() },
+    { label: 'Kursywa', icon: Italic, mark: 'italic', toggle: () => editor.chain().focus().toggleItalic().run() },
+    {
+      label: 'Podkreślenie',
+      icon: UnderlineIcon,
+      mark: 'underline',
+      toggle: () => editor.chain().focus().toggleUnderline().run()
+    },
+    { label: 'Lista', icon: List, mark: 'bulletList', toggle: () => editor.chain().focus().toggleBulletList().run() }
+  ];
+
+  return (
+    <div className="border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent">
+      <div className="flex items-center gap-1 border-b border-gray-200 px-2 py-1">
+        {toolbarButtons.map(({ label, icon: Icon, mark, toggle }) => (
+          <button
+            key={mark}
+            type="button"
+            onClick={toggle}
+            className={`p-1.5 rounded-md transition ${
+              editor.isActive(mark) ? 'bg-blue-50 text-blue-600' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+            title={label}
+            aria-label={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      <div className="relative">
+        {editor.isEmpty && placeholder && (
+          <span className="pointer-events-none absolute left-3 top-2 text-sm text-gray-400">{placeholder}</span>
+        )}
+        <EditorContent editor={editor} className="tile-text-content px-3 py-2 text-sm min-h-[4rem] [&_.ProseMirror]:outline-none" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { DEFAULT_TILE_WEIGHT, LessonTile, QuizTile, getTileWeight } from 'tiles-core';
+
+interface ScoringEditorProps {
+  tile: LessonTile;
+  onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
+}
+
+export const ScoringEditor: React.FC<ScoringEditorProps> = ({ tile, onUpdateTile }) => {
+  const quizTile = tile.type === 'quiz' ? (tile as QuizTile) : null;
+
+  const handleWeightChange = (raw: string) => {
+    const value = Number(raw.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) return;
+
+    onUpdateTile(tile.id, {
+      weight: value === DEFAULT_TILE_WEIGHT ? undefined : value,
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-6">
+      <h4 className="text-sm font-semibold text-gray-900">Punktacja</h4>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Liczba punktów za zadanie</label>
+        <input
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={getTileWeight(tile)}
+          onChange={(e) => handleWeightChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+        />
+        <p className="text-xs text-gray-600 mt-1">
+          Częściowo poprawne odpowiedzi otrzymują proporcjonalną część punktów.
+        </p>
+      </div>
+
+      {quizTile?.content.multipleCorrect && (
+        <label className="flex items-start space-x-3 p-4 bg-gray-50 rounded-lg">
+          <input
+            type="checkbox"
+            checked={quizTile.content.negativeMarking ?? false}
+            onChange={(e) =>
+              onUpdateTile(tile.id, {
+                content: { ...quizTile.content, negativeMarking: e.target.checked },
+                updated_at: new Date().toISOString()
+              })
+            }
+            className="w-5 h-5 mt-0.5 text-blue-600"
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900">Punkty ujemne</span>
+            <span className="block text-xs text-gray-600">
+              Każda błędnie zaznaczona odpowiedź odejmuje jedną poprawną.
+            </span>
+          </span>
+        </label>
+      )}
+    </div>
+  );
+};
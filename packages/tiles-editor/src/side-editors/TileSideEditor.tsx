@@ -11,34 +11,53 @@ import {
   ArrowUpDown,
   Puzzle,
   FileText,
-  Link2
+  Link2,
+  Library,
+  MousePointerClick
 } from 'lucide-react';
 import {
+  AnswerableTileType,
+  BankSlotTile,
+  QuestionBank,
   TextTile,
   ImageTile,
+  InteractiveTile,
   LessonTile,
   ProgrammingTile,
   SequencingTile,
   QuizTile,
   BlanksTile,
   OpenTile,
-  PairingTile
+  PairingTile,
+  VisualizationTile,
+  isScorableTileType
 } from 'tiles-core';
 import { ImageUploadComponent } from './ImageUploadComponent';
 import { ImagePositionControl } from './ImagePositionControl';
 import { SequencingEditor } from './SequencingEditor';
-import { extractPlaceholdersFromTemplate } from 'tiles-core/utils';
+import { QuizEditor } from './QuizEditor';
+import { BlanksEditor } from './BlanksEditor';
+import { OpenAnswerEditor } from './OpenAnswerEditor';
+import { InteractiveEditor } from './InteractiveEditor';
+import { VisualizationEditor } from './VisualizationEditor';
+import { ScoringEditor } from './ScoringEditor';
+import { CompletionRequirementEditor } from './CompletionRequirementEditor';
+import { FeedbackEditor } from './FeedbackEditor';
+import { BankSlotEditor } from './BankSlotEditor';
+import { MathTextToggle } from './MathTextToggle';
 
 interface TileSideEditorProps {
   tile: LessonTile | undefined;
   onUpdateTile: (tileId: string, updates: Partial<LessonTile>) => void;
   onSelectTile?: (tileId: string | null) => void;
+  questionBanks?: QuestionBank[];
 }
 
 export const TileSideEditor: React.FC<TileSideEditorProps> = ({
   tile,
   onUpdateTile,
   onSelectTile,
+  questionBanks = [],
 }) => {
 
   if (!tile) {
@@ -107,6 +126,7 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
     switch (tile.type) {
       case 'text': return Type;
       case 'image': return ImageIcon;
+      case 'interactive': return MousePointerClick;
       case 'visualization': return Eye;
       case 'quiz': return HelpCircle;
       case 'programming': return Code;
@@ -114,6 +134,7 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
       case 'blanks': return Puzzle;
       case 'open': return FileText;
       case 'pairing': return Link2;
+      case 'bank-slot': return Library;
       default: return Type;
     }
   };
@@ -275,6 +296,26 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
         );
       }
 
+      case 'interactive': {
+        const interactiveTile = tile as InteractiveTile;
+        return (
+          <InteractiveEditor
+            tile={interactiveTile}
+            onUpdateTile={onUpdateTile}
+          />
+        );
+      }
+
+      case 'visualization': {
+        const visualizationTile = tile as VisualizationTile;
+        return (
+          <VisualizationEditor
+            tile={visualizationTile}
+            onUpdateTile={onUpdateTile}
+          />
+        );
+      }
+
       case 'sequencing': {
         const sequencingTile = tile as SequencingTile;
         return (
@@ -287,158 +328,11 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
 
       case 'blanks': {
         const blanksTile = tile as BlanksTile;
-
-        const updateContent = (updates: Partial<BlanksTile['content']>) => {
-          onUpdateTile(tile.id, {
-            content: {
-              ...blanksTile.content,
-              ...updates
-            },
-            updated_at: new Date().toISOString()
-          });
-        };
-
-        const handleTemplateChange = (value: string) => {
-          const placeholders = extractPlaceholdersFromTemplate(value);
-          const autoOptions = placeholders.map(({ optionId, answerText }) => ({
-            id: optionId,
-            text: answerText,
-            isAuto: true as const
-          }));
-
-          const blanks = placeholders.map(({ blankId, optionId }) => ({
-            id: blankId,
-            correctOptionId: optionId
-          }));
-
-          const distractors = blanksTile.content.options.filter(option => option.isAuto !== true);
-
-          updateContent({
-            textTemplate: value,
-            blanks,
-            options: [...autoOptions, ...distractors]
-          });
-        };
-
-        const handleDistractorTextChange = (optionId: string, value: string) => {
-          const options = blanksTile.content.options.map(option => {
-            if (option.id !== optionId) {
-              return option;
-            }
-
-            if (option.isAuto === true) {
-              return option;
-            }
-
-            return { ...option, text: value };
-          });
-
-          updateContent({ options });
-        };
-
-        const handleAddDistractor = () => {
-          const autoOptions = blanksTile.content.options.filter(option => option.isAuto === true);
-          const distractors = blanksTile.content.options.filter(option => option.isAuto !== true);
-          const newOptionId = `distractor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
-          const options = [
-            ...autoOptions,
-            ...distractors,
-            {
-              id: newOptionId,
-              text: `Nowe wyrażenie ${distractors.length + 1}`,
-              isAuto: false as const
-            }
-          ];
-          updateContent({ options });
-        };
-
-        const handleRemoveDistractor = (optionId: string) => {
-          const options = blanksTile.content.options.filter(option => option.id !== optionId || option.isAuto === true);
-          updateContent({ options });
-        };
-
-        const autoOptions = blanksTile.content.options.filter(option => option.isAuto === true);
-        const distractorOptions = blanksTile.content.options.filter(option => option.isAuto !== true);
-
         return (
-          <div className="space-y-6">
-            <div className="grid grid-cols-1 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-3">Kolor akcentu</label>
-                <input
-                  type="color"
-                  value={blanksTile.content.backgroundColor}
-                  onChange={(e) => updateContent({ backgroundColor: e.target.value })}
-                  className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Tekst z lukami</label>
-              <p className="text-xs text-gray-600 mb-2">
-                Wstaw poprawne odpowiedzi w podw&oacute;jnych nawiasach klamrowych, np. <code className="bg-gray-100 px-1 py-0.5 rounded">{'{{Warszawa}}'}</code>.
-              </p>
-              <textarea
-                value={blanksTile.content.textTemplate}
-                onChange={(e) => handleTemplateChange(e.target.value)}
-                rows={4}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                placeholder="Tekst zadania z lukami"
-              />
-            </div>
-
-            <div className="space-y-6">
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-semibold text-gray-900">Słowa Zapychacze</h4>
-                  <button
-                    type="button"
-                    onClick={handleAddDistractor}
-                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
-                  >
-                    <Plus className="w-4 h-4" />
-                    Dodaj
-                  </button>
-                </div>
-
-                {distractorOptions.length === 0 ? (
-                  <p className="text-sm text-gray-600">
-                    Dodaj dodatkowe słowa lub wyrażenia, które utrudnią zadanie uczniowi.
-                  </p>
-                ) : (
-                    <div className="space-y-3">
-                      {distractorOptions.map(option => (
-                          <div
-                              key={option.id}
-                              className="border border-gray-200 rounded-xl p-4 bg-gray-50 space-y-3"
-                          >
-                            <div className="flex items-center gap-2">
-                              <input
-                                  type="text"
-                                  value={option.text}
-                                  onChange={(e) =>
-                                      handleDistractorTextChange(option.id, e.target.value)
-                                  }
-                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                                  placeholder="Treść zapychacza"
-                              />
-                              <button
-                                  type="button"
-                                  onClick={() => handleRemoveDistractor(option.id)}
-                                  className="inline-flex items-center justify-center text-rose-600 hover:bg-rose-50 p-2 rounded-lg"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
-                            </div>
-                          </div>
-                      ))}
-                    </div>
-
-                )}
-              </div>
-            </div>
-          </div>
+          <BlanksEditor
+            tile={blanksTile}
+            onUpdateTile={onUpdateTile}
+          />
         );
       }
 
@@ -580,46 +474,7 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
               />
             </div>
             
-            <div className="space-y-3">
-              <label className="block text-sm font-medium text-gray-700">Poprawna odpowiedź</label>
-              <textarea
-                value={openTile.content.correctAnswer ?? ''}
-                onChange={(e) => updateContent({ correctAnswer: e.target.value })}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                rows={4}
-                placeholder="np. ['napis1', 'napis2', 'napis3']"
-              />
-
-              <div className="flex flex-wrap gap-3">
-                <button
-                  type="button"
-                  onClick={() => updateContent({ ignoreCase: !openTile.content.ignoreCase })}
-                  className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition ${
-                    openTile.content.ignoreCase
-                      ? 'border-blue-500 bg-blue-50 text-blue-600 shadow-sm'
-                      : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
-                  }`}
-                >
-                  {(openTile.content.ignoreCase ?? false)
-                    ? 'Ignoruj wielkość liter'
-                    : 'Rozróżniaj wielkość liter'}
-                </button>
-
-                <button
-                  type="button"
-                  onClick={() => updateContent({ ignoreWhitespace: !openTile.content.ignoreWhitespace })}
-                  className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition ${
-                    openTile.content.ignoreWhitespace
-                      ? 'border-blue-500 bg-blue-50 text-blue-600 shadow-sm'
-                      : 'border-gray-200 text-gray-700 hover:border-gray-300 hover:bg-gray-50'
-                  }`}
-                >
-                  {(openTile.content.ignoreWhitespace ?? false)
-                    ? 'Ignoruj białe znaki'
-                    : 'Uwzględniaj białe znaki'}
-                </button>
-              </div>
-            </div>
+            <OpenAnswerEditor tile={openTile} onUpdateTile={onUpdateTile} />
             </div>
         );
       }
@@ -673,6 +528,12 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
                 className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
               />
             </div>
+
+            <MathTextToggle
+              checked={pairingTile.content.renderMath ?? false}
+              onChange={(renderMath) => updateContent({ renderMath })}
+              target="parach"
+            />
             
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -739,172 +600,22 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
 
       case 'quiz': {
         const quizTile = tile as QuizTile;
-
-        const updateAnswers = (answers: QuizTile['content']['answers']) => {
-          onUpdateTile(tile.id, {
-            content: {
-              ...quizTile.content,
-              answers
-            },
-            updated_at: new Date().toISOString()
-          });
-        };
-
-        const handleAnswerTextChange = (index: number, value: string) => {
-          const answers = quizTile.content.answers.map((answer, idx) =>
-            idx === index ? { ...answer, text: value } : answer
-          );
-          updateAnswers(answers);
-        };
-
-        const handleAnswerCorrectToggle = (index: number, checked: boolean) => {
-          let answers: QuizTile['content']['answers'];
-
-          if (quizTile.content.multipleCorrect) {
-            answers = quizTile.content.answers.map((answer, idx) =>
-              idx === index ? { ...answer, isCorrect: checked } : answer
-            );
-          } else {
-            answers = quizTile.content.answers.map((answer, idx) => ({
-              ...answer,
-              isCorrect: idx === index ? checked : false
-            }));
-          }
-
-          updateAnswers(answers);
-        };
-
-        const handleAddAnswer = () => {
-          const newAnswers = [
-            ...quizTile.content.answers,
-            { text: `Nowa odpowiedź ${quizTile.content.answers.length + 1}`, isCorrect: false }
-          ];
-          updateAnswers(newAnswers);
-        };
-
-        const handleRemoveAnswer = (index: number) => {
-          if (quizTile.content.answers.length <= 2) return;
-
-          const newAnswers = quizTile.content.answers.filter((_, idx) => idx !== index);
-          updateAnswers(newAnswers);
-        };
-
-        const handleModeChange = (multiple: boolean) => {
-          if (!multiple) {
-            const firstCorrectIndex = quizTile.content.answers.findIndex((answer) => answer.isCorrect);
-            const answers = quizTile.content.answers.map((answer, idx) => ({
-              ...answer,
-              isCorrect: firstCorrectIndex === -1 ? false : idx === firstCorrectIndex
-            }));
-            updateAnswers(answers);
-          }
-
-          handleContentUpdate('multipleCorrect', multiple);
-        };
-
         return (
-          <div className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">Kolor tła</label>
-              <input
-                type="color"
-                value={quizTile.content.backgroundColor}
-                onChange={(e) => handleContentUpdate('backgroundColor', e.target.value)}
-                className="w-full h-12 border border-gray-300 rounded-lg cursor-pointer"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">Tryb pytania</label>
-              <div className="grid grid-cols-2 gap-3">
-                <label
-                  className={`flex items-center justify-between px-4 py-3 rounded-xl border text-sm font-medium cursor-pointer transition-colors ${
-                    quizTile.content.multipleCorrect
-                      ? 'border-gray-200 text-gray-600 hover:border-gray-300'
-                      : 'border-blue-500 text-blue-600 shadow-sm'
-                  }`}
-                >
-                  <span>Jedna odpowiedź</span>
-                  <input
-                    type="radio"
-                    name={`quiz-mode-${tile.id}`}
-                    checked={!quizTile.content.multipleCorrect}
-                    onChange={() => handleModeChange(false)}
-                    className="text-blue-600 focus:ring-blue-500"
-                  />
-                </label>
-                <label
-                  className={`flex items-center justify-between px-4 py-3 rounded-xl border text-sm font-medium cursor-pointer transition-colors ${
-                    quizTile.content.multipleCorrect
-                      ? 'border-blue-500 text-blue-600 shadow-sm'
-                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
-                  }`}
-                >
-                  <span>Wiele odpowiedzi</span>
-                  <input
-                    type="radio"
-                    name={`quiz-mode-${tile.id}`}
-                    checked={quizTile.content.multipleCorrect}
-                    onChange={() => handleModeChange(true)}
-                    className="text-blue-600 focus:ring-blue-500"
-                  />
-                </label>
-              </div>
-            </div>
-
-            <div className="space-y-4">
-              <div>
-              <button
-                  type="button"
-                  onClick={handleAddAnswer}
-                  className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
-              >
-                <Plus className="w-4 h-4" />
-                Dodaj odpowiedź
-              </button>
-            </div>
-
+          <QuizEditor
+            tile={quizTile}
+            onUpdateTile={onUpdateTile}
+          />
+        );
+      }
 
-            <div className="space-y-3">
-                {quizTile.content.answers.map((answer, index) => (
-                  <div key={index} className="border border-gray-200 rounded-xl p-4 space-y-3 bg-gray-50">
-                    <div className="flex items-center gap-3">
-                      <label className="flex items-center gap-3 text-sm text-gray-700">
-                        <input
-                            type={quizTile.content.multipleCorrect ? 'checkbox' : 'radio'}
-                            name={quizTile.content.multipleCorrect ? `answer-${tile.id}` : `correct-answer-${tile.id}`}
-                            checked={answer.isCorrect}
-                            onChange={(e) => handleAnswerCorrectToggle(index, e.target.checked)}
-                            className="w-4 h-4 text-blue-600 focus:ring-blue-500"
-                        />
-                      </label>
-
-                      <input
-                          type="text"
-                          value={answer.text}
-                          onChange={(e) => handleAnswerTextChange(index, e.target.value)}
-                          className="flex-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-                          placeholder={`Treść odpowiedzi ${index + 1}`}
-                      />
-
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveAnswer(index)}
-                        disabled={quizTile.content.answers.length <= 2}
-                        className={`inline-flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-lg transition ${
-                          quizTile.content.answers.length <= 2
-                            ? 'text-gray-300 cursor-not-allowed'
-                            : 'text-rose-600 hover:bg-rose-50'
-                        }`}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+      case 'bank-slot': {
+        const bankSlotTile = tile as BankSlotTile;
+        return (
+          <BankSlotEditor
+            tile={bankSlotTile}
+            questionBanks={questionBanks}
+            onUpdateTile={onUpdateTile}
+          />
         );
       }
 
@@ -943,6 +654,23 @@ export const TileSideEditor: React.FC<TileSideEditorProps> = ({
       {/* Properties Panel */}
       <div className="flex-1 overflow-y-auto overscroll-contain p-6 space-y-6">
         {renderContentEditor()}
+        {(isScorableTileType(tile.type) || tile.type === 'programming') && (
+          <>
+            <ScoringEditor tile={tile} onUpdateTile={onUpdateTile} />
+            <FeedbackEditor
+              key={tile.id}
+              tile={tile as LessonTile<AnswerableTileType>}
+              onUpdateTile={onUpdateTile}
+            />
+            <CompletionRequirementEditor tile={tile} onUpdateTile={onUpdateTile} />
+          </>
+        )}
+        {tile.type === 'bank-slot' && (
+          <>
+            <ScoringEditor tile={tile} onUpdateTile={onUpdateTile} />
+            <CompletionRequirementEditor tile={tile} onUpdateTile={onUpdateTile} />
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,290 @@
+import React from 'react';
+import { Plus, Trash2, BarChart3, Video } from 'lucide-react';
+import { VisualizationChartType, VisualizationData, VisualizationTile } from 'tiles-core';
+import { getSeriesColor } from 'ui-primitives';
+
+interface VisualizationEditorProps {
+  tile: VisualizationTile;
+  onUpdateTile: (tileId: string, updates: Partial<VisualizationTile>) => void;
+}
+
+const CHART_TYPES: Array<{ value: VisualizationChartType; label: string }> = [
+  { value: 'bar', label: 'Słupkowy' },
+  { value: 'line', label: 'Liniowy' },
+  { value: 'pie', label: 'Kołowy' },
+  { value: 'scatter', label: 'Punktowy' }
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export const VisualizationEditor: React.FC<VisualizationEditorProps> = ({ tile, onUpdateTile }) => {
+  const { content } = tile;
+  const data: VisualizationData = content.data ?? { labels: [], series: [] };
+  const chartType = content.chartType ?? 'bar';
+
+  const updateContent = (updates: Partial<VisualizationTile['content']>) => {
+    onUpdateTile(tile.id, {
+      content: {
+        ...content,
+        ...updates
+      },
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const updateData = (updates: Partial<VisualizationData>) => {
+    updateContent({ data: { ...data, ...updates } });
+  };
+
+  const handleLabelChange = (index: number, value: string) => {
+    updateData({ labels: data.labels.map((label, idx) => (idx === index ? value : label)) });
+  };
+
+  const handleValueChange = (seriesId: string, index: number, raw: string) => {
+    const value = Number(raw.replace(',', '.'));
+    if (!Number.isFinite(value)) return;
+
+    updateData({
+      series: data.series.map(series => {
+        if (series.id !== seriesId) return series;
+        const values = [...series.values];
+        while (values.length <= index) values.push(0);
+        values[index] = value;
+        return { ...series, values };
+      })
+    });
+  };
+
+  const handleAddRow = () => {
+    updateData({
+      labels: [...data.labels, `Etykieta ${data.labels.length + 1}`],
+      series: data.series.map(series => ({ ...series, values: [...series.values, 0] }))
+    });
+  };
+
+  const handleRemoveRow = (index: number) => {
+    updateData({
+      labels: data.labels.filter((_, idx) => idx !== index),
+      series: data.series.map(series => ({ ...series, values: series.values.filter((_, idx) => idx !== index) }))
+    });
+  };
+
+  const handleAddSeries = () => {
+    const index = data.series.length;
+    updateData({
+      series: [
+        ...data.series,
+        {
+          id: `series-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+          name: `Seria ${index + 1}`,
+          color: getSeriesColor(undefined, index),
+          values: data.labels.map(() => 0)
+        }
+      ]
+    });
+  };
+
+  const handleSeriesChange = (seriesId: string, updates: { name?: string; color?: string }) => {
+    updateData({
+      series: data.series.map(series => (series.id === seriesId ? { ...series, ...updates } : series))
+    });
+  };
+
+  const handleRemoveSeries = (seriesId: string) => {
+    updateData({ series: data.series.filter(series => series.id !== seriesId) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Tytuł</label>
+        <input
+          type="text"
+          value={content.title}
+          onChange={(e) => updateContent({ title: e.target.value })}
+          className={inputClassName}
+          placeholder="Tytuł wizualizacji"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Rodzaj treści</label>
+        <div className="grid grid-cols-2 gap-2">
+          {(['chart', 'video'] as const).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => updateContent({ contentType: type })}
+              className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition ${
+                content.contentType === type
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {type === 'chart' ? <BarChart3 className="w-4 h-4" /> : <Video className="w-4 h-4" />}
+              {type === 'chart' ? 'Wykres' : 'Film'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {content.contentType === 'video' ? (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Adres filmu</label>
+            <input
+              type="url"
+              value={content.videoUrl ?? ''}
+              onChange={(e) => updateContent({ videoUrl: e.target.value })}
+              className={inputClassName}
+              placeholder="https://www.youtube.com/watch?v=… lub plik .mp4"
+            />
+            <p className="text-xs text-gray-600 mt-1">Obsługiwane są linki YouTube, Vimeo oraz pliki wideo.</p>
+          </div>
+          <label className="flex items-center space-x-3 p-4 bg-gray-50 rounded-lg">
+            <input
+              type="checkbox"
+              checked={content.videoLoop ?? false}
+              onChange={(e) => updateContent({ videoLoop: e.target.checked })}
+              className="w-5 h-5 text-blue-600"
+            />
+            <span className="text-sm font-medium text-gray-900">Odtwarzaj w pętli</span>
+          </label>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Typ wykresu</label>
+            <select
+              value={chartType}
+              onChange={(e) => updateContent({ chartType: e.target.value as VisualizationChartType })}
+              className={inputClassName}
+            >
+              {CHART_TYPES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {chartType === 'pie' && data.series.length > 1 && (
+              <p className="text-xs text-gray-600 mt-1">Wykres kołowy pokazuje tylko pierwszą serię.</p>
+            )}
+            {chartType === 'scatter' && (
+              <p className="text-xs text-gray-600 mt-1">
+                Gdy wszystkie etykiety są liczbami, wyznaczają położenie punktów na osi poziomej.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900">Serie danych</h4>
+              <button
+                type="button"
+                onClick={handleAddSeries}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+              >
+                <Plus className="w-4 h-4" />
+                Dodaj serię
+              </button>
+            </div>
+            {data.series.map((series, index) => (
+              <div key={series.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={getSeriesColor(series.color, index)}
+                  onChange={(e) => handleSeriesChange(series.id, { color: e.target.value })}
+                  className="w-10 h-10 border border-gray-300 rounded-lg cursor-pointer flex-shrink-0"
+                  aria-label={`Kolor serii ${index + 1}`}
+                />
+                <input
+                  type="text"
+                  value={series.name}
+                  onChange={(e) => handleSeriesChange(series.id, { name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="Nazwa serii"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSeries(series.id)}
+                  className="inline-flex items-center justify-center text-rose-600 hover:bg-rose-50 p-2 rounded-lg"
+                  aria-label={`Usuń serię ${index + 1}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900">Wartości</h4>
+              <button
+                type="button"
+                onClick={handleAddRow}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition"
+              >
+                <Plus className="w-4 h-4" />
+                Dodaj wiersz
+              </button>
+            </div>
+            {data.labels.length === 0 || data.series.length === 0 ? (
+              <p className="text-sm text-gray-600">Dodaj co najmniej jedną serię i jeden wiersz danych.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-600">
+                      <th className="pb-2 pr-2 font-medium">Etykieta</th>
+                      {data.series.map(series => (
+                        <th key={series.id} className="pb-2 pr-2 font-medium truncate max-w-[6rem]">
+                          {series.name}
+                        </th>
+                      ))}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.labels.map((label, rowIndex) => (
+                      <tr key={rowIndex}>
+                        <td className="pb-2 pr-2">
+                          <input
+                            type="text"
+                            value={label}
+                            onChange={(e) => handleLabelChange(rowIndex, e.target.value)}
+                            className={inputClassName}
+                          />
+                        </td>
+                        {data.series.map(series => (
+                          <td key={series.id} className="pb-2 pr-2">
+                            <input
+                              type="number"
+                              value={series.values[rowIndex] ?? 0}
+                              onChange={(e) => handleValueChange(series.id, rowIndex, e.target.value)}
+                              className={`${inputClassName} min-w-[4.5rem]`}
+                            />
+                          </td>
+                        ))}
+                        <td className="pb-2">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveRow(rowIndex)}
+                            className="inline-flex items-center justify-center text-rose-600 hover:bg-rose-50 p-2 rounded-lg"
+                            aria-label={`Usuń wiersz ${rowIndex + 1}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,16 @@
 export * from './TileSideEditor';
 export * from './SequencingEditor';
+export * from './QuizEditor';
+export * from './BlanksEditor';
+export * from './OpenAnswerEditor';
+export * from './BankSlotEditor';
+export * from './QuestionBankManager';
+export * from './VisualizationEditor';
+export * from './InteractiveEditor';
+export * from './ScoringEditor';
+export * from './CompletionRequirementEditor';
+export * from './FeedbackEditor';
+export * from './MathTextToggle';
+export * from './RichTextField';
 export * from './ImageUploadComponent';
 export * from './ImagePositionControl';
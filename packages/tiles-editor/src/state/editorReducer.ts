@@ -2,6 +2,8 @@ import { EditorState, LessonTile, Position, Size, GridPosition, ResizeHandle } f
 
 export type EditorAction =
   | { type: 'selectTile'; tileId: string | null }
+  | { type: 'toggleTileSelection'; tileId: string }
+  | { type: 'setSelection'; tileIds: string[] }
   | { type: 'startEditing'; tileId: string }
   | { type: 'startTextEditing'; tileId: string }
   | { type: 'startImageEditing'; tileId: string }
@@ -9,6 +11,9 @@ export type EditorAction =
   | { type: 'startDrag'; tile: LessonTile; offset: Position }
   | { type: 'startImageDrag'; start: { x: number; y: number; imageX: number; imageY: number } }
   | { type: 'startResize'; tileId: string; handle: ResizeHandle; startPosition: Position; startSize: Size; startGridPosition: GridPosition }
+  | { type: 'startGroupDrag'; tileIds: string[]; startPosition: Position; startGridPositions: Record<string, GridPosition> }
+  | { type: 'startMarquee'; start: Position; additive: boolean }
+  | { type: 'updateMarquee'; current: Position }
   | { type: 'endInteraction' }
   | { type: 'toggleGrid' }
   | { type: 'markUnsaved' }
@@ -17,6 +22,7 @@ export type EditorAction =
 
 export const initialEditorState: EditorState = {
   selectedTileId: null,
+  selectedTileIds: [],
   mode: 'idle',
   interaction: { type: 'idle' },
   canvasSize: { width: 1000, height: 600 },
@@ -27,13 +33,37 @@ export const initialEditorState: EditorState = {
 export function editorReducer(state: EditorState, action: EditorAction): EditorState {
   switch (action.type) {
     case 'selectTile':
-      return { ...state, selectedTileId: action.tileId, mode: action.tileId ? 'editing' : 'idle' };
+      return {
+        ...state,
+        selectedTileId: action.tileId,
+        selectedTileIds: action.tileId ? [action.tileId] : [],
+        mode: action.tileId ? 'editing' : 'idle'
+      };
+    case 'toggleTileSelection': {
+      const isSelected = state.selectedTileIds.includes(action.tileId);
+      const selectedTileIds = isSelected
+        ? state.selectedTileIds.filter(id => id !== action.tileId)
+        : [...state.selectedTileIds, action.tileId];
+      const selectedTileId = isSelected
+        ? selectedTileIds[selectedTileIds.length - 1] ?? null
+        : action.tileId;
+      return { ...state, selectedTileId, selectedTileIds, mode: selectedTileId ? 'editing' : 'idle' };
+    }
+    case 'setSelection': {
+      const selectedTileId = action.tileIds[action.tileIds.length - 1] ?? null;
+      return {
+        ...state,
+        selectedTileId,
+        selectedTileIds: action.tileIds,
+        mode: selectedTileId ? 'editing' : 'idle'
+      };
+    }
     case 'startEditing':
-      return { ...state, selectedTileId: action.tileId, mode: 'editing' };
+      return { ...state, selectedTileId: action.tileId, selectedTileIds: [action.tileId], mode: 'editing' };
     case 'startTextEditing':
-      return { ...state, selectedTileId: action.tileId, mode: 'textEditing' };
+      return { ...state, selectedTileId: action.tileId, selectedTileIds: [action.tileId], mode: 'textEditing' };
     case 'startImageEditing':
-      return { ...state, selectedTileId: action.tileId, mode: 'imageEditing' };
+      return { ...state, selectedTileId: action.tileId, selectedTileIds: [action.tileId], mode: 'imageEditing' };
     case 'stopEditing':
       return { ...state, mode: state.selectedTileId ? 'editing' : 'idle' };
     case 'startDrag':
@@ -53,6 +83,25 @@ export function editorReducer(state: EditorState, action: EditorAction): EditorS
           startGridPosition: action.startGridPosition
         }
       };
+    case 'startGroupDrag':
+      return {
+        ...state,
+        mode: 'dragging',
+        interaction: {
+          type: 'groupDrag',
+          tileIds: action.tileIds,
+          startPosition: action.startPosition,
+          startGridPositions: action.startGridPositions
+        }
+      };
+    case 'startMarquee':
+      return {
+        ...state,
+        interaction: { type: 'marquee', start: action.start, current: action.start, additive: action.additive }
+      };
+    case 'updateMarquee':
+      if (state.interaction.type !== 'marquee') return state;
+      return { ...state, interaction: { ...state.interaction, current: action.current } };
     case 'endInteraction':
       return { ...state, mode: state.selectedTileId ? 'editing' : 'idle', interaction: { type: 'idle' } };
     case 'toggleGrid':
@@ -0,0 +1,180 @@
+import { Lesson } from 'tiles-core';
+
+/**
+ * A single undoable change of the lesson document. Commands keep the document before and
+ * after the change; unchanged tiles are shared between both snapshots, so a command only
+ * really costs the tiles it touched.
+ */
+export interface LessonHistoryCommand {
+  label: string;
+  before: Lesson;
+  after: Lesson;
+  /** Consecutive commands with the same key are merged when they arrive within the coalescing window. */
+  coalesceKey?: string;
+}
+
+interface LessonHistoryEntry extends LessonHistoryCommand {
+  timestamp: number;
+  estimatedSize: number;
+}
+
+export interface LessonHistoryOptions {
+  maxEntries?: number;
+  /** Upper bound for the estimated size of all undo and redo entries, in characters of serialized JSON. */
+  maxSize?: number;
+  coalesceWindowMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<LessonHistoryOptions> = {
+  maxEntries: 100,
+  maxSize: 5_000_000,
+  coalesceWindowMs: 1000
+};
+
+const estimateCommandSize = (before: Lesson, after: Lesson): number => {
+  const beforeTiles = new Set(before.tiles);
+  const afterTiles = new Set(after.tiles);
+  let size = 256;
+
+  after.tiles.forEach(tile => {
+    if (!beforeTiles.has(tile)) size += JSON.stringify(tile).length;
+  });
+  before.tiles.forEach(tile => {
+    if (!afterTiles.has(tile)) size += JSON.stringify(tile).length;
+  });
+  if (before.question_banks !== after.question_banks) {
+    size += JSON.stringify(after.question_banks ?? []).length;
+  }
+
+  return size;
+};
+
+export class LessonHistory {
+  private readonly options: Required<LessonHistoryOptions>;
+  private undoStack: LessonHistoryEntry[] = [];
+  private redoStack: LessonHistoryEntry[] = [];
+  private totalSize = 0;
+  private group: string | null = null;
+  private sealed = true;
+
+  constructor(options: LessonHistoryOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get undoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  get redoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  push(command: LessonHistoryCommand): void {
+    if (command.before === command.after) {
+      return;
+    }
+
+    const now = Date.now();
+    const top = this.undoStack[this.undoStack.length - 1];
+    const coalesceKey = this.group ?? command.coalesceKey;
+
+    // The same update replayed (e.g. a state updater run twice in strict mode) or a
+    // continuation of the current group/coalescing key extends the last entry.
+    const continuesTop =
+      top &&
+      (top.before === command.before ||
+        (!this.sealed &&
+          coalesceKey !== undefined &&
+          top.coalesceKey === coalesceKey &&
+          (this.group !== null || now - top.timestamp <= this.options.coalesceWindowMs)));
+
+    if (continuesTop) {
+      this.totalSize -= top.estimatedSize;
+      top.after = command.after;
+      top.timestamp = now;
+      top.estimatedSize = estimateCommandSize(top.before, top.after);
+      this.totalSize += top.estimatedSize;
+    } else {
+      const entry: LessonHistoryEntry = {
+        ...command,
+        coalesceKey,
+        timestamp: now,
+        estimatedSize: estimateCommandSize(command.before, command.after)
+      };
+      this.undoStack.push(entry);
+      this.totalSize += entry.estimatedSize;
+    }
+
+    this.sealed = false;
+    this.redoStack.forEach(entry => {
+      this.totalSize -= entry.estimatedSize;
+    });
+    this.redoStack = [];
+    this.enforceLimits();
+  }
+
+  /**
+   * Merge every command pushed until `endGroup` into one entry, regardless of timing.
+   * Used for drag and resize streams.
+   */
+  beginGroup(key: string): void {
+    this.group = key;
+    this.sealed = true;
+  }
+
+  endGroup(): void {
+    this.group = null;
+    this.sealed = true;
+  }
+
+  /** Stop the next command from coalescing with the current top entry. */
+  seal(): void {
+    this.sealed = true;
+  }
+
+  /** Returns the document to restore, or `null` when there is nothing to undo. */
+  undo(): Lesson | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push(entry);
+    this.sealed = true;
+    return entry.before;
+  }
+
+  /** Returns the document to restore, or `null` when there is nothing to redo. */
+  redo(): Lesson | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push(entry);
+    this.sealed = true;
+    return entry.after;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.totalSize = 0;
+    this.group = null;
+    this.sealed = true;
+  }
+
+  private enforceLimits(): void {
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.options.maxEntries || this.totalSize > this.options.maxSize)
+    ) {
+      const dropped = this.undoStack.shift();
+      this.totalSize -= dropped?.estimatedSize ?? 0;
+    }
+  }
+}
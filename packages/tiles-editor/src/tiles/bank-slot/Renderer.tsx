@@ -0,0 +1,15 @@
+import React from 'react';
+import { BankSlotTile } from 'tiles-core';
+import { BankSlotTileView } from 'ui-primitives';
+import { BaseTileRendererProps } from '../../components/shared';
+
+export const BankSlotTileRenderer: React.FC<BaseTileRendererProps<BankSlotTile>> = ({ tile }) => (
+  <BankSlotTileView
+    tile={tile}
+    description={
+      tile.content.bankId
+        ? 'Uczeń zobaczy tu losowe pytanie z banku.'
+        : 'Wybierz bank pytań w panelu bocznym.'
+    }
+  />
+);
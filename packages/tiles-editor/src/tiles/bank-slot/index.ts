@@ -0,0 +1 @@
+export { BankSlotTileRenderer } from './Renderer';
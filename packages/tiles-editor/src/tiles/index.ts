@@ -1,8 +1,11 @@
+export * from './bank-slot';
 export * from './blanks';
 export * from './image';
+export * from './interactive';
 export * from './open';
 export * from './pairing';
 export * from './programming';
 export * from './quiz';
 export * from './sequencing';
 export * from './text';
+export * from './visualization';
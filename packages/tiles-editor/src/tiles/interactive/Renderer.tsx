@@ -0,0 +1,16 @@
+import React from 'react';
+import { InteractiveTile } from 'tiles-core';
+import { TileChrome } from 'ui-primitives';
+import { InteractiveTileInteractive } from 'tiles-runtime/interactive';
+import { BaseTileRendererProps } from '../../components/shared';
+
+export const InteractiveTileRenderer: React.FC<BaseTileRendererProps<InteractiveTile>> = ({
+  tile,
+  backgroundColor,
+  showBorder,
+}) => (
+  // The tile is configured in the side editor; on the canvas it only previews the task.
+  <TileChrome backgroundColor={backgroundColor} showBorder={showBorder} contentClassName="pointer-events-none">
+    <InteractiveTileInteractive tile={tile} isPreview revealAnswers />
+  </TileChrome>
+);
@@ -0,0 +1 @@
+export { InteractiveTileRenderer } from './Renderer';
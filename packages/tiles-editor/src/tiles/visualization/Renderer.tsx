@@ -0,0 +1,9 @@
+import React from 'react';
+import { VisualizationTile } from 'tiles-core';
+import { VisualizationTileView } from 'ui-primitives';
+import { BaseTileRendererProps } from '../../components/shared';
+
+export const VisualizationTileRenderer: React.FC<BaseTileRendererProps<VisualizationTile>> = ({ tile, isSelected }) => (
+  // Embedded players would swallow clicks meant for selecting and dragging the tile.
+  <VisualizationTileView tile={tile} contentClassName={isSelected ? undefined : 'pointer-events-none'} />
+);
@@ -0,0 +1 @@
+export { VisualizationTileRenderer } from './Renderer';
@@ -0,0 +1,100 @@
+import { Lesson, LessonTile } from 'tiles-core';
+
+export type TileConflictStatus = 'modified' | 'addedLocally' | 'addedRemotely' | 'deletedLocally' | 'deletedRemotely';
+
+export type TileConflictChoice = 'mine' | 'theirs';
+
+export interface TileConflict {
+  tileId: string;
+  tileType: LessonTile['type'];
+  page: number;
+  status: TileConflictStatus;
+  local: LessonTile | null;
+  remote: LessonTile | null;
+}
+
+export interface LessonSaveConflict {
+  local: Lesson;
+  remote: Lesson;
+  tiles: TileConflict[];
+}
+
+// Timestamps change on every touch and do not mean the tile content differs.
+const serializeTile = (tile: LessonTile) => JSON.stringify({ ...tile, updated_at: undefined });
+
+/**
+ * List tiles that differ between the local draft and the stored lesson. Tiles present on only
+ * one side are reported as added or deleted relative to the last revision both sides shared.
+ */
+export const getConflictingTiles = (local: Lesson, remote: Lesson, base?: Lesson | null): TileConflict[] => {
+  const localById = new Map(local.tiles.map(tile => [tile.id, tile]));
+  const remoteById = new Map(remote.tiles.map(tile => [tile.id, tile]));
+  const baseIds = new Set(base?.tiles.map(tile => tile.id) ?? []);
+  const tileIds = Array.from(new Set([...localById.keys(), ...remoteById.keys()]));
+
+  return tileIds.reduce<TileConflict[]>((conflicts, tileId) => {
+    const localTile = localById.get(tileId) ?? null;
+    const remoteTile = remoteById.get(tileId) ?? null;
+
+    if (localTile && remoteTile && serializeTile(localTile) === serializeTile(remoteTile)) {
+      return conflicts;
+    }
+
+    const reference = (localTile ?? remoteTile) as LessonTile;
+    let status: TileConflictStatus = 'modified';
+    if (!remoteTile) {
+      status = baseIds.has(tileId) ? 'deletedRemotely' : 'addedLocally';
+    } else if (!localTile) {
+      status = baseIds.has(tileId) ? 'deletedLocally' : 'addedRemotely';
+    }
+
+    conflicts.push({
+      tileId,
+      tileType: reference.type,
+      page: reference.page ?? 1,
+      status,
+      local: localTile,
+      remote: remoteTile
+    });
+
+    return conflicts;
+  }, []);
+};
+
+/**
+ * Build the lesson to save after the author picked a side for every conflicting tile.
+ * Tiles without an explicit choice keep the local version. The result is based on the
+ * remote revision so the follow-up save is not rejected again.
+ */
+export const mergeConflictingTiles = (
+  conflict: LessonSaveConflict,
+  choices: Record<string, TileConflictChoice>
+): Lesson => {
+  const conflictsById = new Map(conflict.tiles.map(tile => [tile.tileId, tile]));
+  const tiles: LessonTile[] = [];
+
+  conflict.local.tiles.forEach(tile => {
+    const tileConflict = conflictsById.get(tile.id);
+    if (!tileConflict || choices[tile.id] !== 'theirs') {
+      tiles.push(tile);
+    } else if (tileConflict.remote) {
+      tiles.push(tileConflict.remote);
+    }
+  });
+
+  conflict.tiles.forEach(tileConflict => {
+    if (!tileConflict.local && tileConflict.remote && choices[tileConflict.tileId] === 'theirs') {
+      tiles.push(tileConflict.remote);
+    }
+  });
+
+  const maxPage = tiles.reduce((max, tile) => Math.max(max, tile.page ?? 1), 1);
+
+  return {
+    ...conflict.local,
+    tiles,
+    total_pages: Math.max(conflict.local.total_pages, maxPage),
+    revision: conflict.remote.revision,
+    updated_at: new Date().toISOString()
+  };
+};
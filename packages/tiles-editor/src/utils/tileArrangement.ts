@@ -0,0 +1,63 @@
+import { GridPosition, LessonTile } from 'tiles-core';
+
+export type AlignEdge = 'left' | 'top';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+type GridPositionMap = Record<string, GridPosition>;
+
+/**
+ * Align every tile to the left-most column or top-most row of the selection.
+ * The result still has to be validated against the rest of the page.
+ */
+export const alignTiles = (tiles: LessonTile[], edge: AlignEdge): GridPositionMap => {
+  if (tiles.length < 2) return {};
+
+  const target =
+    edge === 'left'
+      ? Math.min(...tiles.map(tile => tile.gridPosition.col))
+      : Math.min(...tiles.map(tile => tile.gridPosition.row));
+
+  return Object.fromEntries(
+    tiles.map(tile => [
+      tile.id,
+      edge === 'left' ? { ...tile.gridPosition, col: target } : { ...tile.gridPosition, row: target }
+    ])
+  );
+};
+
+/**
+ * Spread tiles so the empty space between neighbours is equal along the axis. The first and last
+ * tile keep their place; when the space does not divide evenly, earlier gaps get the extra cell.
+ */
+export const distributeTiles = (tiles: LessonTile[], axis: DistributeAxis): GridPositionMap => {
+  if (tiles.length < 3) return {};
+
+  const startKey = axis === 'horizontal' ? 'col' : 'row';
+  const spanKey = axis === 'horizontal' ? 'colSpan' : 'rowSpan';
+
+  const sorted = [...tiles].sort((a, b) => a.gridPosition[startKey] - b.gridPosition[startKey]);
+  const first = sorted[0].gridPosition;
+  const last = sorted[sorted.length - 1].gridPosition;
+
+  const extent = last[startKey] + last[spanKey] - first[startKey];
+  const occupied = sorted.reduce((sum, tile) => sum + tile.gridPosition[spanKey], 0);
+  const freeSpace = Math.max(0, extent - occupied);
+  const gapCount = sorted.length - 1;
+  const baseGap = Math.floor(freeSpace / gapCount);
+  let remainder = freeSpace - baseGap * gapCount;
+
+  const positions: GridPositionMap = {};
+  let cursor = first[startKey];
+
+  sorted.forEach(tile => {
+    positions[tile.id] = { ...tile.gridPosition, [startKey]: cursor };
+    cursor += tile.gridPosition[spanKey] + baseGap;
+    if (remainder > 0) {
+      cursor += 1;
+      remainder -= 1;
+    }
+  });
+
+  return positions;
+};
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { BlanksTile, CanvasSettings, GridPosition, LessonTile, TileSchema } from 'tiles-core';
+import { GridUtils, extractPlaceholdersFromTemplate } from 'tiles-core/utils';
+import { LessonContentService } from '../services/lessonContentService';
+
+export const TILE_CLIPBOARD_FORMAT = 'course-editor/tiles';
+export const TILE_CLIPBOARD_VERSION = 1;
+
+const tileClipboardSchema = z.object({
+  format: z.literal(TILE_CLIPBOARD_FORMAT),
+  version: z.literal(TILE_CLIPBOARD_VERSION),
+  sourceLessonId: z.string().optional(),
+  tiles: z.array(TileSchema).min(1)
+});
+
+export type TileClipboardPayload = z.infer<typeof tileClipboardSchema>;
+
+const createDistractorId = () => `distractor-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const serializeTilesForClipboard = (tiles: LessonTile[], sourceLessonId?: string): string => {
+  const payload: TileClipboardPayload = {
+    format: TILE_CLIPBOARD_FORMAT,
+    version: TILE_CLIPBOARD_VERSION,
+    sourceLessonId,
+    tiles
+  };
+
+  return JSON.stringify(payload);
+};
+
+/**
+ * Parse clipboard text. Returns `null` for anything that is not a tile payload
+ * (plain text copied from elsewhere is expected and not an error).
+ */
+export const parseTileClipboard = (text: string): LessonTile[] | null => {
+  if (!text || !text.trimStart().startsWith('{')) {
+    return null;
+  }
+
+  try {
+    const result = tileClipboardSchema.safeParse(JSON.parse(text));
+    return result.success ? (result.data.tiles as LessonTile[]) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Blank and auto option ids are derived from the template (the runtime recomputes them the same way),
+ * so they are rebuilt from it; distractors get fresh ids.
+ */
+const regenerateBlanksIds = (tile: BlanksTile): BlanksTile => {
+  const placeholders = extractPlaceholdersFromTemplate(tile.content.textTemplate);
+  const distractors = tile.content.options
+    .filter(option => option.isAuto !== true)
+    .map(option => ({ ...option, id: createDistractorId() }));
+
+  return {
+    ...tile,
+    content: {
+      ...tile.content,
+      blanks: placeholders.map(({ blankId, optionId }) => ({ id: blankId, correctOptionId: optionId })),
+      options: [
+        ...placeholders.map(({ optionId, answerText }) => ({ id: optionId, text: answerText, isAuto: true })),
+        ...distractors
+      ]
+    }
+  };
+};
+
+const cloneTileWithFreshIds = (tile: LessonTile, page: number): LessonTile => {
+  const now = new Date().toISOString();
+  const cloned = {
+    ...(JSON.parse(JSON.stringify(tile)) as LessonTile),
+    id: LessonContentService.createTileId(),
+    page,
+    created_at: now,
+    updated_at: now
+  };
+
+  return cloned.type === 'blanks' ? regenerateBlanksIds(cloned) : cloned;
+};
+
+/**
+ * Prepare copied tiles for insertion on `page`: new ids, and grid positions found with
+ * `GridUtils.findNextAvailablePosition` so nothing overlaps the page or the other pasted tiles.
+ * Tiles keep their original spot when it is free, which keeps layouts intact across lessons.
+ */
+export const placeClipboardTiles = (
+  tiles: LessonTile[],
+  page: number,
+  canvasSettings: CanvasSettings,
+  pageTiles: LessonTile[]
+): LessonTile[] => {
+  const obstacles = [...pageTiles];
+
+  return [...tiles]
+    .sort((a, b) => a.gridPosition.row - b.gridPosition.row || a.gridPosition.col - b.gridPosition.col)
+    .map(tile => {
+      const cloned = cloneTileWithFreshIds(tile, page);
+      const desired: GridPosition = {
+        ...cloned.gridPosition,
+        colSpan: Math.min(cloned.gridPosition.colSpan, GridUtils.GRID_COLUMNS)
+      };
+      const gridPosition = GridUtils.findNextAvailablePosition(desired, canvasSettings, obstacles);
+      const placed: LessonTile = {
+        ...cloned,
+        gridPosition,
+        position: GridUtils.gridToPixel(gridPosition, canvasSettings),
+        size: GridUtils.gridSizeToPixel(gridPosition, canvasSettings)
+      };
+
+      obstacles.push(placed);
+      return placed;
+    });
+};
@@ -3,16 +3,19 @@ import {
   LessonTile,
   TextTile,
   ImageTile,
+  InteractiveTile,
   ProgrammingTile,
   QuizTile,
   BlanksTile,
   OpenTile,
   SequencingTile,
-  PairingTile
+  PairingTile,
+  VisualizationTile,
+  BankSlotTile
 } from 'tiles-core';
 import type { TileChromeProps } from 'ui-primitives';
 import { TileChrome, TaskInstructionPanel } from 'ui-primitives';
-import { TextTileView, ImageTileView, ProgrammingTileView } from './views';
+import { TextTileView, ImageTileView, VisualizationTileView, BankSlotTileView } from './views';
 import {
   getReadableTextColor,
   surfaceColor,
@@ -23,6 +26,8 @@ import { BlanksInteractive } from './blanks';
 import { OpenInteractive } from './open';
 import { SequencingInteractive } from './sequencing';
 import { PairingInteractive } from './pairing';
+import { ProgrammingTileInteractive } from './programming';
+import { InteractiveTileInteractive } from './interactive';
 
 type RuntimeMode = 'preview' | 'student';
 
@@ -51,6 +56,16 @@ export const RuntimeTileRenderer: React.FC<RuntimeTileRendererProps> = ({ tile,
       return <TextTileView tile={tile as TextTile} />;
     case 'image':
       return <ImageTileView tile={tile as ImageTile} />;
+    case 'visualization':
+      return <VisualizationTileView tile={tile as VisualizationTile} />;
+    case 'bank-slot':
+      // Slots are replaced before the lesson is played; one left here had nothing to draw.
+      return (
+        <BankSlotTileView
+          tile={tile as BankSlotTile}
+          description="Brak pytania do wylosowania: bank nie istnieje lub ma za mało pytań."
+        />
+      );
     case 'quiz':
       return (
         <TileChrome {...deriveChromeAppearance(tile)}>
@@ -93,8 +108,18 @@ export const RuntimeTileRenderer: React.FC<RuntimeTileRendererProps> = ({ tile,
           <PairingInteractive tile={tile as PairingTile} isPreview />
         </TileChrome>
       );
+    case 'interactive':
+      return (
+        <TileChrome {...deriveChromeAppearance(tile)}>
+          <InteractiveTileInteractive tile={tile as InteractiveTile} isPreview={mode !== 'student'} />
+        </TileChrome>
+      );
     case 'programming':
-      return <ProgrammingTileView tile={tile as ProgrammingTile} />;
+      return (
+        <TileChrome {...deriveChromeAppearance(tile)}>
+          <ProgrammingTileInteractive tile={tile as ProgrammingTile} isPreview={mode !== 'student'} />
+        </TileChrome>
+      );
     default:
       return (
         <TileChrome {...deriveChromeAppearance(tile)} contentClassName="flex items-center justify-center">
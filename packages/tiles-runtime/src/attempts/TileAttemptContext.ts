@@ -0,0 +1,79 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import {
+  AnswerableTileType,
+  RestoredTileState,
+  TileAnswer,
+  TileAnswerChange,
+  TileAttempt,
+  TileAttemptResult,
+  TileProgress,
+  createTileAttempt,
+  restoreTileState
+} from 'tiles-core';
+
+export interface TileAttemptListener {
+  onAnswerChange?: (change: TileAnswerChange) => void;
+  onAttempt?: (attempt: TileAttempt) => void;
+  getTileProgress?: (tileId: string) => TileProgress | undefined;
+}
+
+/**
+ * Collects answers and evaluated attempts from every runtime interactive below it.
+ * Without a provider (e.g. inside the editor) reporting is a no-op.
+ */
+export const TileAttemptContext = createContext<TileAttemptListener | null>(null);
+
+/**
+ * Reporting handle for a single tile. The first answer passed to `reportAnswer` is taken as
+ * the untouched starting state and is not emitted; later calls are emitted only when the
+ * answer actually changed, so interactives can report from an effect on their answer state.
+ *
+ * `restored` is the tile's saved state, read once when the tile mounts. Interactives apply it
+ * after their own reset effects so it survives the initial reset. `failedAttempts` counts wrong
+ * attempts, including restored ones, and decides which hints are shown.
+ */
+export const useTileAttemptReporter = <TType extends AnswerableTileType>(tile: { id: string; type: TType }) => {
+  const listener = useContext(TileAttemptContext);
+  const { id, type } = tile;
+  const [restored] = useState<RestoredTileState<TType> | null>(() =>
+    restoreTileState({ type }, listener?.getTileProgress?.(id))
+  );
+  const attemptCountRef = useRef(restored?.attempts ?? 0);
+  const [failedAttempts, setFailedAttempts] = useState(restored?.failedAttempts ?? 0);
+  const lastAnswerRef = useRef<string | null>(null);
+  const restoredIdRef = useRef(id);
+
+  useEffect(() => {
+    const isRestoredTile = id === restoredIdRef.current;
+    attemptCountRef.current = isRestoredTile ? restored?.attempts ?? 0 : 0;
+    setFailedAttempts(isRestoredTile ? restored?.failedAttempts ?? 0 : 0);
+    lastAnswerRef.current = null;
+  }, [id, restored]);
+
+  const reportAnswer = useCallback(
+    (answer: TileAnswer<TType>) => {
+      const serialized = JSON.stringify(answer);
+      const previous = lastAnswerRef.current;
+      lastAnswerRef.current = serialized;
+      if (previous === null || previous === serialized) return;
+
+      listener?.onAnswerChange?.({ tileId: id, tileType: type, answer } as TileAnswerChange);
+    },
+    [listener, id, type]
+  );
+
+  const reportAttempt = useCallback(
+    (answer: TileAnswer<TType>, result: TileAttemptResult): TileAttempt<TType> => {
+      attemptCountRef.current += 1;
+      const attempt = createTileAttempt({ id, type }, answer, result, attemptCountRef.current);
+      if (!attempt.isCorrect) {
+        setFailedAttempts(previous => previous + 1);
+      }
+      listener?.onAttempt?.(attempt as TileAttempt);
+      return attempt;
+    },
+    [listener, id, type]
+  );
+
+  return { reportAnswer, reportAttempt, restored, failedAttempts };
+};
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+
+export interface TileFeedbackSettings {
+  /** When false, tiles collect answers without offering a "check" button or showing results. */
+  showFeedback: boolean;
+  /** Answers can no longer be changed, e.g. after an exam was submitted. */
+  isLocked: boolean;
+}
+
+export const DEFAULT_TILE_FEEDBACK: TileFeedbackSettings = { showFeedback: true, isLocked: false };
+
+export const TileFeedbackContext = createContext<TileFeedbackSettings>(DEFAULT_TILE_FEEDBACK);
+
+export const useTileFeedback = () => useContext(TileFeedbackContext);
@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_SHUFFLE_SEED, getTileShuffleSeed } from 'tiles-core';
+
+/** Seed of the current student attempt; without a provider every viewer sees the same order. */
+export const TileShuffleContext = createContext<string>(DEFAULT_SHUFFLE_SEED);
+
+/** Seed a tile passes to `seededShuffle` for everything it shows in random order. */
+export const useTileShuffleSeed = (tileId: string) => getTileShuffleSeed(useContext(TileShuffleContext), tileId);
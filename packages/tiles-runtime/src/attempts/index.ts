@@ -0,0 +1,3 @@
+export * from './TileAttemptContext';
+export * from './TileFeedbackContext';
+export * from './TileShuffleContext';
@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { RefreshCw, Sparkles, Puzzle, RotateCcw } from 'lucide-react';
-import { BlanksTile } from 'tiles-core';
+import { BlanksTile, getTileFeedback, scoreTileAnswer, seededShuffle } from 'tiles-core';
 import {
   createBlankId,
   createPlaceholderRegex,
@@ -9,12 +9,15 @@ import {
   surfaceColor
 } from 'tiles-core/utils';
 import {
+  MathText,
   TaskInstructionPanel,
   TaskTileSection,
   TileInstructionContent,
   ValidateButton,
   type ValidateButtonState
 } from 'ui-primitives';
+import { useTileAttemptReporter, useTileFeedback, useTileShuffleSeed } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
 interface BlanksInteractiveProps {
   tile: BlanksTile;
@@ -71,9 +74,13 @@ const parseTemplate = (template: string): Segment[] => {
   return segments;
 };
 
-const mapTextToNodes = (text: string): React.ReactNode =>
+const mapTextToNodes = (text: string, renderMath: boolean): React.ReactNode =>
   text.split(/(\n)/g).map((part, index) =>
-    part === '\n' ? <br key={`br-${index}`} /> : <span key={`segment-${index}`}>{part}</span>
+    part === '\n' ? (
+      <br key={`br-${index}`} />
+    ) : (
+      <MathText key={`segment-${index}`} text={part} enabled={renderMath} />
+    )
   );
 
 export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
@@ -88,8 +95,16 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
   const [attempts, setAttempts] = useState(0);
   const [draggedOptionId, setDraggedOptionId] = useState<string | null>(null);
   const [activeBlankId, setActiveBlankId] = useState<string | null>(null);
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+
+  useEffect(() => {
+    reportAnswer({ placements });
+  }, [reportAnswer, placements]);
 
   const accentColor = tile.content.backgroundColor || '#0f172a';
+  const renderMath = tile.content.renderMath ?? false;
   const textColor = useMemo(() => getReadableTextColor(accentColor), [accentColor]);
   const {
     panelBackground,
@@ -137,14 +152,27 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
     resetPlacements();
   }, [resetPlacements]);
 
+  useEffect(() => {
+    if (!restored) return;
+    setPlacements(prev => ({ ...prev, ...restored.answer.placements }));
+    setEvaluation(restored.evaluation);
+    setAttempts(restored.attempts);
+  }, [restored]);
+
+  const shuffleSeed = useTileShuffleSeed(tile.id);
+  const orderedOptions = useMemo(
+    () => (tile.content.shuffleOptions ? seededShuffle(tile.content.options, shuffleSeed) : tile.content.options),
+    [shuffleSeed, tile.content.options, tile.content.shuffleOptions]
+  );
+
   const availableOptions = useMemo(() => {
     const usedIds = new Set(
       Object.values(placements).filter((value): value is string => value !== null)
     );
-    return tile.content.options.filter(option => !usedIds.has(option.id));
-  }, [placements, tile.content.options]);
+    return orderedOptions.filter(option => !usedIds.has(option.id));
+  }, [placements, orderedOptions]);
 
-  const isInteractionEnabled = !isPreview;
+  const isInteractionEnabled = !isPreview && !isLocked;
   const isComplete = useMemo(
     () => tile.content.blanks.every(blank => placements[blank.id]),
     [placements, tile.content.blanks]
@@ -244,13 +272,10 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
   const handleCheck = () => {
     if (!isInteractionEnabled) return;
     setAttempts(prev => prev + 1);
-    if (!isComplete) {
-      setEvaluation('error');
-      return;
-    }
-
-    const isCorrect = tile.content.blanks.every(blank => placements[blank.id] === blank.correctOptionId);
-    setEvaluation(isCorrect ? 'success' : 'error');
+    // Incomplete answers still earn credit for the blanks that are filled in correctly.
+    const result = scoreTileAnswer(tile, { placements });
+    setEvaluation(isComplete && result.isCorrect ? 'success' : 'error');
+    reportAttempt({ placements }, result);
   };
 
   const handleRetry = useCallback(() => {
@@ -304,7 +329,7 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
             onDragStart={(event) => option && handleDragStartFromBlank(event as React.DragEvent<HTMLDivElement>, blankId, option.id)}
             onDragEnd={handleDragEnd}
           >
-            <span>{option.text}</span>
+            <MathText text={option.text} enabled={renderMath} />
           </div>
         ) : (
           <span className="text-xs" style={{ color: textColor === '#0f172a' ? '#475569' : '#e2e8f0' }}>
@@ -368,7 +393,7 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
           >
             {segments.map((segment, index) => (
               segment.type === 'text'
-                ? <React.Fragment key={`text-${index}`}>{mapTextToNodes(segment.value)}</React.Fragment>
+                ? <React.Fragment key={`text-${index}`}>{mapTextToNodes(segment.value, renderMath)}</React.Fragment>
                 : <React.Fragment key={`blank-${segment.id}-${index}`}>{renderBlank(segment.id)}</React.Fragment>
           ))}
           </TaskTileSection>
@@ -419,7 +444,7 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
                     }}
                     disabled={!isInteractionEnabled}
                   >
-                    {option.text}
+                    <MathText text={option.text} enabled={renderMath} />
                   </button>
                 ))
               )}
@@ -427,14 +452,20 @@ export const BlanksInteractive: React.FC<BlanksInteractiveProps> = ({
           </TaskTileSection>
         </div>
 
-        <div className="flex flex-col items-center gap-2 pt-2">
-          <ValidateButton
-            state={validationState}
-            disabled={!isInteractionEnabled || !isComplete}
-            onClick={handleCheck}
-            onRetry={handleRetry}
-          />
-        </div>
+        {showFeedback && isInteractionEnabled && (
+          <TileFeedbackPanel evaluation={validationState} feedback={feedback} failedAttempts={failedAttempts} />
+        )}
+
+        {showFeedback && (
+          <div className="flex flex-col items-center gap-2 pt-2">
+            <ValidateButton
+              state={validationState}
+              disabled={!isInteractionEnabled || !isComplete}
+              onClick={handleCheck}
+              onRetry={handleRetry}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
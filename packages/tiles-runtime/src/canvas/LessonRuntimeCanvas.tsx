@@ -1,13 +1,32 @@
-import React from 'react';
-import { CanvasSettings, LessonTile } from 'tiles-core';
+import React, { useMemo } from 'react';
+import { CanvasSettings, DEFAULT_SHUFFLE_SEED, LessonTile, TileAnswerChange, TileAttempt, TileProgress } from 'tiles-core';
 import { GridUtils } from 'tiles-core/utils';
 import { TileContainer } from 'ui-primitives';
 import { RuntimeTileRenderer } from '../RuntimeTileRenderer';
+import {
+  TileAttemptContext,
+  TileAttemptListener,
+  TileFeedbackContext,
+  TileFeedbackSettings,
+  TileShuffleContext
+} from '../attempts';
 
 interface LessonRuntimeCanvasProps {
   tiles: LessonTile[];
   canvasSettings: CanvasSettings;
   mode?: 'preview' | 'student';
+  /** Called whenever a student changes an answer on any tile. */
+  onAnswerChange?: (change: TileAnswerChange) => void;
+  /** Called with every evaluated attempt ("check answer") on any tile. */
+  onAttempt?: (attempt: TileAttempt) => void;
+  /** Saved progress a tile restores its answer from when it mounts. */
+  getTileProgress?: (tileId: string) => TileProgress | undefined;
+  /** `deferred` hides per-tile checking, e.g. in an exam graded only after submission. */
+  feedback?: 'immediate' | 'deferred';
+  /** Prevents any further changes to the answers. */
+  isLocked?: boolean;
+  /** Seeds shuffled answers and options; see `createShuffleSeed`. */
+  shuffleSeed?: string;
 }
 
 const getGridColumns = (canvasSettings: CanvasSettings): number => {
@@ -18,7 +37,22 @@ export const LessonRuntimeCanvas: React.FC<LessonRuntimeCanvasProps> = ({
   tiles,
   canvasSettings,
   mode = 'preview',
+  onAnswerChange,
+  onAttempt,
+  getTileProgress,
+  feedback = 'immediate',
+  isLocked = false,
+  shuffleSeed = DEFAULT_SHUFFLE_SEED,
 }) => {
+  const attemptListener = useMemo<TileAttemptListener>(
+    () => ({ onAnswerChange, onAttempt, getTileProgress }),
+    [onAnswerChange, onAttempt, getTileProgress]
+  );
+  const feedbackSettings = useMemo<TileFeedbackSettings>(
+    () => ({ showFeedback: feedback === 'immediate', isLocked }),
+    [feedback, isLocked]
+  );
+
   const columns = Math.max(getGridColumns(canvasSettings), 1);
   const rows = Math.max(canvasSettings.height, 1);
   const cellSize = canvasSettings.gridSize;
@@ -28,41 +62,47 @@ export const LessonRuntimeCanvas: React.FC<LessonRuntimeCanvasProps> = ({
   const canvasMinHeight = rows * cellSize + (rows - 1) * gap;
 
   return (
-    <div className="w-full rounded-3xl bg-slate-50 p-6 border border-slate-200 shadow-inner">
-      <div
-        className="mx-auto"
-        style={{
-          width: canvasWidth,
-          minHeight: canvasMinHeight,
-        }}
-      >
-        <div
-          style={{
-            display: 'grid',
-            gridTemplateColumns: `repeat(${columns}, ${cellSize}px)`,
-            gridAutoRows: `${cellSize}px`,
-            gap: `${gap}px`,
-          }}
-        >
-          {tiles.map(tile => {
-            const { col, row, colSpan, rowSpan } = tile.gridPosition;
-
-            return (
-              <TileContainer
-                key={tile.id}
-                className="relative flex"
+    <TileAttemptContext.Provider value={attemptListener}>
+      <TileFeedbackContext.Provider value={feedbackSettings}>
+        <TileShuffleContext.Provider value={shuffleSeed}>
+          <div className="w-full rounded-3xl bg-slate-50 p-6 border border-slate-200 shadow-inner">
+            <div
+              className="mx-auto"
+              style={{
+                width: canvasWidth,
+                minHeight: canvasMinHeight,
+              }}
+            >
+              <div
                 style={{
-                  gridColumn: `${col + 1} / span ${Math.max(colSpan, 1)}`,
-                  gridRow: `${row + 1} / span ${Math.max(rowSpan, 1)}`,
+                  display: 'grid',
+                  gridTemplateColumns: `repeat(${columns}, ${cellSize}px)`,
+                  gridAutoRows: `${cellSize}px`,
+                  gap: `${gap}px`,
                 }}
               >
-                <RuntimeTileRenderer tile={tile} mode={mode} />
-              </TileContainer>
-            );
-          })}
-        </div>
-      </div>
-    </div>
+                {tiles.map(tile => {
+                  const { col, row, colSpan, rowSpan } = tile.gridPosition;
+
+                  return (
+                    <TileContainer
+                      key={tile.id}
+                      className="relative flex"
+                      style={{
+                        gridColumn: `${col + 1} / span ${Math.max(colSpan, 1)}`,
+                        gridRow: `${row + 1} / span ${Math.max(rowSpan, 1)}`,
+                      }}
+                    >
+                      <RuntimeTileRenderer tile={tile} mode={mode} />
+                    </TileContainer>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </TileShuffleContext.Provider>
+      </TileFeedbackContext.Provider>
+    </TileAttemptContext.Provider>
   );
 };
 
@@ -0,0 +1,70 @@
+import React from 'react';
+import { CheckCircle2, Lightbulb, XCircle } from 'lucide-react';
+import { DEFAULT_FEEDBACK_MESSAGES, TileFeedback, getUnlockedHints, hasRichTextContent } from 'tiles-core';
+import { TileInstructionContent, type ValidateButtonState } from 'ui-primitives';
+
+interface TileFeedbackPanelProps {
+  evaluation: ValidateButtonState;
+  feedback: TileFeedback;
+  failedAttempts: number;
+  /** Plain-text messages used when the author left the matching message empty. */
+  fallbackMessages?: { correct: string; incorrect: string };
+  className?: string;
+}
+
+/**
+ * Result message after checking an answer, followed by the hints unlocked by wrong
+ * attempts. Hints are hidden once the answer is correct.
+ */
+export const TileFeedbackPanel: React.FC<TileFeedbackPanelProps> = ({
+  evaluation,
+  feedback,
+  failedAttempts,
+  fallbackMessages = DEFAULT_FEEDBACK_MESSAGES,
+  className = ''
+}) => {
+  const hints = evaluation === 'success' ? [] : getUnlockedHints(feedback, failedAttempts);
+  if (evaluation === 'idle' && hints.length === 0) return null;
+
+  const isCorrect = evaluation === 'success';
+  const message = isCorrect ? feedback.correct : feedback.incorrect;
+
+  return (
+    <div className={`flex flex-col gap-2 ${className}`.trim()}>
+      {evaluation !== 'idle' && (
+        <div
+          className={`flex items-start gap-2 rounded-xl px-4 py-3 text-sm font-medium ${
+            isCorrect ? 'bg-emerald-100 text-emerald-800' : 'bg-rose-100 text-rose-700'
+          }`}
+          role="status"
+        >
+          <span className="flex-shrink-0 mt-0.5">
+            {isCorrect ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+          </span>
+          {hasRichTextContent(message) ? (
+            <TileInstructionContent html={message} className="text-sm" />
+          ) : (
+            <span>{isCorrect ? fallbackMessages.correct : fallbackMessages.incorrect}</span>
+          )}
+        </div>
+      )}
+
+      {hints.map((hint, index) => (
+        <div
+          key={hint.id}
+          className="flex items-start gap-2 rounded-xl px-4 py-3 text-sm bg-amber-50 text-amber-900 border border-amber-200"
+        >
+          <Lightbulb className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div className="flex flex-col gap-1 min-w-0">
+            <span className="text-xs font-semibold uppercase tracking-[0.18em] text-amber-700">
+              Wskazówka {hints.length > 1 ? index + 1 : ''}
+            </span>
+            <TileInstructionContent html={hint.text} className="text-sm" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TileFeedbackPanel;
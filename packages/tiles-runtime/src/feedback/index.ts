@@ -0,0 +1 @@
+export * from './TileFeedbackPanel';
@@ -1,5 +1,6 @@
 export * from './RuntimeTileRenderer';
 export * from './canvas';
+export * from './attempts';
 export * from './views';
 export * from './quiz';
 export * from './blanks';
@@ -9,3 +10,5 @@ export * from './programming';
 export * from './text';
 export * from './image';
 export * from './pairing';
+export * from './interactive';
+export * from './feedback';
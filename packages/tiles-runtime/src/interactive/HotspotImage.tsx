@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InteractiveHotspot } from 'tiles-core';
+import { useElementSize } from '../pairing/useElementSize';
+
+interface HotspotImageProps {
+  imageUrl: string;
+  imageAlt?: string;
+  hotspots: InteractiveHotspot[];
+  getHotspotStyle: (hotspot: InteractiveHotspot) => React.CSSProperties;
+  onHotspotClick?: (hotspot: InteractiveHotspot) => void;
+  /** Called with the clicked point in percent of the image size when no hotspot was hit. */
+  onImageClick?: (point: { x: number; y: number }) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Image scaled to fit its container with percentage-based hotspots laid over it. The overlay
+ * is sized to the rendered picture (not the container) so hotspots stay on the same spot of
+ * the image whatever the tile size.
+ */
+export const HotspotImage: React.FC<HotspotImageProps> = ({
+  imageUrl,
+  imageAlt,
+  hotspots,
+  getHotspotStyle,
+  onHotspotClick,
+  onImageClick,
+  disabled = false,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const container = useElementSize(containerRef);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    setNaturalSize(null);
+    setHasError(false);
+  }, [imageUrl]);
+
+  const scale =
+    naturalSize && container.w > 0 && container.h > 0
+      ? Math.min(container.w / naturalSize.width, container.h / naturalSize.height)
+      : 0;
+  const frameWidth = naturalSize ? naturalSize.width * scale : 0;
+  const frameHeight = naturalSize ? naturalSize.height * scale : 0;
+
+  const handleImageClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || !onImageClick || event.target !== event.currentTarget.firstChild) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+    onImageClick({
+      x: ((event.clientX - rect.left) / rect.width) * 100,
+      y: ((event.clientY - rect.top) / rect.height) * 100
+    });
+  };
+
+  // The measured container is always rendered so its size is known once an image appears.
+  return (
+    <div ref={containerRef} className={`relative flex h-full w-full items-center justify-center ${className ?? ''}`}>
+      {!imageUrl.trim() || hasError ? (
+        <div className="flex h-full w-full items-center justify-center rounded-xl border border-dashed text-sm opacity-70">
+          {hasError ? 'Nie udało się wczytać obrazu.' : 'Dodaj obraz w panelu edycji.'}
+        </div>
+      ) : (
+        <div
+          className="relative"
+          style={{ width: frameWidth || undefined, height: frameHeight || undefined }}
+          onClick={handleImageClick}
+        >
+          <img
+            src={imageUrl}
+            alt={imageAlt ?? ''}
+            draggable={false}
+            className={`block h-full w-full select-none rounded-lg ${onImageClick && !disabled ? 'cursor-crosshair' : ''}`}
+            style={naturalSize ? undefined : { visibility: 'hidden', position: 'absolute' }}
+            onLoad={(event) => {
+              const image = event.currentTarget;
+              setNaturalSize({ width: image.naturalWidth || 1, height: image.naturalHeight || 1 });
+            }}
+            onError={() => setHasError(true)}
+          />
+          {naturalSize &&
+            hotspots.map(hotspot => (
+              <button
+                key={hotspot.id}
+                type="button"
+                onClick={() => onHotspotClick?.(hotspot)}
+                disabled={disabled || !onHotspotClick}
+                className="absolute rounded-md transition-colors duration-150 disabled:cursor-default"
+                style={{
+                  left: `${hotspot.x}%`,
+                  top: `${hotspot.y}%`,
+                  width: `${hotspot.width}%`,
+                  height: `${hotspot.height}%`,
+                  ...getHotspotStyle(hotspot)
+                }}
+                aria-label={hotspot.label || 'Obszar'}
+                title={hotspot.label || undefined}
+              />
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HotspotImage;
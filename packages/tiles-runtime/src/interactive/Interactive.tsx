@@ -0,0 +1,416 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle2, Circle, Hash, Move, MousePointerClick, ListChecks, XCircle } from 'lucide-react';
+import {
+  InteractiveAnswer,
+  InteractiveClickData,
+  InteractiveDragDropData,
+  InteractiveHotspot,
+  InteractiveInputData,
+  InteractiveQuizData,
+  InteractiveTile,
+  getTileFeedback,
+  scoreTileAnswer
+} from 'tiles-core';
+import { TaskInstructionPanel, ValidateButton, type ValidateButtonState } from 'ui-primitives';
+import { HotspotImage } from './HotspotImage';
+import { useTileAttemptReporter, useTileFeedback } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
+
+interface InteractiveTileInteractiveProps {
+  tile: InteractiveTile;
+  isPreview?: boolean;
+  /** Outline every hotspot and show the expected answer, for authors. */
+  revealAnswers?: boolean;
+}
+
+type Placements = Record<string, string | null>;
+
+const TEXT_COLOR = '#0f172a';
+const MUTED_TEXT_COLOR = '#475569';
+const PANEL_BACKGROUND = '#f1f5f9';
+const PANEL_BORDER = '#e2e8f0';
+const CORRECT_BACKGROUND = 'rgba(34, 197, 94, 0.18)';
+const CORRECT_BORDER = 'rgba(34, 197, 94, 0.6)';
+const INCORRECT_BACKGROUND = 'rgba(248, 113, 113, 0.2)';
+const INCORRECT_BORDER = 'rgba(248, 113, 113, 0.75)';
+const SELECTED_BACKGROUND = 'rgba(59, 130, 246, 0.18)';
+const SELECTED_BORDER = 'rgba(59, 130, 246, 0.8)';
+
+const INTERACTION_ICONS: Record<InteractiveTile['content']['interactionType'], React.ReactNode> = {
+  quiz: <ListChecks className="w-4 h-4" />,
+  'drag-drop': <Move className="w-4 h-4" />,
+  click: <MousePointerClick className="w-4 h-4" />,
+  input: <Hash className="w-4 h-4" />
+};
+
+const DRAG_DATA_TYPE = 'application/x-interactive-item';
+
+export const InteractiveTileInteractive: React.FC<InteractiveTileInteractiveProps> = ({
+  tile,
+  isPreview = false,
+  revealAnswers = false
+}) => {
+  const { content } = tile;
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [placements, setPlacements] = useState<Placements>({});
+  const [pickedItemId, setPickedItemId] = useState<string | null>(null);
+  const [numericAnswer, setNumericAnswer] = useState('');
+  const [evaluation, setEvaluation] = useState<ValidateButtonState>('idle');
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked: areAnswersLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+
+  const answer = useMemo<InteractiveAnswer>(() => {
+    switch (content.interactionType) {
+      case 'quiz':
+      case 'click':
+        return { interactionType: content.interactionType, selectedIds };
+      case 'drag-drop':
+        return { interactionType: 'drag-drop', placements };
+      case 'input':
+        return { interactionType: 'input', value: numericAnswer };
+    }
+  }, [content.interactionType, numericAnswer, placements, selectedIds]);
+
+  useEffect(() => {
+    reportAnswer(answer);
+  }, [reportAnswer, answer]);
+
+  const resetAnswer = () => {
+    setSelectedIds([]);
+    setPlacements({});
+    setPickedItemId(null);
+    setNumericAnswer('');
+    setEvaluation('idle');
+  };
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setPlacements({});
+    setPickedItemId(null);
+    setNumericAnswer('');
+    setEvaluation('idle');
+  }, [content.interactionType, content.data]);
+
+  useEffect(() => {
+    if (!restored) return;
+
+    const saved = restored.answer;
+    if (saved.interactionType === 'drag-drop') setPlacements(saved.placements);
+    else if (saved.interactionType === 'input') setNumericAnswer(saved.value);
+    else setSelectedIds(saved.selectedIds);
+    setEvaluation(restored.evaluation);
+  }, [restored]);
+
+  const isInteractionEnabled = !isPreview && !areAnswersLocked;
+  const isLocked = !isInteractionEnabled || evaluation === 'success';
+
+  const markChanged = () => {
+    if (evaluation !== 'idle') setEvaluation('idle');
+  };
+
+  const toggleSelection = (id: string, multiple: boolean) => {
+    if (isLocked) return;
+    markChanged();
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(value => value !== id);
+      return multiple ? [...prev, id] : [id];
+    });
+  };
+
+  const placeItem = (itemId: string, targetId: string | null) => {
+    if (isLocked) return;
+    markChanged();
+    setPlacements(prev => ({ ...prev, [itemId]: targetId }));
+    setPickedItemId(null);
+  };
+
+  const hasAnswer = (() => {
+    switch (content.interactionType) {
+      case 'quiz':
+      case 'click':
+        return selectedIds.length > 0;
+      case 'drag-drop':
+        return Object.values(placements).some(Boolean);
+      case 'input':
+        return numericAnswer.trim().length > 0;
+    }
+  })();
+
+  const handleValidate = () => {
+    if (!isInteractionEnabled || !hasAnswer) return;
+
+    const result = scoreTileAnswer(tile, answer);
+    setEvaluation(result.isCorrect ? 'success' : 'error');
+    reportAttempt(answer, result);
+  };
+
+  const renderQuiz = (data: InteractiveQuizData) => {
+    const correctCount = data.options.filter(option => option.isCorrect).length;
+    const multiple = data.multipleCorrect || correctCount > 1;
+
+    return (
+      <div className="flex flex-col gap-2 overflow-auto">
+        {data.options.map(option => {
+          const isSelected = selectedIds.includes(option.id);
+          const showCorrect = evaluation !== 'idle' && option.isCorrect;
+          const showIncorrect = evaluation === 'error' && isSelected && !option.isCorrect;
+          const Icon = showIncorrect ? XCircle : showCorrect || isSelected ? CheckCircle2 : Circle;
+
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => toggleSelection(option.id, multiple)}
+              disabled={isLocked}
+              className="flex items-center gap-3 w-full rounded-xl border px-4 py-3 text-left text-sm font-medium transition-colors disabled:cursor-default"
+              style={{
+                backgroundColor: showCorrect
+                  ? CORRECT_BACKGROUND
+                  : showIncorrect
+                    ? INCORRECT_BACKGROUND
+                    : isSelected
+                      ? SELECTED_BACKGROUND
+                      : '#ffffff',
+                borderColor: showCorrect
+                  ? CORRECT_BORDER
+                  : showIncorrect
+                    ? INCORRECT_BORDER
+                    : isSelected
+                      ? SELECTED_BORDER
+                      : PANEL_BORDER
+              }}
+            >
+              <Icon
+                className="w-5 h-5 flex-shrink-0"
+                style={{ color: showCorrect ? '#16a34a' : showIncorrect ? '#dc2626' : TEXT_COLOR }}
+              />
+              {option.text}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const getHotspotStyle = (hotspot: InteractiveHotspot): React.CSSProperties => {
+    const isSelected = selectedIds.includes(hotspot.id);
+
+    if (revealAnswers) {
+      return {
+        border: `2px dashed ${hotspot.isCorrect ? CORRECT_BORDER : SELECTED_BORDER}`,
+        backgroundColor: hotspot.isCorrect ? CORRECT_BACKGROUND : 'transparent'
+      };
+    }
+    if (evaluation !== 'idle' && hotspot.isCorrect) {
+      return { border: `2px solid ${CORRECT_BORDER}`, backgroundColor: CORRECT_BACKGROUND };
+    }
+    if (evaluation === 'error' && isSelected) {
+      return { border: `2px solid ${INCORRECT_BORDER}`, backgroundColor: INCORRECT_BACKGROUND };
+    }
+    return isSelected
+      ? { border: `2px solid ${SELECTED_BORDER}`, backgroundColor: SELECTED_BACKGROUND }
+      : { border: '2px solid transparent' };
+  };
+
+  const renderClick = (data: InteractiveClickData) => {
+    const multiple = data.hotspots.filter(hotspot => hotspot.isCorrect).length > 1;
+
+    return (
+      <div className="flex min-h-0 flex-1 flex-col gap-2">
+        <HotspotImage
+          className="min-h-0 flex-1"
+          imageUrl={data.imageUrl}
+          imageAlt={data.imageAlt}
+          hotspots={data.hotspots}
+          getHotspotStyle={getHotspotStyle}
+          onHotspotClick={hotspot => toggleSelection(hotspot.id, multiple)}
+          disabled={isLocked}
+        />
+        {multiple && (
+          <p className="text-xs text-center" style={{ color: MUTED_TEXT_COLOR }}>
+            Zaznacz wszystkie pasujące miejsca.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderDragDrop = (data: InteractiveDragDropData) => {
+    const unplaced = data.items.filter(item => !placements[item.id]);
+
+    const renderItem = (item: (typeof data.items)[number]) => {
+      const targetId = placements[item.id];
+      const showIncorrect = evaluation === 'error' && !!targetId && targetId !== item.targetId;
+      const showCorrect = evaluation !== 'idle' && !!targetId && targetId === item.targetId;
+
+      return (
+        <button
+          key={item.id}
+          type="button"
+          draggable={!isLocked}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(DRAG_DATA_TYPE, item.id);
+            event.dataTransfer.effectAllowed = 'move';
+          }}
+          onClick={(event) => {
+            event.stopPropagation();
+            if (isLocked) return;
+            setPickedItemId(prev => (prev === item.id ? null : item.id));
+          }}
+          disabled={isLocked}
+          className="rounded-lg border px-3 py-1.5 text-sm font-medium shadow-sm transition-colors disabled:cursor-default"
+          style={{
+            cursor: isLocked ? 'default' : 'grab',
+            backgroundColor: showCorrect ? CORRECT_BACKGROUND : showIncorrect ? INCORRECT_BACKGROUND : '#ffffff',
+            borderColor:
+              pickedItemId === item.id
+                ? SELECTED_BORDER
+                : showCorrect
+                  ? CORRECT_BORDER
+                  : showIncorrect
+                    ? INCORRECT_BORDER
+                    : PANEL_BORDER
+          }}
+        >
+          {item.text}
+        </button>
+      );
+    };
+
+    const dropZoneProps = (targetId: string | null) => ({
+      onDragOver: (event: React.DragEvent) => {
+        if (isLocked || !event.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+        event.preventDefault();
+      },
+      onDrop: (event: React.DragEvent) => {
+        const itemId = event.dataTransfer.getData(DRAG_DATA_TYPE);
+        if (!itemId) return;
+        event.preventDefault();
+        placeItem(itemId, targetId);
+      },
+      onClick: () => {
+        if (pickedItemId) placeItem(pickedItemId, targetId);
+      }
+    });
+
+    return (
+      <div className="flex min-h-0 flex-1 flex-col gap-3 overflow-auto">
+        <div
+          className="flex min-h-[3rem] flex-wrap gap-2 rounded-xl border border-dashed p-3"
+          style={{ borderColor: PANEL_BORDER, backgroundColor: PANEL_BACKGROUND }}
+          {...dropZoneProps(null)}
+        >
+          {unplaced.length ? (
+            unplaced.map(renderItem)
+          ) : (
+            <span className="text-xs" style={{ color: MUTED_TEXT_COLOR }}>
+              Wszystkie elementy zostały przydzielone.
+            </span>
+          )}
+        </div>
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(3, Math.max(1, data.targets.length))}, minmax(0, 1fr))` }}>
+          {data.targets.map(target => (
+            <div
+              key={target.id}
+              className="flex min-h-[5rem] flex-col gap-2 rounded-xl border p-3"
+              style={{ borderColor: pickedItemId ? SELECTED_BORDER : PANEL_BORDER }}
+              {...dropZoneProps(target.id)}
+            >
+              <span className="text-xs font-semibold uppercase tracking-wide" style={{ color: MUTED_TEXT_COLOR }}>
+                {target.label}
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {data.items.filter(item => placements[item.id] === target.id).map(renderItem)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderInput = (data: InteractiveInputData) => (
+    <div className="flex flex-col items-center gap-2 py-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={numericAnswer}
+          onChange={(event) => {
+            markChanged();
+            setNumericAnswer(event.target.value);
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') handleValidate();
+          }}
+          disabled={isLocked}
+          className="w-40 rounded-xl border px-4 py-2 text-center text-lg font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+          style={{
+            borderColor:
+              evaluation === 'success' ? CORRECT_BORDER : evaluation === 'error' ? INCORRECT_BORDER : PANEL_BORDER
+          }}
+          placeholder="Twoja odpowiedź"
+          aria-label="Odpowiedź liczbowa"
+        />
+        {data.unit ? <span className="text-base font-medium">{data.unit}</span> : null}
+      </div>
+      {revealAnswers && (
+        <p className="text-xs" style={{ color: MUTED_TEXT_COLOR }}>
+          Poprawna odpowiedź: {data.correctValue}
+          {data.tolerance > 0 ? ` ± ${data.tolerance}` : ''}
+          {data.unit ? ` ${data.unit}` : ''}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderBody = () => {
+    switch (content.interactionType) {
+      case 'quiz':
+        return renderQuiz(content.data);
+      case 'click':
+        return renderClick(content.data);
+      case 'drag-drop':
+        return renderDragDrop(content.data);
+      case 'input':
+        return renderInput(content.data);
+    }
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <div className="w-full h-full flex flex-col gap-4 p-6 overflow-hidden" style={{ color: TEXT_COLOR }}>
+        <TaskInstructionPanel
+          icon={INTERACTION_ICONS[content.interactionType]}
+          label={content.title || 'Zadanie'}
+          className="border"
+          style={{ backgroundColor: PANEL_BACKGROUND, borderColor: PANEL_BORDER, color: TEXT_COLOR }}
+          iconWrapperClassName="w-9 h-9 rounded-xl flex items-center justify-center shadow-sm bg-white"
+          labelStyle={{ color: MUTED_TEXT_COLOR }}
+        >
+          {content.description ? <p className="m-0 text-base leading-relaxed">{content.description}</p> : null}
+        </TaskInstructionPanel>
+
+        <div className="flex min-h-0 flex-1 flex-col">{renderBody()}</div>
+
+        {showFeedback && isInteractionEnabled && (
+          <TileFeedbackPanel evaluation={evaluation} feedback={feedback} failedAttempts={failedAttempts} />
+        )}
+
+        {showFeedback && (
+          <div className="flex flex-col items-center gap-2">
+            <ValidateButton
+              state={evaluation}
+              disabled={!isInteractionEnabled || !hasAnswer}
+              onClick={handleValidate}
+              onRetry={resetAnswer}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InteractiveTileInteractive;
@@ -0,0 +1,2 @@
+export * from './Interactive';
+export * from './HotspotImage';
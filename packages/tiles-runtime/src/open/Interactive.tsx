@@ -1,6 +1,13 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { FileText, Paperclip, Download, PencilLine } from 'lucide-react';
-import { OpenTile } from 'tiles-core';
+import {
+  OpenAnswerMode,
+  OpenTile,
+  findMatchingOpenAnswer,
+  getTileFeedback,
+  hasRichTextContent,
+  scoreTileAnswer
+} from 'tiles-core';
 import { getReadableTextColor, surfaceColor } from 'tiles-core/utils';
 import {
   TaskInstructionPanel,
@@ -9,6 +16,8 @@ import {
   ValidateButton,
   type ValidateButtonState
 } from 'ui-primitives';
+import { useTileAttemptReporter, useTileFeedback } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
 interface OpenInteractiveProps {
   tile: OpenTile;
@@ -18,6 +27,13 @@ interface OpenInteractiveProps {
   instructionContent?: React.ReactNode;
 }
 
+const ANSWER_PLACEHOLDERS: Record<OpenAnswerMode, string> = {
+  text: 'Wpisz swoją odpowiedź w tym miejscu.',
+  numeric: 'Wpisz liczbę, np. 2,5',
+  expression: 'Wpisz wyrażenie, np. (x-2)(x+2) lub x^2 - 4',
+  list: 'Wpisz elementy oddzielone przecinkami, np. [a, b, c]'
+};
+
 export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
   tile,
   isPreview = false,
@@ -43,7 +59,14 @@ export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
   const [answer, setAnswer] = useState('');
   const [evaluation, setEvaluation] = useState<ValidateButtonState>('idle');
   const [attempts, setAttempts] = useState(0);
-  const isInteractionEnabled = !isPreview;
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+  const isInteractionEnabled = !isPreview && !isLocked;
+
+  useEffect(() => {
+    reportAnswer({ text: answer });
+  }, [reportAnswer, answer]);
 
   const handleTileDoubleClick = useCallback(() => {
     if (isPreview || isTestingMode) {
@@ -57,26 +80,22 @@ export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
     setAnswer('');
     setEvaluation('idle');
     setAttempts(0);
-  }, [tile.content.correctAnswer, tile.content.ignoreCase, tile.content.ignoreWhitespace]);
+  }, [
+    tile.content.acceptedAnswers,
+    tile.content.ignoreCase,
+    tile.content.ignoreWhitespace,
+    tile.content.answerMode,
+    tile.content.absoluteTolerance,
+    tile.content.relativeTolerance,
+    tile.content.ignoreListOrder
+  ]);
 
-  const normalizeAnswer = useCallback(
-    (value: string) => {
-      let normalized = value;
-
-      if (tile.content.ignoreWhitespace) {
-        normalized = normalized.replace(/\s+/g, '');
-      } else {
-        normalized = normalized.trim();
-      }
-
-      if (tile.content.ignoreCase) {
-        normalized = normalized.toLowerCase();
-      }
-
-      return normalized;
-    },
-    [tile.content.ignoreCase, tile.content.ignoreWhitespace]
-  );
+  useEffect(() => {
+    if (!restored) return;
+    setAnswer(restored.answer.text);
+    setEvaluation(restored.evaluation);
+    setAttempts(restored.attempts);
+  }, [restored]);
 
   const handleAnswerChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     if (!isInteractionEnabled) return;
@@ -92,16 +111,9 @@ export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
 
     setAttempts(prev => prev + 1);
 
-    const userInput = answer.trim();
-    if (!userInput) {
-      setEvaluation('error');
-      return;
-    }
-
-    const normalizedUserInput = normalizeAnswer(answer);
-    const normalizedCorrect = normalizeAnswer(tile.content.correctAnswer ?? '');
-
-    setEvaluation(normalizedUserInput === normalizedCorrect ? 'success' : 'error');
+    const result = scoreTileAnswer(tile, { text: answer });
+    setEvaluation(result.isCorrect ? 'success' : 'error');
+    reportAttempt({ text: answer }, result);
   };
 
   const handleRetry = () => {
@@ -111,9 +123,16 @@ export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
 
   const validationState: ValidateButtonState = evaluation;
 
+  // A comment written for the accepted answer the student gave replaces the general one.
+  const resultFeedback = useMemo(() => {
+    if (evaluation !== 'success') return feedback;
+    const matched = findMatchingOpenAnswer(tile.content, answer);
+    return matched && hasRichTextContent(matched.feedback) ? { ...feedback, correct: matched.feedback } : feedback;
+  }, [evaluation, feedback, tile.content, answer]);
+
   const answerPlaceholder = tile.content.expectedFormat
     ? `Oczekiwany format:\n${tile.content.expectedFormat}`
-    : 'Wpisz swoją odpowiedź w tym miejscu.';
+    : ANSWER_PLACEHOLDERS[tile.content.answerMode ?? 'text'];
 
   return (
     <div className="relative w-full h-full" onDoubleClick={handleTileDoubleClick}>
@@ -224,14 +243,20 @@ export const OpenInteractive: React.FC<OpenInteractiveProps> = ({
           </TaskTileSection>
         </div>
 
-        <div className="flex flex-col items-center gap-2 pt-2">
-          <ValidateButton
-            state={validationState}
-            disabled={!isInteractionEnabled || answer.trim().length === 0}
-            onClick={handleValidate}
-            onRetry={handleRetry}
-          />
-        </div>
+        {showFeedback && isInteractionEnabled && (
+          <TileFeedbackPanel evaluation={validationState} feedback={resultFeedback} failedAttempts={failedAttempts} />
+        )}
+
+        {showFeedback && (
+          <div className="flex flex-col items-center gap-2 pt-2">
+            <ValidateButton
+              state={validationState}
+              disabled={!isInteractionEnabled || answer.trim().length === 0}
+              onClick={handleValidate}
+              onRetry={handleRetry}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -7,9 +7,10 @@ import React, {
   useState
 } from 'react';
 import { Link2, Sparkles } from 'lucide-react';
-import { PairingTile } from 'tiles-core';
+import { PairingTile, getTileFeedback, hashString, scoreTileAnswer, seededShuffle } from 'tiles-core';
 import { createSurfacePalette, getReadableTextColor } from 'tiles-core/utils';
 import {
+  MathText,
   TaskInstructionPanel,
   TaskTileSection,
   TileInstructionContent,
@@ -18,6 +19,8 @@ import {
 } from 'ui-primitives';
 import { PairConnectionLayer, type LineColorResolver, type Temp } from './PairConnectionLayer';
 import { useElementSize } from './useElementSize';
+import { useTileAttemptReporter, useTileFeedback, useTileShuffleSeed } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
 interface PairingInteractiveProps {
   tile: PairingTile;
@@ -44,17 +47,8 @@ const COLORS = [
   '#22c55e', // green-500
 ];
 
-const hash = (s: string) => {
-  let h = 2166136261;
-  for (let i = 0; i < s.length; i++) {
-    h ^= s.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-};
-
 const seededFunColor = (leftId: string) => {
-  const idx = hash(leftId) % COLORS.length;
+  const idx = hashString(leftId) % COLORS.length;
   return COLORS[idx];
 };
 
@@ -64,32 +58,34 @@ export type ValidationResult = {
   missing: Set<string>;
 };
 
-const hashString = (value: string): number => {
-  let hash = 0;
-  for (let index = 0; index < value.length; index += 1) {
-    hash = Math.imul(31, hash) + value.charCodeAt(index);
-    hash |= 0;
-  }
-  return hash >>> 0;
-};
+const VERTICAL_GAP = 12; // px, matches gap-3
 
-const ensureDifferentOrder = (originalIds: string[], items: ShuffledItem[]): ShuffledItem[] => {
-  if (items.length <= 1) {
-    return items;
-  }
+const initialDragState: Temp = { active: false, x: 0, y: 0, leftId: null };
 
-  const isSameOrder = items.every((item, index) => item.id === originalIds[index]);
-  if (!isSameOrder) {
-    return items;
-  }
+const toConnectionList = (connections: Map<string, string>) =>
+  Array.from(connections.entries()).map(([leftId, rightId]) => ({ leftId, rightId }));
 
-  const [first, ...rest] = items;
-  return [...rest, first];
-};
+const buildValidationResult = (pairs: Array<{ id: string }>, connections: Map<string, string>): ValidationResult => {
+  const correct = new Set<string>();
+  const incorrect = new Set<string>();
+  const missing = new Set<string>();
 
-const VERTICAL_GAP = 12; // px, matches gap-3
+  pairs.forEach(pair => {
+    const linked = connections.get(pair.id);
+    if (!linked) {
+      missing.add(pair.id);
+      return;
+    }
 
-const initialDragState: Temp = { active: false, x: 0, y: 0, leftId: null };
+    if (linked === pair.id) {
+      correct.add(pair.id);
+    } else {
+      incorrect.add(pair.id);
+    }
+  });
+
+  return { correct, incorrect, missing };
+};
 
 export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
   tile,
@@ -101,12 +97,18 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
   onValidate
 }) => {
   const accentColor = tile.content.backgroundColor || '#0f172a';
+  const renderMath = tile.content.renderMath ?? false;
   const textColor = useMemo(() => getReadableTextColor(accentColor), [accentColor]);
-  const canInteract = true;
   const [connections, setConnections] = useState<Map<string, string>>(() => new Map());
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [validateState, setValidateState] = useState<ValidateButtonState>('idle');
   const [drag, setDrag] = useState<Temp>(initialDragState);
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+  const shuffleSeed = useTileShuffleSeed(tile.id);
+  const canInteract = !isLocked;
+  const restoredConnectionsRef = useRef<Map<string, string> | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const leftRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const rightRefs = useRef<Record<string, HTMLDivElement | null>>({});
@@ -184,22 +186,13 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
   const errorLineColor = '#ef4444';
 
   const shuffledRightItems = useMemo(() => {
-    const originalIds = tile.content.pairs.map(pair => pair.id);
     const items: ShuffledItem[] = tile.content.pairs.map(pair => ({
       id: pair.id,
       text: pair.right
     }));
 
-    const seededItems = items
-      .map(item => ({
-        ...item,
-        sortKey: hashString(`${tile.id}-${item.id}-${item.text}`)
-      }))
-      .sort((a, b) => a.sortKey - b.sortKey)
-      .map(({ sortKey: _sortKey, ...rest }) => rest);
-
-    return ensureDifferentOrder(originalIds, seededItems);
-  }, [tile.content.pairs, tile.id]);
+    return seededShuffle(items, shuffleSeed, { avoidOriginalOrder: true });
+  }, [shuffleSeed, tile.content.pairs]);
 
   const handleTileDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (isPreview || isTestingMode) return;
@@ -325,14 +318,14 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
   }, [drag.active, drag.leftId, canInteract, connectPair, hitTestRightId]);
 
   useEffect(() => {
-    if (!onAnswerChange) return;
-    onAnswerChange(
-      Array.from(connections.entries()).map(([leftId, rightId]) => ({ leftId, rightId }))
-    );
-  }, [connections, onAnswerChange]);
+    const connectionList = toConnectionList(connections);
+    reportAnswer({ connections: connectionList });
+    onAnswerChange?.(connectionList);
+  }, [connections, onAnswerChange, reportAnswer]);
 
   useEffect(() => {
-    if (!validationResult) {
+    // The restored answer comes with its own evaluation, which must survive this reset.
+    if (!validationResult || connections === restoredConnectionsRef.current) {
       return;
     }
     setValidationResult(null);
@@ -363,6 +356,20 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
     setValidateState('idle');
   }, [tile.content.pairs]);
 
+  useEffect(() => {
+    if (!restored) return;
+
+    const restoredConnections = new Map(
+      restored.answer.connections.map(connection => [connection.leftId, connection.rightId])
+    );
+    restoredConnectionsRef.current = restoredConnections;
+    setConnections(restoredConnections);
+    setValidationResult(
+      restored.evaluation === 'idle' ? null : buildValidationResult(tile.content.pairs, restoredConnections)
+    );
+    setValidateState(restored.evaluation);
+  }, [restored, tile.content.pairs]);
+
   const getLineColor = useCallback<LineColorResolver>(
     leftId => {
       if (!validationResult) {
@@ -383,30 +390,14 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
   );
 
   const handleValidate = useCallback(() => {
-    const correct = new Set<string>();
-    const incorrect = new Set<string>();
-    const missing = new Set<string>();
-
-    tile.content.pairs.forEach(pair => {
-      const linked = connections.get(pair.id);
-      if (!linked) {
-        missing.add(pair.id);
-        return;
-      }
-
-      if (linked === pair.id) {
-        correct.add(pair.id);
-      } else {
-        incorrect.add(pair.id);
-      }
-    });
-
-    const result: ValidationResult = { correct, incorrect, missing };
+    const result = buildValidationResult(tile.content.pairs, connections);
     setValidationResult(result);
-    const isSuccess = incorrect.size === 0 && missing.size === 0 && correct.size === pairsCount;
-    setValidateState(isSuccess ? 'success' : 'error');
+    const answer = { connections: toConnectionList(connections) };
+    const score = scoreTileAnswer(tile, answer);
+    setValidateState(score.isCorrect ? 'success' : 'error');
+    reportAttempt(answer, score);
     onValidate?.(result);
-  }, [connections, onValidate, pairsCount, tile.content.pairs]);
+  }, [connections, onValidate, reportAttempt, tile]);
 
   const handleRetry = useCallback(() => {
     setValidationResult(null);
@@ -529,7 +520,7 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
                             className="text-sm font-medium leading-snug break-words"
                             style={{ color: textColor }}
                           >
-                            {pair.left}
+                            <MathText text={pair.left} enabled={renderMath} />
                           </span>
                         </div>
                       );
@@ -567,7 +558,7 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
                             className="text-sm font-medium leading-snug break-words"
                             style={{ color: textColor }}
                           >
-                            {item.text}
+                            <MathText text={item.text} enabled={renderMath} />
                           </span>
                         </div>
                       );
@@ -579,14 +570,20 @@ export const PairingInteractive: React.FC<PairingInteractiveProps> = ({
           </div>
         </TaskTileSection>
 
-        <div className="flex items-center justify-center pt-1">
-          <ValidateButton
-            state={validateState}
-            disabled={!canInteract || pairsCount === 0}
-            onClick={handleValidate}
-            onRetry={handleRetry}
-          />
-        </div>
+        {showFeedback && canInteract && (
+          <TileFeedbackPanel evaluation={validateState} feedback={feedback} failedAttempts={failedAttempts} />
+        )}
+
+        {showFeedback && (
+          <div className="flex items-center justify-center pt-1">
+            <ValidateButton
+              state={validateState}
+              disabled={!canInteract || pairsCount === 0}
+              onClick={handleValidate}
+              onRetry={handleRetry}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
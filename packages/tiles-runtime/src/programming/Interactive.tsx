@@ -1,5 +1,291 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Code2, Play, RotateCcw, TerminalSquare } from 'lucide-react';
+import { ProgrammingTile, getTileFeedback, getTileWeight } from 'tiles-core';
+import { darkenColor, getReadableTextColor, surfaceColor } from 'tiles-core/utils';
+import {
+  TaskInstructionPanel,
+  TaskTileSection,
+  TileInstructionContent,
+  ValidateButton,
+  type ValidateButtonState
+} from 'ui-primitives';
+import {
+  SandboxOutputStream,
+  SandboxRunResult,
+  buildProgram,
+  getSharedPythonSandbox
+} from './pythonSandbox';
+import { useTileAttemptReporter, useTileFeedback } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
-export const ProgrammingTileInteractive: React.FC = () => null;
+interface ProgrammingTileInteractiveProps {
+  tile: ProgrammingTile;
+  isPreview?: boolean;
+  instructionContent?: React.ReactNode;
+}
+
+interface OutputChunk {
+  stream: SandboxOutputStream;
+  text: string;
+}
+
+const SUPPORTED_LANGUAGES = ['python'];
+
+export const ProgrammingTileInteractive: React.FC<ProgrammingTileInteractiveProps> = ({
+  tile,
+  isPreview = false,
+  instructionContent
+}) => {
+  const accentColor = tile.content.backgroundColor || '#0f172a';
+  const textColor = useMemo(() => getReadableTextColor(accentColor), [accentColor]);
+  const mutedLabelColor = textColor === '#0f172a' ? '#475569' : '#dbeafe';
+  const panelBackground = surfaceColor(accentColor, textColor, 0.6, 0.4);
+  const panelBorder = surfaceColor(accentColor, textColor, 0.5, 0.55);
+  const iconBackground = surfaceColor(accentColor, textColor, 0.52, 0.48);
+  const codeBackground = darkenColor(accentColor, textColor === '#0f172a' ? 0.6 : 0.78);
+  const codeBorder = darkenColor(accentColor, textColor === '#0f172a' ? 0.35 : 0.6);
+
+  const language = (tile.content.language || 'python').toLowerCase();
+  const isLanguageSupported = SUPPORTED_LANGUAGES.includes(language);
+
+  const [code, setCode] = useState(tile.content.code);
+  const [output, setOutput] = useState<OutputChunk[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [evaluation, setEvaluation] = useState<ValidateButtonState>('idle');
+  const isMountedRef = useRef(true);
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    setCode(tile.content.code);
+    setOutput([]);
+    setEvaluation('idle');
+  }, [tile.content.code, tile.content.startingCode, tile.content.endingCode]);
+
+  useEffect(() => {
+    if (!restored) return;
+    setCode(restored.answer.code);
+    setEvaluation(restored.evaluation);
+  }, [restored]);
+
+  useEffect(() => {
+    reportAnswer({ code });
+  }, [reportAnswer, code]);
+
+  const isInteractionEnabled = !isPreview && isLanguageSupported && !isLocked;
+
+  const runProgram = async (): Promise<SandboxRunResult | null> => {
+    if (!isInteractionEnabled || isRunning) return null;
+
+    setIsRunning(true);
+    setOutput([]);
+
+    const program = buildProgram({
+      startingCode: tile.content.startingCode,
+      code,
+      endingCode: tile.content.endingCode
+    });
+
+    const result = await getSharedPythonSandbox().run(program, {
+      onOutput: (stream, text) => {
+        if (!isMountedRef.current) return;
+        setOutput(prev => [...prev, { stream, text }]);
+      }
+    });
+
+    if (isMountedRef.current) {
+      setIsRunning(false);
+    }
+    return result;
+  };
+
+  const handleRun = () => {
+    setEvaluation('idle');
+    void runProgram();
+  };
+
+  // Validation runs the whole program; the checks (e.g. asserts) live in the author's ending code.
+  const handleValidate = async () => {
+    const result = await runProgram();
+    if (!result) return;
+    reportAttempt({ code }, { isCorrect: result.status === 'success', maxScore: getTileWeight(tile) });
+    if (!isMountedRef.current) return;
+    setEvaluation(result.status === 'success' ? 'success' : 'error');
+  };
+
+  const handleRetry = () => {
+    setEvaluation('idle');
+  };
+
+  const handleReset = () => {
+    setCode(tile.content.code);
+    setOutput([]);
+    setEvaluation('idle');
+  };
+
+  const handleCodeKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key !== 'Tab' || event.shiftKey) return;
+
+    event.preventDefault();
+    const target = event.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    const nextCode = `${code.slice(0, selectionStart)}    ${code.slice(selectionEnd)}`;
+    setCode(nextCode);
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 4;
+    });
+  };
+
+  const handleCodeChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setCode(event.target.value);
+    if (evaluation !== 'idle') {
+      setEvaluation('idle');
+    }
+  };
+
+  const renderFixedCode = (value: string | undefined, label: string) =>
+    value && value.trim() ? (
+      <pre
+        className="px-4 py-2 text-xs font-mono whitespace-pre-wrap opacity-60 border-dashed"
+        style={{ color: '#f8fafc', borderColor: codeBorder }}
+        aria-label={label}
+        title={label}
+      >
+        {value}
+      </pre>
+    ) : null;
+
+  return (
+    <div className="relative w-full h-full">
+      <div
+        className="w-full h-full flex flex-col gap-5 p-6 rounded-[inherit]"
+        style={{ color: textColor }}
+      >
+        <TaskInstructionPanel
+          icon={<span className="text-xs font-semibold">{language.toUpperCase()}</span>}
+          label="Opis zadania"
+          className="border"
+          style={{
+            backgroundColor: panelBackground,
+            borderColor: panelBorder,
+            color: textColor
+          }}
+          iconWrapperClassName="w-9 h-9 rounded-xl flex items-center justify-center shadow-sm"
+          iconWrapperStyle={{
+            backgroundColor: iconBackground,
+            color: textColor
+          }}
+          labelStyle={{ color: mutedLabelColor }}
+        >
+          {instructionContent ?? (
+            <TileInstructionContent
+              html={
+                tile.content.richDescription ||
+                `<p style="margin: 0;">${tile.content.description}</p>`
+              }
+              textColor={textColor}
+              fontFamily={tile.content.fontFamily}
+              fontSize={tile.content.fontSize}
+            />
+          )}
+        </TaskInstructionPanel>
+
+        <TaskTileSection
+          icon={<Code2 className="w-4 h-4" />}
+          title="Twój kod"
+          className="shadow-sm min-h-0 flex flex-col flex-1 overflow-hidden"
+          style={{ backgroundColor: codeBackground, borderColor: codeBorder, color: '#f8fafc' }}
+          headerClassName="px-5 py-3 border-b"
+          headerStyle={{ borderColor: codeBorder, color: '#cbd5f5' }}
+          titleStyle={{ color: '#cbd5f5' }}
+          contentClassName="flex flex-col flex-1 min-h-0 overflow-auto"
+        >
+          {renderFixedCode(tile.content.startingCode, 'Kod początkowy (tylko do odczytu)')}
+          <textarea
+            className="w-full flex-1 min-h-[6rem] resize-none bg-transparent px-4 py-3 text-sm font-mono focus:outline-none"
+            style={{ color: '#f8fafc' }}
+            value={code}
+            onChange={handleCodeChange}
+            onKeyDown={handleCodeKeyDown}
+            disabled={!isInteractionEnabled}
+            spellCheck={false}
+            aria-label="Edytor kodu"
+          />
+          {renderFixedCode(tile.content.endingCode, 'Kod końcowy (tylko do odczytu)')}
+        </TaskTileSection>
+
+        <TaskTileSection
+          icon={<TerminalSquare className="w-4 h-4" />}
+          title="Wynik"
+          className="shadow-sm min-h-0 max-h-40 flex flex-col"
+          style={{ backgroundColor: panelBackground, borderColor: panelBorder, color: textColor }}
+          headerClassName="px-5 py-3 border-b"
+          headerStyle={{ borderColor: panelBorder, color: mutedLabelColor }}
+          titleStyle={{ color: mutedLabelColor }}
+          contentClassName="flex-1 overflow-auto px-5 py-3"
+        >
+          {!isLanguageSupported ? (
+            <p className="text-sm">Uruchamianie kodu w języku „{language}” nie jest jeszcze obsługiwane.</p>
+          ) : output.length === 0 ? (
+            <p className="text-sm opacity-70">
+              {isRunning ? 'Uruchamianie…' : 'Uruchom program, aby zobaczyć jego wynik.'}
+            </p>
+          ) : (
+            <pre className="text-xs font-mono whitespace-pre-wrap" role="log">
+              {output.map((chunk, index) => (
+                <span key={index} style={chunk.stream === 'stderr' ? { color: '#dc2626' } : undefined}>
+                  {chunk.text}
+                </span>
+              ))}
+            </pre>
+          )}
+        </TaskTileSection>
+
+        {showFeedback && isInteractionEnabled && (
+          <TileFeedbackPanel evaluation={evaluation} feedback={feedback} failedAttempts={failedAttempts} />
+        )}
+
+        <div className="flex items-center justify-center gap-3 pt-1">
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={!isInteractionEnabled || isRunning}
+            className="inline-flex items-center gap-2 rounded-xl px-3 py-2 text-sm border disabled:opacity-50"
+            style={{ borderColor: panelBorder }}
+            title="Przywróć kod początkowy"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={!isInteractionEnabled || isRunning}
+            className="inline-flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-medium border disabled:opacity-50"
+            style={{ borderColor: panelBorder, backgroundColor: panelBackground }}
+          >
+            <Play className="w-4 h-4" />
+            {isRunning ? 'Uruchamianie…' : 'Uruchom'}
+          </button>
+          {showFeedback && (
+            <ValidateButton
+              state={evaluation}
+              disabled={!isInteractionEnabled || isRunning}
+              onClick={() => void handleValidate()}
+              onRetry={handleRetry}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
 export default ProgrammingTileInteractive;
@@ -1 +1,2 @@
 export * from './Interactive';
+export * from './pythonSandbox';
@@ -0,0 +1,144 @@
+import type { SandboxRunRequest, SandboxWorkerMessage } from './sandboxProtocol';
+
+export type SandboxRunStatus = 'success' | 'error' | 'timeout';
+
+export type SandboxOutputStream = 'stdout' | 'stderr';
+
+export interface SandboxRunResult {
+  status: SandboxRunStatus;
+  stdout: string;
+  stderr: string;
+  /** Execution time, not counting interpreter start-up. */
+  durationMs: number;
+}
+
+export interface SandboxRunOptions {
+  /** Maximum execution time. The worker is terminated when it runs out. Defaults to 5 seconds. */
+  timeoutMs?: number;
+  /** Called for every chunk of output while the program runs. */
+  onOutput?: (stream: SandboxOutputStream, text: string) => void;
+}
+
+export interface PythonSandbox {
+  run(code: string, options?: SandboxRunOptions): Promise<SandboxRunResult>;
+  dispose(): void;
+}
+
+export interface PythonSandboxOptions {
+  /** Time allowed for downloading and starting the interpreter. Defaults to 60 seconds. */
+  loadTimeoutMs?: number;
+}
+
+export const DEFAULT_SANDBOX_TIMEOUT_MS = 5000;
+const DEFAULT_LOAD_TIMEOUT_MS = 60000;
+
+/**
+ * Run Python code in a dedicated Web Worker. Runs are queued, one at a time. A run that exceeds
+ * its timeout terminates the worker (the only way to stop a busy loop); the next run starts a new one.
+ */
+export const createPythonSandbox = ({
+  loadTimeoutMs = DEFAULT_LOAD_TIMEOUT_MS
+}: PythonSandboxOptions = {}): PythonSandbox => {
+  let worker: Worker | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let nextRunId = 0;
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = new Worker(new URL('./pythonWorker.ts', import.meta.url), { type: 'module' });
+    }
+    return worker;
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const execute = (code: string, { timeoutMs = DEFAULT_SANDBOX_TIMEOUT_MS, onOutput }: SandboxRunOptions) =>
+    new Promise<SandboxRunResult>(resolve => {
+      const id = ++nextRunId;
+      const activeWorker = getWorker();
+      let stdout = '';
+      let stderr = '';
+      let startedAt = Date.now();
+
+      const appendStderr = (text: string) => {
+        stderr += text;
+        onOutput?.('stderr', text);
+      };
+
+      const finish = (status: SandboxRunStatus, message?: string) => {
+        clearTimeout(timer);
+        activeWorker.removeEventListener('message', handleMessage);
+        activeWorker.removeEventListener('error', handleError);
+        if (message) {
+          appendStderr(message.endsWith('\n') ? message : `${message}\n`);
+        }
+        resolve({ status, stdout, stderr, durationMs: Date.now() - startedAt });
+      };
+
+      const handleMessage = (event: MessageEvent<SandboxWorkerMessage>) => {
+        const message = event.data;
+        if (message.id !== id) return;
+
+        switch (message.type) {
+          case 'started':
+            clearTimeout(timer);
+            startedAt = Date.now();
+            timer = setTimeout(() => {
+              terminate();
+              finish('timeout', `Program przerwany: przekroczono limit czasu (${timeoutMs / 1000} s).`);
+            }, timeoutMs);
+            break;
+          case 'stdout':
+            stdout += message.text;
+            onOutput?.('stdout', message.text);
+            break;
+          case 'stderr':
+            appendStderr(message.text);
+            break;
+          case 'done':
+            finish(message.ok ? 'success' : 'error', message.error);
+            break;
+        }
+      };
+
+      const handleError = (event: ErrorEvent) => {
+        terminate();
+        finish('error', event.message || 'Piaskownica zakończyła działanie z błędem.');
+      };
+
+      let timer = setTimeout(() => {
+        terminate();
+        finish('timeout', 'Nie udało się uruchomić interpretera Pythona w wyznaczonym czasie.');
+      }, loadTimeoutMs);
+
+      activeWorker.addEventListener('message', handleMessage);
+      activeWorker.addEventListener('error', handleError);
+      activeWorker.postMessage({ type: 'run', id, code } satisfies SandboxRunRequest);
+    });
+
+  return {
+    run(code, options = {}) {
+      const result = queue.then(() => execute(code, options));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    dispose: terminate
+  };
+};
+
+let sharedSandbox: PythonSandbox | null = null;
+
+/** One interpreter shared by all programming tiles on the page, so Pyodide is downloaded once. */
+export const getSharedPythonSandbox = (): PythonSandbox => {
+  if (!sharedSandbox) {
+    sharedSandbox = createPythonSandbox();
+  }
+  return sharedSandbox;
+};
+
+/** The program that is actually executed: the author's set-up, the student's code and the author's checks. */
+export const buildProgram = (parts: { startingCode?: string; code: string; endingCode?: string }): string =>
+  [parts.startingCode, parts.code, parts.endingCode].filter(part => part && part.trim()).join('\n');
@@ -0,0 +1,79 @@
+import type { SandboxRunRequest, SandboxWorkerMessage } from './sandboxProtocol';
+
+const PYODIDE_INDEX_URL = 'https://cdn.jsdelivr.net/pyodide/v0.26.4/full/';
+
+interface PyProxy {
+  destroy(): void;
+}
+
+interface PyodideInterface {
+  globals: { get(name: string): () => PyProxy };
+  setStdout(options: { batched: (text: string) => void }): void;
+  setStderr(options: { batched: (text: string) => void }): void;
+  setStdin(options: { error: boolean }): void;
+  runPythonAsync(code: string, options?: { globals?: PyProxy }): Promise<unknown>;
+}
+
+interface PyodideModule {
+  loadPyodide(options: { indexURL: string }): Promise<PyodideInterface>;
+}
+
+// The app compiles against the DOM lib, so the worker scope is described by hand.
+const workerScope = self as unknown as {
+  postMessage(message: SandboxWorkerMessage): void;
+  onmessage: ((event: MessageEvent<SandboxRunRequest>) => void) | null;
+};
+
+let runtime: Promise<PyodideInterface> | null = null;
+
+const loadRuntime = (): Promise<PyodideInterface> => {
+  if (!runtime) {
+    runtime = (import(/* @vite-ignore */ `${PYODIDE_INDEX_URL}pyodide.mjs`) as Promise<PyodideModule>)
+      .then(module => module.loadPyodide({ indexURL: PYODIDE_INDEX_URL }))
+      .catch(error => {
+        runtime = null;
+        throw error;
+      });
+  }
+  return runtime;
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+workerScope.onmessage = async event => {
+  const request = event.data;
+  if (request.type !== 'run') return;
+
+  const { id } = request;
+  let pyodide: PyodideInterface;
+  try {
+    pyodide = await loadRuntime();
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'done',
+      id,
+      ok: false,
+      phase: 'load',
+      error: `Nie udało się wczytać interpretera Pythona: ${describeError(error)}`
+    });
+    return;
+  }
+
+  pyodide.setStdout({ batched: text => workerScope.postMessage({ type: 'stdout', id, text: `${text}\n` }) });
+  pyodide.setStderr({ batched: text => workerScope.postMessage({ type: 'stderr', id, text: `${text}\n` }) });
+  // There is no console to type into; input() raises instead of blocking forever.
+  pyodide.setStdin({ error: true });
+
+  // Every run gets fresh globals so state does not leak between attempts.
+  const globals = pyodide.globals.get('dict')();
+  workerScope.postMessage({ type: 'started', id });
+
+  try {
+    await pyodide.runPythonAsync(request.code, { globals });
+    workerScope.postMessage({ type: 'done', id, ok: true });
+  } catch (error) {
+    workerScope.postMessage({ type: 'done', id, ok: false, phase: 'run', error: describeError(error) });
+  } finally {
+    globals.destroy();
+  }
+};
@@ -0,0 +1,12 @@
+/** Messages exchanged between `pythonSandbox` and `pythonWorker`. */
+
+export interface SandboxRunRequest {
+  type: 'run';
+  id: number;
+  code: string;
+}
+
+export type SandboxWorkerMessage =
+  | { type: 'started'; id: number }
+  | { type: 'stdout' | 'stderr'; id: number; text: string }
+  | { type: 'done'; id: number; ok: boolean; error?: string; phase?: 'load' | 'run' };
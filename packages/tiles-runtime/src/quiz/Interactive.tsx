@@ -1,14 +1,24 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { CheckCircle2, Circle, HelpCircle, XCircle } from 'lucide-react';
-import { QuizTile } from 'tiles-core';
+import {
+  DEFAULT_FEEDBACK_MESSAGES,
+  QuizTile,
+  getTileFeedback,
+  hasRichTextContent,
+  scoreTileAnswer,
+  seededShuffle
+} from 'tiles-core';
 import { getReadableTextColor } from 'tiles-core/utils';
 import { createSurfacePalette } from 'tiles-core/utils';
 import {
+  MathText,
   TaskInstructionPanel,
   TileInstructionContent,
   ValidateButton,
   type ValidateButtonState
 } from 'ui-primitives';
+import { useTileAttemptReporter, useTileFeedback, useTileShuffleSeed } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
 interface QuizInteractiveProps {
   tile: QuizTile;
@@ -20,6 +30,11 @@ interface QuizInteractiveProps {
 
 type EvaluationState = ValidateButtonState;
 
+const QUIZ_FALLBACK_MESSAGES = {
+  ...DEFAULT_FEEDBACK_MESSAGES,
+  incorrect: 'Spróbuj ponownie. Sprawdź wybrane odpowiedzi.'
+};
+
 export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
   tile,
   isPreview = false,
@@ -29,23 +44,43 @@ export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
 }) => {
   const [selectedAnswers, setSelectedAnswers] = useState<number[]>([]);
   const [evaluationState, setEvaluationState] = useState<EvaluationState>('idle');
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
 
   useEffect(() => {
     setSelectedAnswers([]);
     setEvaluationState('idle');
   }, [tile.content.answers, tile.content.multipleCorrect]);
 
+  useEffect(() => {
+    reportAnswer({ selectedAnswers });
+  }, [reportAnswer, selectedAnswers]);
+
   const accentColor = tile.content.backgroundColor || '#1d4ed8';
   const textColor = useMemo(() => getReadableTextColor(accentColor), [accentColor]);
   const mutedTextColor = textColor === '#0f172a' ? '#475569' : '#e2e8f0';
-  const isInteractionEnabled = !isPreview && isTestingMode;
+  const isQuizActive = !isPreview && isTestingMode;
+  const isInteractionEnabled = isQuizActive && !isLocked;
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+  const shuffleSeed = useTileShuffleSeed(tile.id);
+  // Answers are always identified by their authored index; only the display order changes.
+  const answerOrder = useMemo(() => {
+    const indices = tile.content.answers.map((_, index) => index);
+    return tile.content.shuffleAnswers ? seededShuffle(indices, shuffleSeed) : indices;
+  }, [shuffleSeed, tile.content.answers, tile.content.shuffleAnswers]);
 
   useEffect(() => {
-    if (!isInteractionEnabled) {
+    if (!isQuizActive) {
       setSelectedAnswers([]);
       setEvaluationState('idle');
     }
-  }, [isInteractionEnabled]);
+  }, [isQuizActive]);
+
+  useEffect(() => {
+    if (!restored) return;
+    setSelectedAnswers(restored.answer.selectedAnswers);
+    setEvaluationState(restored.evaluation);
+  }, [restored]);
 
   const {
     panelBackground,
@@ -100,15 +135,11 @@ export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
     if (!isInteractionEnabled) return;
     if (selectedAnswers.length === 0) return;
 
-    const correctIndices = tile.content.answers
-      .map((answer, index) => (answer.isCorrect ? index : null))
-      .filter((index): index is number => index !== null);
-
-    const isCorrectSelection =
-      selectedAnswers.length === correctIndices.length &&
-      selectedAnswers.every(index => correctIndices.includes(index));
+    const answer = { selectedAnswers };
+    const result = scoreTileAnswer(tile, answer);
 
-    setEvaluationState(isCorrectSelection ? 'success' : 'error');
+    setEvaluationState(result.isCorrect ? 'success' : 'error');
+    reportAttempt(answer, result);
   };
 
   const handleRetry = () => {
@@ -139,6 +170,10 @@ export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
     const isSelected = selectedAnswers.includes(index);
     const showCorrectState = evaluationState !== 'idle' && answer.isCorrect;
     const showIncorrectState = evaluationState === 'error' && isSelected && !answer.isCorrect;
+    const answerFeedback =
+      showFeedback && evaluationState !== 'idle' && isSelected && hasRichTextContent(answer.feedback)
+        ? answer.feedback
+        : null;
 
     const backgroundColor = showCorrectState
       ? 'rgba(34, 197, 94, 0.18)'
@@ -189,37 +224,27 @@ export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
         }}
         disabled={isPreview}
       >
-        <div className="flex items-center gap-3">
+        <div className="flex items-start gap-3">
           <span className="flex-shrink-0">{icon}</span>
-          <span className="text-sm font-medium" style={{ color: textColor }}>
-            {answer.text}
-          </span>
+          <div className="flex flex-col gap-1 min-w-0">
+            <span className="text-sm font-medium" style={{ color: textColor }}>
+              <MathText text={answer.text} enabled={tile.content.renderMath ?? false} />
+            </span>
+            {answerFeedback && (
+              <TileInstructionContent
+                html={answerFeedback}
+                textColor={mutedTextColor}
+                className="text-xs"
+              />
+            )}
+          </div>
         </div>
       </button>
     );
   };
 
-  const renderEvaluationMessage = () => {
-    if (!isInteractionEnabled || evaluationState === 'idle') return null;
-
-    const isCorrect = evaluationState === 'success';
-
-    return (
-      <div
-        className={`flex items-center gap-2 rounded-xl px-4 py-3 text-sm font-medium ${
-          isCorrect ? 'bg-emerald-100 text-emerald-800' : 'bg-rose-100 text-rose-700'
-        }`}
-      >
-        {isCorrect ? <CheckCircle2 className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
-        {isCorrect ? 'Świetnie! To poprawna odpowiedź.' : 'Spróbuj ponownie. Sprawdź wybrane odpowiedzi.'}
-      </div>
-    );
-  };
-
   const validationState: ValidateButtonState = evaluationState;
 
-  const evaluationMessage = renderEvaluationMessage();
-
   return (
     <div className="relative w-full h-full" onDoubleClick={handleTileDoubleClick}>
       <div className="w-full h-full flex flex-col gap-5 p-6 overflow-hidden">
@@ -245,24 +270,30 @@ export const QuizInteractive: React.FC<QuizInteractiveProps> = ({
 
         <div className="flex-1 min-h-0 flex flex-col gap-4 overflow-hidden">
           <div className="flex-1 min-h-0 flex flex-col gap-3 overflow-auto">
-            {tile.content.answers.map((answer, index) => renderAnswerButton(answer, index))}
+            {answerOrder.map(index => renderAnswerButton(tile.content.answers[index], index))}
           </div>
 
-          {evaluationMessage && (
-            <div className="flex-shrink-0">
-              {evaluationMessage}
-            </div>
+          {showFeedback && isInteractionEnabled && (
+            <TileFeedbackPanel
+              evaluation={evaluationState}
+              feedback={feedback}
+              failedAttempts={failedAttempts}
+              fallbackMessages={QUIZ_FALLBACK_MESSAGES}
+              className="flex-shrink-0"
+            />
           )}
         </div>
 
-        <div className="flex flex-col items-center gap-2 pt-2">
-          <ValidateButton
-            state={validationState}
-            disabled={!isInteractionEnabled || selectedAnswers.length === 0}
-            onClick={handleEvaluate}
-            onRetry={handleRetry}
-          />
-        </div>
+        {showFeedback && (
+          <div className="flex flex-col items-center gap-2 pt-2">
+            <ValidateButton
+              state={validationState}
+              disabled={!isInteractionEnabled || selectedAnswers.length === 0}
+              onClick={handleEvaluate}
+              onRetry={handleRetry}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { CheckCircle, XCircle, RotateCcw, Sparkles, GripVertical, Shuffle, ArrowLeftRight } from 'lucide-react';
-import { SequencingTile } from 'tiles-core';
+import { SequencingTile, getTileFeedback, scoreTileAnswer, seededShuffle } from 'tiles-core';
 import {
   darkenColor,
   getReadableTextColor,
@@ -14,6 +14,8 @@ import {
   ValidateButton,
   type ValidateButtonState
 } from 'ui-primitives';
+import { useTileAttemptReporter, useTileFeedback, useTileShuffleSeed } from '../attempts';
+import { TileFeedbackPanel } from '../feedback';
 
 interface SequencingInteractiveProps {
   tile: SequencingTile;
@@ -53,7 +55,11 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
   const [dragState, setDragState] = useState<DragState | null>(null);
   const [dragOverSlot, setDragOverSlot] = useState<number | null>(null);
   const [isPoolHighlighted, setIsPoolHighlighted] = useState(false);
-  const canInteract = !isPreview;
+  const { reportAnswer, reportAttempt, restored, failedAttempts } = useTileAttemptReporter(tile);
+  const { showFeedback, isLocked } = useTileFeedback();
+  const feedback = useMemo(() => getTileFeedback(tile), [tile]);
+  const shuffleSeed = useTileShuffleSeed(tile.id);
+  const canInteract = !isPreview && !isLocked;
   const sequenceComplete = placedItems.length > 0 && placedItems.every(item => item !== null);
   const validationState: ValidateButtonState = isChecked
     ? isCorrect
@@ -135,14 +141,6 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
   const showBorder = tile.content.showBorder !== false;
   const isEmbedded = variant === 'embedded';
 
-  const correctOrderIds = useMemo(
-    () =>
-      [...tile.content.items]
-        .sort((a, b) => a.correctPosition - b.correctPosition)
-        .map(item => item.id),
-    [tile.content.items]
-  );
-
   const buildInitialPool = useCallback((): DraggedItem[] => {
     const normalized = [...tile.content.items]
       .sort((a, b) => a.correctPosition - b.correctPosition)
@@ -152,29 +150,8 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
         originalIndex: item.correctPosition
       }));
 
-    if (normalized.length <= 1) {
-      return normalized;
-    }
-
-    const maxAttempts = 20;
-    let attemptsCount = 0;
-    let shuffled = [...normalized];
-
-    const isCorrectSequence = (items: DraggedItem[]) =>
-      items.every((item, index) => item.id === correctOrderIds[index]);
-
-    do {
-      shuffled = [...normalized].sort(() => Math.random() - 0.5);
-      attemptsCount += 1;
-    } while (attemptsCount < maxAttempts && isCorrectSequence(shuffled));
-
-    if (isCorrectSequence(shuffled)) {
-      const [first, ...rest] = shuffled;
-      shuffled = [...rest, first];
-    }
-
-    return shuffled;
-  }, [correctOrderIds, tile.content.items]);
+    return seededShuffle(normalized, shuffleSeed, { avoidOriginalOrder: true });
+  }, [shuffleSeed, tile.content.items]);
 
   const initializeExercise = useCallback(() => {
     const shuffledItems = buildInitialPool();
@@ -195,6 +172,31 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
     }
   }, [isTestingMode, initializeExercise]);
 
+  useEffect(() => {
+    if (!restored) return;
+
+    const pool = buildInitialPool();
+    const itemsById = new Map(pool.map(item => [item.id, item]));
+    const placedIds = new Set<string>();
+    const restoredPlacement = pool.map((_, index) => {
+      const item = itemsById.get(restored.answer.order[index] ?? '');
+      if (!item || placedIds.has(item.id)) return null;
+      placedIds.add(item.id);
+      return item;
+    });
+
+    setPlacedItems(restoredPlacement);
+    setAvailableItems(pool.filter(item => !placedIds.has(item.id)));
+    setIsChecked(restored.evaluation !== 'idle');
+    setIsCorrect(restored.evaluation === 'idle' ? null : restored.evaluation === 'success');
+  }, [restored, buildInitialPool]);
+
+  useEffect(() => {
+    // Slots only exist once the exercise has been initialized.
+    if (placedItems.length === 0) return;
+    reportAnswer({ order: placedItems.map(item => item?.id ?? null) });
+  }, [placedItems, reportAnswer]);
+
   const resetCheckState = () => {
     if (isChecked) {
       setIsChecked(false);
@@ -332,15 +334,12 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
   };
 
   const checkSequence = () => {
-    const isSequenceCorrect =
-      placedItems.every((item, index) => {
-        if (!item) return false;
-        const originalItem = tile.content.items.find(original => original.id === item.id);
-        return originalItem && originalItem.correctPosition === index;
-      }) && placedItems.length === tile.content.items.length;
-
-    setIsCorrect(isSequenceCorrect);
+    const answer = { order: placedItems.map(item => item?.id ?? null) };
+    const result = scoreTileAnswer(tile, answer);
+
+    setIsCorrect(result.isCorrect);
     setIsChecked(true);
+    reportAttempt(answer, result);
   };
 
   const getItemClasses = (itemId: string) => {
@@ -575,13 +574,19 @@ export const SequencingInteractive: React.FC<SequencingInteractiveProps> = ({
           </TaskTileSection>
         </div>
 
-        <div className="flex flex-col items-center gap-2 pt-2">
-          <ValidateButton
-            state={validationState}
-            disabled={!canInteract || !sequenceComplete}
-            onClick={checkSequence}
-          />
-        </div>
+        {showFeedback && canInteract && (
+          <TileFeedbackPanel evaluation={validationState} feedback={feedback} failedAttempts={failedAttempts} />
+        )}
+
+        {showFeedback && (
+          <div className="flex flex-col items-center gap-2 pt-2">
+            <ValidateButton
+              state={validationState}
+              disabled={!canInteract || !sequenceComplete}
+              onClick={checkSequence}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
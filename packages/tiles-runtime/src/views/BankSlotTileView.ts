@@ -0,0 +1,2 @@
+export { BankSlotTileView } from 'ui-primitives';
+export type { BankSlotTileViewProps } from 'ui-primitives';
@@ -0,0 +1,2 @@
+export { VisualizationTileView, VisualizationChart } from 'ui-primitives';
+export type { VisualizationTileViewProps, VisualizationChartProps } from 'ui-primitives';
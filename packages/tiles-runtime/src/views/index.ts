@@ -1,3 +1,5 @@
 export * from './TextTileView';
 export * from './ImageTileView';
 export * from './ProgrammingTileView';
+export * from './VisualizationTileView';
+export * from './BankSlotTileView';
@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { splitMathText } from 'tiles-core/utils';
+import { renderLatex } from './math';
+
+export interface MathTextProps {
+  text: string;
+  className?: string;
+  /** Tiles opt into formulas; without it `$` is just a dollar sign. */
+  enabled?: boolean;
+}
+
+/** Plain text with `$...$` / `$$...$$` formulas, as typed in answers, templates and pairs. */
+export const MathText: React.FC<MathTextProps> = ({ text, className, enabled = true }) => {
+  const segments = useMemo(
+    () => (enabled ? splitMathText(text) : [{ type: 'text' as const, text }]),
+    [enabled, text]
+  );
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.type === 'text' ? (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ) : (
+          <span
+            key={index}
+            className={segment.display ? 'math-node block' : 'math-node'}
+            dangerouslySetInnerHTML={{ __html: renderLatex(segment.latex, segment.display) }}
+          />
+        )
+      )}
+    </span>
+  );
+};
+
+export default MathText;
@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { sanitizeHtml } from 'tiles-core/utils';
+import { renderMathInHtml } from './math';
 
 export type TileInstructionVerticalAlign = 'top' | 'center' | 'bottom';
 
@@ -33,7 +35,10 @@ export const TileInstructionContent: React.FC<TileInstructionContentProps> = ({
   className = '',
   style
 }) => {
-  const sanitizedHtml = html?.trim().length ? html : '<p style="margin: 0;"></p>';
+  const sanitizedHtml = useMemo(
+    () => (html?.trim().length ? renderMathInHtml(sanitizeHtml(html)) : '<p style="margin: 0;"></p>'),
+    [html]
+  );
 
   return (
     <div
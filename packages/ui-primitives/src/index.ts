@@ -4,6 +4,8 @@ export * from './TileContainer';
 export * from './views';
 export * from './TaskInstructionPanel';
 export * from './TileInstructionContent';
+export * from './MathText';
+export * from './math';
 export * from './TaskTileSection';
 export * from './ValidateButton';
 export * from './Toast';
@@ -0,0 +1,43 @@
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { MATH_BLOCK_TYPE, MATH_INLINE_TYPE } from 'tiles-core/utils';
+
+/**
+ * Renders a LaTeX formula to KaTeX markup. Syntax errors are shown in place (in red) instead
+ * of throwing, so a half-typed formula never breaks a tile.
+ */
+export const renderLatex = (latex: string, display = false): string =>
+  katex.renderToString(latex, {
+    displayMode: display,
+    throwOnError: false,
+    output: 'htmlAndMathml'
+  });
+
+const decodeAttribute = (value: string): string =>
+  value.replace(/&(quot|lt|gt|amp);/g, (_entity, name: string) =>
+    name === 'quot' ? '"' : name === 'lt' ? '<' : name === 'gt' ? '>' : '&'
+  );
+
+/** Opening tags carrying a formula `data-type`, wherever the attribute sits among the others. */
+const MATH_NODE_PATTERN = new RegExp(
+  `<(span|div)(\\s(?:[^>]*\\s)?data-type="(?:${MATH_INLINE_TYPE}|${MATH_BLOCK_TYPE})"[^>]*)>([\\s\\S]*?)</\\1>`,
+  'g'
+);
+
+const ATTRIBUTE_PATTERN = /([\w-]+)="([^"]*)"/g;
+
+const readAttributes = (source: string): Record<string, string> =>
+  Object.fromEntries(Array.from(source.matchAll(ATTRIBUTE_PATTERN), ([, name, value]) => [name, decodeAttribute(value)]));
+
+/**
+ * Replaces the formula nodes of rich text with rendered formulas. Expects the output of
+ * `sanitizeHtml`, which double-quotes and escapes every attribute value; the attributes may
+ * come in any order. Nodes without `data-latex` fall back to their text content.
+ */
+export const renderMathInHtml = (sanitizedHtml: string): string =>
+  sanitizedHtml.replace(MATH_NODE_PATTERN, (_node, tag: string, attributeSource: string, text: string) => {
+    const attributes = readAttributes(attributeSource);
+    const type = attributes['data-type'];
+    const latex = attributes['data-latex'] ?? decodeAttribute(text);
+    return `<${tag} class="math-node" data-type="${type}">${renderLatex(latex, type === MATH_BLOCK_TYPE)}</${tag}>`;
+  });
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Library } from 'lucide-react';
+import { BankSlotTile } from 'tiles-core';
+import { getReadableTextColor, surfaceColor } from 'tiles-core/utils';
+import { TileChrome } from '../TileChrome';
+
+export interface BankSlotTileViewProps {
+  tile: BankSlotTile;
+  /** Name of the bank the slot draws from, when known. */
+  bankName?: string;
+  /** Explains what the student or author sees instead of a drawn question. */
+  description?: string;
+}
+
+export const BankSlotTileView: React.FC<BankSlotTileViewProps> = ({ tile, bankName, description }) => {
+  const accentColor = tile.content.backgroundColor || '#e2e8f0';
+  const textColor = getReadableTextColor(accentColor);
+  const panelBackground = surfaceColor(accentColor, textColor, 0.6, 0.4);
+
+  return (
+    <TileChrome
+      backgroundColor={accentColor}
+      showBorder
+      padding="1.5rem"
+      contentClassName="flex flex-col items-center justify-center gap-3 text-center"
+      contentStyle={{ color: textColor }}
+    >
+      <span
+        className="w-12 h-12 rounded-2xl flex items-center justify-center shadow-sm"
+        style={{ backgroundColor: panelBackground }}
+      >
+        <Library className="w-6 h-6" />
+      </span>
+      <span className="text-sm font-semibold">{bankName ? `Pytanie z banku „${bankName}”` : 'Pytanie z banku'}</span>
+      {description && <span className="text-xs opacity-75 max-w-xs">{description}</span>}
+    </TileChrome>
+  );
+};
@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { TextTile } from 'tiles-core';
-import { getReadableTextColor } from 'tiles-core/utils';
+import { getReadableTextColor, sanitizeHtml } from 'tiles-core/utils';
 import { TileChrome } from '../TileChrome';
+import { renderMathInHtml } from '../math';
 
 export interface TextTileViewProps {
   tile: TextTile;
@@ -23,6 +24,10 @@ export const TextTileView: React.FC<TextTileViewProps> = ({
 }) => {
   const textColor = getReadableTextColor(tile.content.backgroundColor || '#ffffff');
   const verticalAlign = tile.content.verticalAlign ?? 'top';
+  const html = useMemo(
+    () => renderMathInHtml(sanitizeHtml(tile.content.richText || `<p>${tile.content.text}</p>`)),
+    [tile.content.richText, tile.content.text]
+  );
 
   return (
     <TileChrome
@@ -48,9 +53,7 @@ export const TextTileView: React.FC<TextTileViewProps> = ({
       <div
         className="rich-text-content break-words"
         style={{ minHeight: '1em' }}
-        dangerouslySetInnerHTML={{
-          __html: tile.content.richText || `<p>${tile.content.text}</p>`
-        }}
+        dangerouslySetInnerHTML={{ __html: html }}
       />
     </TileChrome>
   );
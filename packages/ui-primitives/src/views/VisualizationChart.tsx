@@ -0,0 +1,247 @@
+import React from 'react';
+import { VisualizationChartType, VisualizationData } from 'tiles-core';
+import { getSeriesColor } from './chartColors';
+
+export interface VisualizationChartProps {
+  chartType: VisualizationChartType;
+  data: VisualizationData;
+  textColor?: string;
+  className?: string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 40 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const TICK_COUNT = 4;
+
+/** Round the axis maximum up to 1, 2 or 5 times a power of ten so tick labels stay readable. */
+const niceCeil = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const normalized = value / magnitude;
+  const step = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+};
+
+const formatTick = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 1 ? 2 : 1);
+
+const getValueRange = (values: number[]) => {
+  const max = niceCeil(Math.max(0, ...values));
+  const min = Math.min(0, ...values) < 0 ? -niceCeil(-Math.min(...values)) : 0;
+  return { min, max };
+};
+
+const toY = (value: number, min: number, max: number) =>
+  PADDING.top + PLOT_HEIGHT - ((value - min) / (max - min || 1)) * PLOT_HEIGHT;
+
+const ValueAxis: React.FC<{ min: number; max: number; textColor: string }> = ({ min, max, textColor }) => (
+  <g>
+    {Array.from({ length: TICK_COUNT + 1 }, (_, index) => {
+      const value = min + ((max - min) * index) / TICK_COUNT;
+      const y = toY(value, min, max);
+      return (
+        <g key={index}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y}
+            y2={y}
+            stroke={textColor}
+            strokeOpacity={value === 0 ? 0.5 : 0.15}
+          />
+          <text x={PADDING.left - 6} y={y + 3} textAnchor="end" fontSize={10} fill={textColor} fillOpacity={0.75}>
+            {formatTick(value)}
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+const CategoryLabels: React.FC<{ labels: string[]; xFor: (index: number) => number; textColor: string }> = ({
+  labels,
+  xFor,
+  textColor
+}) => (
+  <g>
+    {labels.map((label, index) => (
+      <text
+        key={index}
+        x={xFor(index)}
+        y={HEIGHT - PADDING.bottom + 16}
+        textAnchor="middle"
+        fontSize={10}
+        fill={textColor}
+        fillOpacity={0.75}
+      >
+        {label.length > 12 ? `${label.slice(0, 11)}…` : label}
+      </text>
+    ))}
+  </g>
+);
+
+const describeArc = (cx: number, cy: number, radius: number, start: number, end: number) => {
+  const startX = cx + radius * Math.cos(start);
+  const startY = cy + radius * Math.sin(start);
+  const endX = cx + radius * Math.cos(end);
+  const endY = cy + radius * Math.sin(end);
+  const largeArc = end - start > Math.PI ? 1 : 0;
+  return `M ${cx} ${cy} L ${startX} ${startY} A ${radius} ${radius} 0 ${largeArc} 1 ${endX} ${endY} Z`;
+};
+
+/**
+ * Dependency-free SVG chart for visualization tiles. Pie charts use the first series and
+ * colour slices per label; scatter plots use numeric labels as x values (or their position).
+ */
+export const VisualizationChart: React.FC<VisualizationChartProps> = ({
+  chartType,
+  data,
+  textColor = '#0f172a',
+  className
+}) => {
+  const labelCount = Math.max(data.labels.length, ...data.series.map(series => series.values.length), 0);
+  const labels = Array.from({ length: labelCount }, (_, index) => data.labels[index] ?? String(index + 1));
+  const allValues = data.series.flatMap(series => series.values);
+
+  if (!labelCount || !allValues.length) {
+    return (
+      <div className={`flex h-full w-full items-center justify-center text-sm opacity-70 ${className ?? ''}`}>
+        Brak danych do wyświetlenia
+      </div>
+    );
+  }
+
+  const legend =
+    chartType === 'pie'
+      ? labels.map((label, index) => ({ name: label, color: getSeriesColor(undefined, index) }))
+      : data.series.map((series, index) => ({ name: series.name, color: getSeriesColor(series.color, index) }));
+
+  const renderPlot = () => {
+    if (chartType === 'pie') {
+      const values = (data.series[0]?.values ?? []).map(value => Math.max(0, value));
+      const total = values.reduce((sum, value) => sum + value, 0);
+      if (!total) return null;
+
+      const cx = WIDTH / 2;
+      const cy = HEIGHT / 2;
+      const radius = HEIGHT / 2 - 12;
+      let angle = -Math.PI / 2;
+
+      return values.map((value, index) => {
+        const start = angle;
+        angle += (value / total) * Math.PI * 2;
+        const color = getSeriesColor(undefined, index);
+        if (value === total) {
+          return <circle key={index} cx={cx} cy={cy} r={radius} fill={color} />;
+        }
+        return (
+          <path key={index} d={describeArc(cx, cy, radius, start, angle)} fill={color} stroke="#ffffff" strokeWidth={1}>
+            <title>{`${labels[index]}: ${value}`}</title>
+          </path>
+        );
+      });
+    }
+
+    const { min, max } = getValueRange(allValues);
+    const slot = PLOT_WIDTH / labelCount;
+    const categoryX = (index: number) => PADDING.left + slot * index + slot / 2;
+
+    if (chartType === 'bar') {
+      const groupWidth = slot * 0.7;
+      const barWidth = groupWidth / Math.max(1, data.series.length);
+      const zeroY = toY(0, min, max);
+
+      return (
+        <>
+          <ValueAxis min={min} max={max} textColor={textColor} />
+          {data.series.map((series, seriesIndex) =>
+            series.values.map((value, index) => {
+              const y = toY(value, min, max);
+              return (
+                <rect
+                  key={`${series.id}-${index}`}
+                  x={categoryX(index) - groupWidth / 2 + barWidth * seriesIndex}
+                  y={Math.min(y, zeroY)}
+                  width={Math.max(1, barWidth - 2)}
+                  height={Math.abs(zeroY - y)}
+                  rx={2}
+                  fill={getSeriesColor(series.color, seriesIndex)}
+                >
+                  <title>{`${series.name} – ${labels[index]}: ${value}`}</title>
+                </rect>
+              );
+            })
+          )}
+          <CategoryLabels labels={labels} xFor={categoryX} textColor={textColor} />
+        </>
+      );
+    }
+
+    const numericX = labels.map(label => Number(label));
+    const useNumericX = chartType === 'scatter' && numericX.every(value => Number.isFinite(value));
+    const xMin = useNumericX ? Math.min(...numericX) : 0;
+    const xMax = useNumericX ? Math.max(...numericX) : 0;
+    const pointX = (index: number) =>
+      useNumericX
+        ? PADDING.left + ((numericX[index] - xMin) / (xMax - xMin || 1)) * PLOT_WIDTH
+        : categoryX(index);
+
+    return (
+      <>
+        <ValueAxis min={min} max={max} textColor={textColor} />
+        {data.series.map((series, seriesIndex) => {
+          const color = getSeriesColor(series.color, seriesIndex);
+          const points = series.values.map((value, index) => ({ x: pointX(index), y: toY(value, min, max), value, index }));
+          return (
+            <g key={series.id}>
+              {chartType === 'line' && (
+                <polyline
+                  points={points.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                />
+              )}
+              {points.map(point => (
+                <circle key={point.index} cx={point.x} cy={point.y} r={chartType === 'scatter' ? 4 : 3} fill={color}>
+                  <title>{`${series.name} – ${labels[point.index]}: ${point.value}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+        <CategoryLabels labels={labels} xFor={pointX} textColor={textColor} />
+      </>
+    );
+  };
+
+  return (
+    <div className={`flex h-full w-full flex-col gap-2 ${className ?? ''}`}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="min-h-0 w-full flex-1"
+        preserveAspectRatio="xMidYMid meet"
+        role="img"
+        aria-label="Wykres"
+      >
+        {renderPlot()}
+      </svg>
+      {legend.length > 1 || chartType === 'pie' ? (
+        <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs" style={{ color: textColor }}>
+          {legend.map((entry, index) => (
+            <li key={index} className="flex items-center gap-1.5">
+              <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: entry.color }} />
+              {entry.name}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+};
+
+export default VisualizationChart;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { VisualizationTile } from 'tiles-core';
+import { TileChrome } from '../TileChrome';
+import { VisualizationChart } from './VisualizationChart';
+
+export interface VisualizationTileViewProps {
+  tile: VisualizationTile;
+  className?: string;
+  style?: React.CSSProperties;
+  contentClassName?: string;
+}
+
+const joinClassNames = (...values: Array<string | undefined | false>) =>
+  values.filter(Boolean).join(' ');
+
+type VideoSource = { kind: 'embed'; src: string } | { kind: 'file'; src: string };
+
+/**
+ * YouTube and Vimeo links are played through their embed players; any other URL is
+ * treated as a video file for the native player.
+ */
+const resolveVideoSource = (url: string, loop: boolean): VideoSource => {
+  const youtube = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/.exec(url);
+  if (youtube) {
+    const id = youtube[1];
+    return {
+      kind: 'embed',
+      src: `https://www.youtube-nocookie.com/embed/${id}${loop ? `?loop=1&playlist=${id}` : ''}`
+    };
+  }
+
+  const vimeo = /vimeo\.com\/(?:video\/)?(\d+)/.exec(url);
+  if (vimeo) {
+    return { kind: 'embed', src: `https://player.vimeo.com/video/${vimeo[1]}${loop ? '?loop=1' : ''}` };
+  }
+
+  return { kind: 'file', src: url };
+};
+
+export const VisualizationTileView: React.FC<VisualizationTileViewProps> = ({
+  tile,
+  className,
+  style,
+  contentClassName
+}) => {
+  const { title, contentType, chartType = 'bar', data, videoUrl, videoLoop = false } = tile.content;
+  const textColor = '#0f172a';
+
+  const renderVideo = () => {
+    const url = videoUrl?.trim();
+    if (!url) {
+      return (
+        <div className="flex h-full w-full items-center justify-center rounded-xl bg-slate-100 text-sm text-slate-500">
+          Dodaj adres filmu w panelu edycji.
+        </div>
+      );
+    }
+
+    const source = resolveVideoSource(url, videoLoop);
+    return source.kind === 'embed' ? (
+      <iframe
+        src={source.src}
+        title={title || 'Film'}
+        className="h-full w-full rounded-xl border-0"
+        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+        allowFullScreen
+      />
+    ) : (
+      <video src={source.src} controls loop={videoLoop} className="h-full w-full rounded-xl bg-black object-contain">
+        Twoja przeglądarka nie obsługuje odtwarzania wideo.
+      </video>
+    );
+  };
+
+  return (
+    <TileChrome
+      backgroundColor="#ffffff"
+      className={className}
+      style={style}
+      padding="1rem"
+      contentClassName={joinClassNames('flex flex-col gap-3', contentClassName)}
+      contentStyle={{ color: textColor }}
+    >
+      {title ? <h3 className="text-base font-semibold leading-tight">{title}</h3> : null}
+      <div className="min-h-0 flex-1">
+        {contentType === 'video' ? (
+          renderVideo()
+        ) : (
+          <VisualizationChart
+            chartType={chartType}
+            data={data ?? { labels: [], series: [] }}
+            textColor={textColor}
+          />
+        )}
+      </div>
+    </TileChrome>
+  );
+};
+
+export default VisualizationTileView;
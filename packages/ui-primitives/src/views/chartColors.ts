@@ -0,0 +1,4 @@
+export const DEFAULT_SERIES_COLORS = ['#3b82f6', '#f97316', '#10b981', '#a855f7', '#ef4444', '#eab308'];
+
+export const getSeriesColor = (color: string | undefined, index: number) =>
+  color || DEFAULT_SERIES_COLORS[index % DEFAULT_SERIES_COLORS.length];
@@ -1,3 +1,7 @@
 export * from './TextTileView';
 export * from './ImageTileView';
 export * from './ProgrammingTileView';
+export * from './chartColors';
+export * from './VisualizationChart';
+export * from './VisualizationTileView';
+export * from './BankSlotTileView';
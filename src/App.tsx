@@ -1,12 +1,12 @@
 import React from 'react';
 import { useState } from 'react';
-import { BookOpen, Play, Users, Settings, ArrowRight } from 'lucide-react';
+import { BookOpen, Play, Users, Settings, ArrowRight, ClipboardCheck } from 'lucide-react';
 import { LessonEditor } from './Pages/LessonEditor.tsx';
 import { LessonView } from './Pages/LessonView.tsx';
 import { Lesson, Course } from './types/course';
 
 function App() {
-  const [currentView, setCurrentView] = useState<'dashboard' | 'lesson-editor' | 'lesson-view'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'lesson-editor' | 'lesson-view' | 'lesson-exam'>('dashboard');
   
   // Mock data for demonstration
   const mockCourse: Course = {
@@ -47,11 +47,13 @@ function App() {
     );
   }
 
-  if (currentView === 'lesson-view') {
+  if (currentView === 'lesson-view' || currentView === 'lesson-exam') {
     return (
       <LessonView
         lesson={mockLesson}
         course={mockCourse}
+        mode={currentView === 'lesson-exam' ? 'exam' : 'practice'}
+        examTimeLimitMinutes={mockLesson.duration_minutes}
         onBack={() => setCurrentView('dashboard')}
       />
     );
@@ -193,6 +195,13 @@ function App() {
                     <span>Zobacz Podgląd Lekcji</span>
                     <Play className="w-5 h-5" />
                   </button>
+                  <button
+                    onClick={() => setCurrentView('lesson-exam')}
+                    className="flex-1 bg-white text-slate-900 border border-slate-300 px-6 py-3 rounded-lg hover:bg-slate-50 transition-colors flex items-center justify-center space-x-2 font-medium"
+                  >
+                    <span>Rozwiąż jako test</span>
+                    <ClipboardCheck className="w-5 h-5" />
+                  </button>
                 </div>
               </div>
             </div>
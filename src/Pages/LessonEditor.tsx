@@ -1,18 +1,22 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Save, RotateCcw, Grid, Edit } from 'lucide-react';
+import { ArrowLeft, Save, RotateCcw, Grid, Edit, Download, Upload, Library } from 'lucide-react';
 import { Lesson, Course } from '../types/course.ts';
 import {
   LessonCanvas,
   TilePalette,
   TopToolbar,
   TileSideEditor,
+  QuestionBankManager,
   useLessonEditor,
   useLessonContentManager,
+  useHistoryShortcuts,
+  useTileClipboard,
 } from 'tiles-editor';
 import { Editor } from '@tiptap/react';
 import { ToastContainer } from 'ui-primitives';
 import { useToast } from '../hooks/useToast.ts';
 import { ConfirmDialog } from '../components/common/ConfirmDialog.tsx';
+import { LessonConflictDialog } from '../components/common/LessonConflictDialog.tsx';
 import { LoadingSpinner } from '../components/common/LoadingSpinner.tsx';
 
 interface LessonEditorProps {
@@ -26,12 +30,14 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
   const canvasRef = useRef<HTMLDivElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [headerHeight, setHeaderHeight] = useState(64);
   const [toolbarHeight, setToolbarHeight] = useState(0);
 
   const { editorState, dispatch } = useLessonEditor();
   const [activeEditor, setActiveEditor] = useState<Editor | null>(null);
+  const [showQuestionBanks, setShowQuestionBanks] = useState(false);
 
   const {
     lessonContent,
@@ -45,11 +51,31 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
     addTile,
     updateTile,
     deleteTile,
+    deleteTiles,
+    moveTiles,
+    alignSelection,
+    distributeSelection,
+    getSelectedTiles,
+    pasteTiles,
+    duplicateTiles,
     addPage,
     deletePage,
     changePage,
+    pageCompletionRequirement,
+    updatePageCompletionRequirement,
+    questionBanks,
+    updateQuestionBanks,
     clearCanvas,
-    saveLessonContent
+    importLesson,
+    exportLesson,
+    saveLessonContent,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+    undo,
+    redo,
+    canUndo,
+    canRedo
   } = useLessonContentManager({
     lessonId: lesson.id,
     editorState,
@@ -57,12 +83,27 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
     notifications: { success, error, warning }
   });
 
+  useHistoryShortcuts({
+    onUndo: undo,
+    onRedo: redo,
+    enabled: editorState.mode !== 'textEditing' && !conflict
+  });
+
+  const { copySelection, cutSelection, pasteFromClipboard } = useTileClipboard({
+    lessonId: lesson.id,
+    getSelectedTiles,
+    onPaste: pasteTiles,
+    onCut: deleteTiles,
+    onDuplicate: duplicateTiles,
+    enabled: editorState.mode !== 'textEditing' && !conflict
+  });
+
   // Confirmation dialog state
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
     message: string;
-    onConfirm: () => void;
+    onConfirm: () => void | Promise<void>;
   }>({
     isOpen: false,
     title: '',
@@ -151,11 +192,18 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
     dispatch({ type: 'toggleGrid' });
   };
 
+  const handleToggleQuestionBanks = () => {
+    if (!showQuestionBanks) {
+      dispatch({ type: 'selectTile', tileId: null });
+    }
+    setShowQuestionBanks(!showQuestionBanks);
+  };
+
   const handleDeleteTile = (tileId: string) => {
     setConfirmDialog({
       isOpen: true,
       title: 'Usuń kafelek',
-      message: `Czy na pewno chcesz usunąć ten kafelek? Ta operacja jest nieodwracalna.`,
+      message: `Czy na pewno chcesz usunąć ten kafelek? Możesz to cofnąć skrótem Ctrl+Z.`,
       onConfirm: () => {
         const wasRemoved = deleteTile(tileId);
         if (!wasRemoved) {
@@ -165,6 +213,48 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
     });
   };
 
+  const handleDeleteTiles = (tileIds: string[]) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Usuń kafelki',
+      message: `Czy na pewno chcesz usunąć zaznaczone kafelki (${tileIds.length})? Możesz to cofnąć skrótem Ctrl+Z.`,
+      onConfirm: () => {
+        deleteTiles(tileIds);
+        setActiveEditor(null);
+      }
+    });
+  };
+
+  const handleExportLesson = async () => {
+    const packageText = await exportLesson();
+    if (!packageText) return;
+
+    const url = URL.createObjectURL(new Blob([packageText], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${lesson.title || lesson.id}.lesson.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const packageText = await file.text();
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Importuj lekcję',
+      message: `Zawartość lekcji zostanie zastąpiona zawartością pliku "${file.name}". Możesz to cofnąć skrótem Ctrl+Z.`,
+      onConfirm: () => {
+        if (importLesson(packageText)) {
+          setActiveEditor(null);
+        }
+      }
+    });
+  };
+
   const handleAddPage = () => {
     const newPage = addPage();
     if (newPage > 0) {
@@ -217,7 +307,7 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
     setConfirmDialog({
       isOpen: true,
       title: 'Wyczyść płótno',
-      message: 'Czy na pewno chcesz usunąć wszystkie kafelki z płótna? Ta operacja jest nieodwracalna.',
+      message: 'Czy na pewno chcesz usunąć wszystkie kafelki z płótna? Możesz to cofnąć skrótem Ctrl+Z.',
       onConfirm: () => {
         const cleared = clearCanvas();
         if (cleared) {
@@ -274,10 +364,25 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
         confirmText="Potwierdź"
         cancelText="Anuluj"
         type="warning"
-        onConfirm={confirmDialog.onConfirm}
+        onConfirm={async () => {
+          try {
+            await confirmDialog.onConfirm();
+          } finally {
+            setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+          }
+        }}
         onCancel={() => setConfirmDialog(prev => ({ ...prev, isOpen: false }))}
       />
 
+      {conflict && (
+        <LessonConflictDialog
+          key={conflict.remote.revision}
+          conflict={conflict}
+          onResolve={resolveConflict}
+          onDismiss={dismissConflict}
+        />
+      )}
+
       {/* Header */}
       <div ref={headerRef} className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-50">
         <div className="px-4 lg:px-6">
@@ -320,6 +425,41 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
                   <Grid className="w-4 h-4" />
                 </button>
                 
+                <button
+                  onClick={handleToggleQuestionBanks}
+                  className={`p-2 rounded-lg transition-colors ${
+                    showQuestionBanks
+                      ? 'bg-blue-100 text-blue-600'
+                      : 'text-gray-600 hover:text-blue-600'
+                  }`}
+                  title="Banki pytań"
+                >
+                  <Library className="w-4 h-4" />
+                </button>
+
+                <button
+                  onClick={handleExportLesson}
+                  className="p-2 text-gray-600 hover:text-blue-600 transition-colors hidden sm:block"
+                  title="Eksportuj lekcję"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="p-2 text-gray-600 hover:text-blue-600 transition-colors hidden sm:block"
+                  title="Importuj lekcję"
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+
                 <button
                   onClick={handleClearCanvas}
                   disabled={!lessonContent.tiles.length}
@@ -363,6 +503,16 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
                 tile={selectedTile}
                 onUpdateTile={updateTile}
                 onSelectTile={handleSelectTile}
+                questionBanks={questionBanks}
+              />
+            </div>
+          ) : showQuestionBanks ? (
+            // Question banks - opened from the header, shown until a tile is selected
+            <div className="h-full">
+              <QuestionBankManager
+                banks={questionBanks}
+                onChange={updateQuestionBanks}
+                onClose={() => setShowQuestionBanks(false)}
               />
             </div>
           ) : (
@@ -396,6 +546,21 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
               onAddPage={handleAddPage}
               onDeletePage={handleDeletePage}
               canDeletePage={totalPages > 1}
+              pageCompletionRequirement={pageCompletionRequirement}
+              onChangePageCompletionRequirement={requirement =>
+                updatePageCompletionRequirement(safePage, requirement)
+              }
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              selectionCount={editorState.selectedTileIds.length}
+              onAlignSelection={alignSelection}
+              onDistributeSelection={distributeSelection}
+              onCopySelection={copySelection}
+              onCutSelection={cutSelection}
+              onPaste={pasteFromClipboard}
+              onDuplicateSelection={() => duplicateTiles(editorState.selectedTileIds)}
             />
           </div>
           {/* Canvas */}
@@ -409,6 +574,8 @@ export const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, course, onBa
                 onUpdateTile={updateTile}
                 onSelectTile={handleSelectTile}
                 onDeleteTile={handleDeleteTile}
+                onMoveTiles={moveTiles}
+                onDeleteTiles={handleDeleteTiles}
                 onAddTile={addTile}
                 onFinishTextEditing={handleFinishTextEditing}
                 dispatch={dispatch}
@@ -1,28 +1,162 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { ArrowLeft, LayoutDashboard, Loader2 } from 'lucide-react';
-import { Course, Lesson, LessonTile } from 'tiles-core';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, LayoutDashboard, Loader2, Lock, RefreshCw, X } from 'lucide-react';
+import {
+  Course,
+  DEFAULT_SHUFFLE_SEED,
+  ExamResult,
+  ExamSession,
+  Lesson,
+  LessonProgress,
+  LessonTile,
+  TileAnswerChange,
+  TileAttempt,
+  answerableTileTypeSchema,
+  applyAnswerChange,
+  applyTileAttempt,
+  createLessonProgress,
+  getExamDeadline,
+  getLastUnlockedPage,
+  getProgressAnswers,
+  getProgressShuffleSeed,
+  gradeLessonAnswers,
+  rebaseLessonProgress,
+  resolveBankSlots,
+  setProgressPage,
+  startExam,
+  submitExam
+} from 'tiles-core';
 import { LessonRuntimeCanvas } from 'tiles-runtime';
 import { LessonRuntimeService } from '../services/lessonRuntimeService';
+import { lessonExamStorage, lessonProgressStorage } from '../services/lessonProgressStorage';
+import { getStudentId } from '../services/studentIdentity';
+import { ConfirmDialog } from '../components/common/ConfirmDialog';
+import { ExamStartPanel } from '../components/exam/ExamStartPanel';
+import { ExamStatusBar } from '../components/exam/ExamStatusBar';
+import { ExamSummary } from '../components/exam/ExamSummary';
+
+/** Answers arrive on every keystroke; batch them into one write. */
+const PROGRESS_SAVE_DELAY_MS = 400;
 
 interface LessonViewProps {
   lesson: Lesson;
   course: Course;
   onBack: () => void;
+  /**
+   * `exam` hides per-tile feedback, locks the answers once the test is submitted and grades
+   * them all at the end.
+   */
+  mode?: 'practice' | 'exam';
+  /** Only used in exam mode; the test is submitted automatically when the time runs out. */
+  examTimeLimitMinutes?: number;
 }
 
-export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }) => {
+const gradeProgress = (tiles: LessonTile[], progress: LessonProgress): ExamResult =>
+  gradeLessonAnswers(tiles, getProgressAnswers(progress));
+
+/** The lesson as the student plays it: bank slots are replaced with the questions drawn for them. */
+const getPlayableLesson = (lesson: Lesson, shuffleSeed: string): Lesson => ({
+  ...lesson,
+  tiles: resolveBankSlots(lesson.tiles, lesson.question_banks, shuffleSeed)
+});
+
+export const LessonView: React.FC<LessonViewProps> = ({
+  lesson,
+  course,
+  onBack,
+  mode = 'practice',
+  examTimeLimitMinutes
+}) => {
   const [lessonContent, setLessonContent] = useState<Lesson | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [activePage, setActivePage] = useState(1);
+  const [examSession, setExamSession] = useState<ExamSession | null>(null);
+  const [examResult, setExamResult] = useState<ExamResult | null>(null);
+  const [isSummaryVisible, setIsSummaryVisible] = useState(false);
+  const [isSubmitDialogOpen, setIsSubmitDialogOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  // Mirrors the attempt state of `progressRef` so page gating re-renders when a tile is checked.
+  const [tileProgress, setTileProgress] = useState<LessonProgress['tiles']>({});
+  const [shuffleSeed, setShuffleSeed] = useState<string | undefined>(undefined);
+  // A newer revision announced by the runtime service, applied once the current one is loaded.
+  const [publishedLesson, setPublishedLesson] = useState<Lesson | null>(null);
+  const [updateNotice, setUpdateNotice] = useState<string | null>(null);
+  const progressRef = useRef<LessonProgress | null>(null);
+  const saveTimeoutRef = useRef<number | null>(null);
+  const isExam = mode === 'exam';
+  const progressStorage = isExam ? lessonExamStorage : lessonProgressStorage;
+
+  const flushProgress = useCallback(() => {
+    if (saveTimeoutRef.current !== null) {
+      window.clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    if (progressRef.current) {
+      void progressStorage.save(progressRef.current);
+    }
+  }, [progressStorage]);
+
+  const updateProgress = useCallback((update: (progress: LessonProgress) => LessonProgress) => {
+    const current = progressRef.current;
+    if (!current) return;
+
+    const next = update(current);
+    if (next === current) return;
+
+    progressRef.current = next;
+    if (saveTimeoutRef.current !== null) {
+      window.clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = window.setTimeout(() => {
+      saveTimeoutRef.current = null;
+      void progressStorage.save(next);
+    }, PROGRESS_SAVE_DELAY_MS);
+  }, [progressStorage]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushProgress);
+    return () => {
+      window.removeEventListener('pagehide', flushProgress);
+      flushProgress();
+    };
+  }, [flushProgress]);
 
   useEffect(() => {
     let isMounted = true;
 
     const loadContent = async () => {
       setIsLoading(true);
+      progressRef.current = null;
+      setExamSession(null);
+      setExamResult(null);
       try {
         const content = await LessonRuntimeService.loadLesson(lesson.id);
         if (!isMounted) return;
+
+        // Tiles read their saved answers when they mount, so progress has to be in place
+        // before the content is rendered.
+        const savedProgress = content ? await progressStorage.load(content) : null;
+        if (!isMounted) return;
+
+        if (content) {
+          const progress = savedProgress ?? createLessonProgress(content, 1, getStudentId());
+          const progressSeed = getProgressShuffleSeed(progress);
+          const playableContent = getPlayableLesson(content, progressSeed);
+          progressRef.current = progress;
+          setTileProgress(progress.tiles);
+          setShuffleSeed(progressSeed);
+          const lastAllowedPage = isExam
+            ? content.total_pages
+            : getLastUnlockedPage(playableContent, progress.tiles);
+          setActivePage(Math.min(Math.max(progress.activePage, 1), lastAllowedPage));
+
+          if (isExam && progress.exam) {
+            setExamSession(progress.exam);
+            if (progress.exam.submittedAt) {
+              setExamResult(gradeProgress(playableContent.tiles, progress));
+              setIsSummaryVisible(true);
+            }
+          }
+        }
         setLessonContent(content);
       } finally {
         if (isMounted) {
@@ -36,9 +170,58 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
     return () => {
       isMounted = false;
     };
+  }, [lesson.id, isExam, progressStorage]);
+
+  useEffect(() => {
+    const unsubscribe = LessonRuntimeService.onLessonUpdated(lesson.id, setPublishedLesson);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        void LessonRuntimeService.refreshLesson(lesson.id);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      setPublishedLesson(null);
+    };
   }, [lesson.id]);
 
-  const totalPages = lessonContent?.total_pages ?? 1;
+  useEffect(() => {
+    if (!publishedLesson || !lessonContent || isLoading) return;
+    setPublishedLesson(null);
+
+    // A submitted exam was graded against the revision the student saw; it stays on it.
+    if (examSession?.submittedAt) return;
+
+    const seed = shuffleSeed ?? DEFAULT_SHUFFLE_SEED;
+    const current = progressRef.current;
+    if (current) {
+      const rebased = rebaseLessonProgress(
+        current,
+        getPlayableLesson(lessonContent, seed).tiles,
+        getPlayableLesson(publishedLesson, seed)
+      );
+      const droppedAnswers = Object.keys(current.tiles).length - Object.keys(rebased.tiles).length;
+      updateProgress(() => rebased);
+      flushProgress();
+      setTileProgress(rebased.tiles);
+      setUpdateNotice(
+        droppedAnswers > 0
+          ? 'Wczytano nowszą wersję lekcji. Odpowiedzi w zmienionych zadaniach zostały wyczyszczone.'
+          : 'Wczytano nowszą wersję lekcji.'
+      );
+    }
+    setLessonContent(publishedLesson);
+  }, [publishedLesson, lessonContent, isLoading, examSession, shuffleSeed, updateProgress, flushProgress]);
+
+  const playableLesson = useMemo(
+    () => (lessonContent ? getPlayableLesson(lessonContent, shuffleSeed ?? DEFAULT_SHUFFLE_SEED) : null),
+    [lessonContent, shuffleSeed]
+  );
+  const totalPages = playableLesson?.total_pages ?? 1;
 
   useEffect(() => {
     if (activePage > totalPages) {
@@ -46,10 +229,82 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
     }
   }, [activePage, totalPages]);
 
+  useEffect(() => {
+    updateProgress(progress => setProgressPage(progress, activePage));
+  }, [activePage, updateProgress]);
+
+  const handleAnswerChange = useCallback(
+    (change: TileAnswerChange) => updateProgress(progress => applyAnswerChange(progress, change)),
+    [updateProgress]
+  );
+
+  const handleAttempt = useCallback(
+    (attempt: TileAttempt) => {
+      updateProgress(progress => applyTileAttempt(progress, attempt));
+      setTileProgress(progressRef.current?.tiles ?? {});
+    },
+    [updateProgress]
+  );
+
+  // Exams are graded only after submission, so there is nothing to gate pages on.
+  const lastUnlockedPage = useMemo(
+    () => (isExam || !playableLesson ? totalPages : getLastUnlockedPage(playableLesson, tileProgress)),
+    [isExam, playableLesson, tileProgress, totalPages]
+  );
+  const isNextPageLocked = activePage >= lastUnlockedPage && activePage < totalPages;
+
+  const getTileProgress = useCallback((tileId: string) => progressRef.current?.tiles[tileId], []);
+
+  const examTaskCount = useMemo(
+    () => playableLesson?.tiles.filter(tile => answerableTileTypeSchema.safeParse(tile.type).success).length ?? 0,
+    [playableLesson]
+  );
+
+  const handleStartExam = () => {
+    updateProgress(progress => startExam(progress, examTimeLimitMinutes));
+    flushProgress();
+    if (progressRef.current) {
+      setExamSession(progressRef.current.exam ?? null);
+      setShuffleSeed(getProgressShuffleSeed(progressRef.current));
+    }
+    setActivePage(1);
+  };
+
+  const handleSubmitExam = useCallback(() => {
+    if (!playableLesson) return;
+
+    updateProgress(submitExam);
+    flushProgress();
+
+    const progress = progressRef.current;
+    if (!progress) return;
+    setExamSession(progress.exam ?? null);
+    setExamResult(gradeProgress(playableLesson.tiles, progress));
+    setIsSummaryVisible(true);
+    setIsSubmitDialogOpen(false);
+  }, [flushProgress, playableLesson, updateProgress]);
+
+  const examDeadline = examSession ? getExamDeadline(examSession) : null;
+  const isExamRunning = Boolean(examSession && !examSession.submittedAt);
+
+  useEffect(() => {
+    if (!isExamRunning || examDeadline === null) return;
+
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isExamRunning, examDeadline]);
+
+  useEffect(() => {
+    if (isExamRunning && examDeadline !== null && now >= examDeadline) {
+      handleSubmitExam();
+    }
+  }, [examDeadline, handleSubmitExam, isExamRunning, now]);
+
   const tilesForPage = useMemo(() => {
-    if (!lessonContent) return [] as LessonTile[];
-    return lessonContent.tiles.filter(tile => (tile.page ?? 1) === activePage);
-  }, [lessonContent, activePage]);
+    if (!playableLesson) return [] as LessonTile[];
+    return playableLesson.tiles.filter(tile => (tile.page ?? 1) === activePage);
+  }, [playableLesson, activePage]);
 
   const PaginationSection = ({ position }: { position: 'top' | 'bottom' }) => {
     const handlePrevious = () => {
@@ -57,7 +312,7 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
     };
 
     const handleNext = () => {
-      setActivePage(prev => Math.min(totalPages, prev + 1));
+      setActivePage(prev => Math.min(lastUnlockedPage, prev + 1));
     };
 
     const isDisabled = totalPages <= 1 || isLoading;
@@ -74,6 +329,12 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
               Nawigacja
             </span>
             <span className="text-sm text-slate-600">Strona {activePage} z {totalPages}</span>
+            {isNextPageLocked && (
+              <span className="inline-flex items-center gap-1.5 text-xs text-amber-700">
+                <Lock className="w-3.5 h-3.5" aria-hidden="true" />
+                Wykonaj zadania na tej stronie, aby przejść dalej.
+              </span>
+            )}
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
@@ -95,8 +356,10 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
                 key={page}
                 type="button"
                 onClick={() => setActivePage(page)}
-                disabled={isDisabled}
+                disabled={isDisabled || page > lastUnlockedPage}
                 className={`px-4 py-2 text-sm font-medium rounded-full border transition-colors focus:outline-none focus:ring-2 focus:ring-slate-300 focus:ring-offset-1 disabled:cursor-not-allowed ${
+                  page > lastUnlockedPage ? 'opacity-50 ' : ''
+                }${
                   page === activePage
                     ? 'bg-slate-900 text-white border-slate-900'
                     : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'
@@ -109,9 +372,9 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
             <button
               type="button"
               onClick={handleNext}
-              disabled={isDisabled || activePage === totalPages}
+              disabled={isDisabled || activePage === totalPages || isNextPageLocked}
               className={`px-4 py-2 text-sm font-medium rounded-full border transition-colors focus:outline-none focus:ring-2 focus:ring-slate-300 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-not-allowed ${
-                activePage === totalPages || isDisabled
+                activePage === totalPages || isDisabled || isNextPageLocked
                   ? 'bg-white text-slate-400 border-slate-200'
                   : 'bg-white text-slate-600 border-slate-200 hover:border-slate-400'
               }`}
@@ -139,7 +402,7 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
 
           <div className="flex items-center gap-2 text-slate-500 text-sm">
             <LayoutDashboard className="w-4 h-4" />
-            Podgląd lekcji
+            {isExam ? 'Test' : 'Podgląd lekcji'}
           </div>
         </div>
       </div>
@@ -158,26 +421,88 @@ export const LessonView: React.FC<LessonViewProps> = ({ lesson, course, onBack }
           </div>
         </div>
 
-        <PaginationSection position="top" />
-
-        {isLoading ? (
-          <div className="flex items-center justify-center py-24">
-            <Loader2 className="w-8 h-8 animate-spin text-slate-400" aria-hidden="true" />
-          </div>
-        ) : tilesForPage.length === 0 || !lessonContent ? (
-          <div className="bg-white border border-dashed border-slate-300 rounded-3xl py-24 text-center text-slate-500">
-            Dodaj kafelki w edytorze, aby zobaczyć podgląd lekcji.
+        {updateNotice && (
+          <div className="flex items-start gap-3 bg-sky-50 border border-sky-200 text-sky-800 rounded-2xl px-4 py-3 text-sm">
+            <RefreshCw className="w-4 h-4 mt-0.5 flex-shrink-0" aria-hidden="true" />
+            <span className="flex-1">{updateNotice}</span>
+            <button
+              type="button"
+              onClick={() => setUpdateNotice(null)}
+              className="text-sky-600 hover:text-sky-900"
+              aria-label="Zamknij powiadomienie"
+            >
+              <X className="w-4 h-4" />
+            </button>
           </div>
-        ) : (
-          <LessonRuntimeCanvas
-            tiles={tilesForPage}
-            canvasSettings={lessonContent.canvas_settings}
-            mode="student"
+        )}
+
+        {isExam && examSession && (
+          <ExamStatusBar
+            session={examSession}
+            remainingMs={isExamRunning && examDeadline !== null ? examDeadline - now : null}
+            isSummaryVisible={isSummaryVisible}
+            onSubmit={() => setIsSubmitDialogOpen(true)}
+            onShowSummary={() => setIsSummaryVisible(true)}
           />
         )}
 
-        <PaginationSection position="bottom" />
+        {isExam && !examSession && !isLoading && playableLesson ? (
+          <ExamStartPanel
+            taskCount={examTaskCount}
+            timeLimitMinutes={examTimeLimitMinutes}
+            onStart={handleStartExam}
+          />
+        ) : isExam && isSummaryVisible && examResult ? (
+          <ExamSummary
+            result={examResult}
+            submittedAt={examSession?.submittedAt}
+            onReview={() => setIsSummaryVisible(false)}
+          />
+        ) : (
+          <>
+            <PaginationSection position="top" />
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-24">
+                <Loader2 className="w-8 h-8 animate-spin text-slate-400" aria-hidden="true" />
+              </div>
+            ) : tilesForPage.length === 0 || !playableLesson ? (
+              <div className="bg-white border border-dashed border-slate-300 rounded-3xl py-24 text-center text-slate-500">
+                Dodaj kafelki w edytorze, aby zobaczyć podgląd lekcji.
+              </div>
+            ) : (
+              <LessonRuntimeCanvas
+                // Tiles restore their state only when they mount; a new revision remounts them.
+                key={playableLesson.updated_at}
+                tiles={tilesForPage}
+                canvasSettings={playableLesson.canvas_settings}
+                mode="student"
+                onAnswerChange={handleAnswerChange}
+                onAttempt={handleAttempt}
+                getTileProgress={getTileProgress}
+                feedback={isExam ? 'deferred' : 'immediate'}
+                isLocked={Boolean(examSession?.submittedAt)}
+                shuffleSeed={shuffleSeed}
+              />
+            )}
+
+            <PaginationSection position="bottom" />
+          </>
+        )}
       </div>
+
+      <ConfirmDialog
+        isOpen={isSubmitDialogOpen}
+        title="Zakończyć test?"
+        message="Po przesłaniu testu nie będzie można zmienić odpowiedzi."
+        confirmText="Prześlij test"
+        type="info"
+        onConfirm={() => {
+          handleSubmitExam();
+          setIsSubmitDialogOpen(false);
+        }}
+        onCancel={() => setIsSubmitDialogOpen(false)}
+      />
     </div>
   );
 };
@@ -1,6 +1,11 @@
 import React from 'react';
 import { AlertTriangle, X } from 'lucide-react';
 
+export interface ConfirmDialogAction {
+  text: string;
+  onClick: () => void | Promise<void>;
+}
+
 interface ConfirmDialogProps {
   isOpen: boolean;
   title: string;
@@ -8,8 +13,14 @@ interface ConfirmDialogProps {
   confirmText?: string;
   cancelText?: string;
   type?: 'warning' | 'danger' | 'info';
+  /** Additional buttons rendered between cancel and confirm. They do not close the dialog on their own. */
+  extraActions?: ConfirmDialogAction[];
+  children?: React.ReactNode;
+  /** The caller closes the dialog itself once the confirmed action is done. */
   onConfirm: () => void | Promise<void>;
   onCancel: () => void;
+  /** Close button in the header. Defaults to `onCancel`. */
+  onClose?: () => void;
 }
 
 export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
@@ -19,8 +30,11 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   confirmText = 'Potwierdź',
   cancelText = 'Anuluj',
   type = 'warning',
+  extraActions = [],
+  children,
   onConfirm,
-  onCancel
+  onCancel,
+  onClose = onCancel
 }) => {
   if (!isOpen) return null;
 
@@ -38,11 +52,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   };
 
   const handleConfirm = async () => {
-    try {
-      await Promise.resolve(onConfirm());
-    } finally {
-      onCancel();
-    }
+    await Promise.resolve(onConfirm());
   };
 
   return (
@@ -53,10 +63,19 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
             <div className="w-10 h-10 bg-yellow-100 rounded-full flex items-center justify-center">
               <AlertTriangle className="w-5 h-5 text-yellow-600" />
             </div>
-            <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+            <h3 className="flex-1 text-lg font-semibold text-gray-900">{title}</h3>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
+              aria-label="Zamknij"
+            >
+              <X className="w-5 h-5" />
+            </button>
           </div>
           
           <p className="text-gray-600 mb-6">{message}</p>
+
+          {children}
           
           <div className="flex space-x-3 justify-end">
             <button
@@ -65,6 +84,15 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
             >
               {cancelText}
             </button>
+            {extraActions.map(action => (
+              <button
+                key={action.text}
+                onClick={() => void action.onClick()}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                {action.text}
+              </button>
+            ))}
             <button
               onClick={handleConfirm}
               className={`px-4 py-2 rounded-lg transition-colors ${getButtonColors()}`}
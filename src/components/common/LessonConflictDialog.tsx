@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { LessonConflictResolution, LessonSaveConflict, TileConflict, TileConflictChoice } from 'tiles-editor';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface LessonConflictDialogProps {
+  conflict: LessonSaveConflict;
+  onResolve: (resolution: LessonConflictResolution) => void | Promise<void>;
+  /** Close the dialog and leave the conflict unresolved for now. */
+  onDismiss: () => void;
+}
+
+const TILE_TYPE_LABELS: Record<TileConflict['tileType'], string> = {
+  text: 'Tekst',
+  image: 'Obraz',
+  interactive: 'Interaktywny',
+  visualization: 'Wizualizacja',
+  quiz: 'Quiz',
+  programming: 'Programowanie',
+  sequencing: 'Kolejność',
+  blanks: 'Luki',
+  open: 'Pytanie otwarte',
+  pairing: 'Dopasowanie',
+  'bank-slot': 'Pytanie z banku'
+};
+
+const STATUS_LABELS: Record<TileConflict['status'], string> = {
+  modified: 'zmieniony w obu wersjach',
+  addedLocally: 'dodany u Ciebie',
+  addedRemotely: 'dodany w innej wersji',
+  deletedLocally: 'usunięty u Ciebie',
+  deletedRemotely: 'usunięty w innej wersji'
+};
+
+export const LessonConflictDialog: React.FC<LessonConflictDialogProps> = ({ conflict, onResolve, onDismiss }) => {
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [choices, setChoices] = useState<Record<string, TileConflictChoice>>({});
+
+  if (!isReviewing) {
+    return (
+      <ConfirmDialog
+        isOpen
+        title="Konflikt zapisu"
+        message={`Ktoś inny zapisał tę lekcję w międzyczasie (zmienione kafelki: ${conflict.tiles.length}). Wybierz, którą wersję zachować.`}
+        confirmText="Zachowaj moje"
+        cancelText="Później"
+        extraActions={[
+          { text: 'Przejrzyj kafelki', onClick: () => setIsReviewing(true) },
+          { text: 'Przyjmij ich wersję', onClick: () => onResolve('takeTheirs') }
+        ]}
+        onConfirm={() => onResolve('keepMine')}
+        onCancel={onDismiss}
+      />
+    );
+  }
+
+  return (
+    <ConfirmDialog
+      isOpen
+      title="Przejrzyj zmienione kafelki"
+      message="Wybierz wersję każdego kafelka. Kafelki bez zmian pozostaną bez zmian."
+      confirmText="Zastosuj"
+      cancelText="Wróć"
+      type="info"
+      onConfirm={() => onResolve({ tiles: choices })}
+      onCancel={() => setIsReviewing(false)}
+      onClose={onDismiss}
+    >
+      <ul className="mb-6 max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {conflict.tiles.map(tile => {
+          const choice = choices[tile.tileId] ?? 'mine';
+
+          return (
+            <li key={tile.tileId} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {TILE_TYPE_LABELS[tile.tileType]} · strona {tile.page}
+                </p>
+                <p className="text-gray-500">{STATUS_LABELS[tile.status]}</p>
+              </div>
+              <div className="flex space-x-1">
+                {(['mine', 'theirs'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setChoices(prev => ({ ...prev, [tile.tileId]: option }))}
+                    className={`px-2 py-1 rounded-md transition-colors ${
+                      choice === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option === 'mine' ? 'Moja' : 'Ich'}
+                  </button>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </ConfirmDialog>
+  );
+};
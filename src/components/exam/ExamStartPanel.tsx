@@ -0,0 +1,38 @@
+import React from 'react';
+import { ClipboardList, Play } from 'lucide-react';
+
+interface ExamStartPanelProps {
+  taskCount: number;
+  timeLimitMinutes?: number;
+  onStart: () => void;
+}
+
+export const ExamStartPanel: React.FC<ExamStartPanelProps> = ({ taskCount, timeLimitMinutes, onStart }) => (
+  <div className="bg-white border border-slate-200 rounded-3xl shadow-sm p-8 flex flex-col items-center text-center gap-4">
+    <div className="w-14 h-14 rounded-2xl bg-slate-900 text-white flex items-center justify-center">
+      <ClipboardList className="w-7 h-7" />
+    </div>
+    <div className="space-y-1">
+      <h2 className="text-xl font-semibold text-slate-900">Tryb testu</h2>
+      <p className="text-sm text-slate-600">
+        Liczba zadań: {taskCount}
+        {timeLimitMinutes ? ` · Limit czasu: ${timeLimitMinutes} min` : ' · Bez limitu czasu'}
+      </p>
+    </div>
+    <p className="max-w-md text-sm text-slate-500">
+      Podczas testu nie zobaczysz, czy odpowiedzi są poprawne. Po przesłaniu odpowiedzi zostaną
+      zablokowane, a wynik pojawi się w podsumowaniu.
+      {timeLimitMinutes ? ' Po upływie czasu test zostanie przesłany automatycznie.' : ''}
+    </p>
+    <button
+      type="button"
+      onClick={onStart}
+      className="inline-flex items-center gap-2 px-6 py-3 text-sm font-medium rounded-full bg-slate-900 text-white hover:bg-slate-800"
+    >
+      <Play className="w-4 h-4" />
+      Rozpocznij test
+    </button>
+  </div>
+);
+
+export default ExamStartPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ClipboardCheck, Send, Timer } from 'lucide-react';
+import { ExamSession } from 'tiles-core';
+import { formatRemainingTime } from './examLabels';
+
+interface ExamStatusBarProps {
+  session: ExamSession;
+  /** Milliseconds left, or `null` when the exam has no time limit. */
+  remainingMs: number | null;
+  isSummaryVisible: boolean;
+  onSubmit: () => void;
+  onShowSummary: () => void;
+}
+
+/** Low on time: the countdown turns red during the last minute. */
+const WARNING_THRESHOLD_MS = 60_000;
+
+export const ExamStatusBar: React.FC<ExamStatusBarProps> = ({
+  session,
+  remainingMs,
+  isSummaryVisible,
+  onSubmit,
+  onShowSummary
+}) => {
+  const isSubmitted = Boolean(session.submittedAt);
+  const isRunningOut = remainingMs !== null && remainingMs <= WARNING_THRESHOLD_MS;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl shadow-sm p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+      <div className="flex flex-col gap-1">
+        <span className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-400">Test</span>
+        <span className="text-sm text-slate-600">
+          {isSubmitted
+            ? 'Test został przesłany. Odpowiedzi są zablokowane.'
+            : 'Wyniki zobaczysz po przesłaniu testu.'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {!isSubmitted && remainingMs !== null && (
+          <span
+            className={`inline-flex items-center gap-2 px-3 py-2 rounded-full text-sm font-semibold tabular-nums ${
+              isRunningOut ? 'bg-rose-50 text-rose-600' : 'bg-slate-100 text-slate-700'
+            }`}
+            aria-live="polite"
+          >
+            <Timer className="w-4 h-4" />
+            {formatRemainingTime(remainingMs)}
+          </span>
+        )}
+
+        {isSubmitted ? (
+          !isSummaryVisible && (
+            <button
+              type="button"
+              onClick={onShowSummary}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full bg-slate-900 text-white hover:bg-slate-800"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+              Pokaż podsumowanie
+            </button>
+          )
+        ) : (
+          <button
+            type="button"
+            onClick={onSubmit}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full bg-slate-900 text-white hover:bg-slate-800"
+          >
+            <Send className="w-4 h-4" />
+            Zakończ test
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamStatusBar;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { CheckCircle2, ClipboardCheck, Eye, MinusCircle, XCircle } from 'lucide-react';
+import { ExamResult, ExamTileResult } from 'tiles-core';
+import { EXAM_TILE_TYPE_LABELS, formatExamScore } from './examLabels';
+
+interface ExamSummaryProps {
+  result: ExamResult;
+  submittedAt?: string;
+  onReview: () => void;
+}
+
+const getPercentage = (score: number, maxScore: number) =>
+  maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+const TileResultRow: React.FC<{ tileResult: ExamTileResult; index: number }> = ({ tileResult, index }) => {
+  const { result } = tileResult;
+  const label = `Zadanie ${index + 1} · ${EXAM_TILE_TYPE_LABELS[tileResult.tileType]}`;
+
+  if (!result) {
+    return (
+      <li className="flex items-center justify-between gap-4 py-3">
+        <span className="flex items-center gap-2 text-sm text-slate-700">
+          <MinusCircle className="w-4 h-4 text-slate-400" />
+          {label}
+        </span>
+        <span className="text-xs font-medium text-slate-500">Wymaga oceny nauczyciela</span>
+      </li>
+    );
+  }
+
+  const Icon = result.isCorrect ? CheckCircle2 : XCircle;
+
+  return (
+    <li className="flex items-center justify-between gap-4 py-3">
+      <span className="flex items-center gap-2 text-sm text-slate-700">
+        <Icon className={`w-4 h-4 ${result.isCorrect ? 'text-emerald-500' : 'text-rose-500'}`} />
+        {label}
+        {!tileResult.isAnswered && <span className="text-xs text-slate-400">(brak odpowiedzi)</span>}
+      </span>
+      <span className="text-sm font-semibold text-slate-900">
+        {formatExamScore(result.score)} / {formatExamScore(result.maxScore)} pkt
+      </span>
+    </li>
+  );
+};
+
+export const ExamSummary: React.FC<ExamSummaryProps> = ({ result, submittedAt, onReview }) => {
+  const percentage = getPercentage(result.score, result.maxScore);
+  const pageOffsets = result.pages.map((_, index) =>
+    result.pages.slice(0, index).reduce((count, page) => count + page.tiles.length, 0)
+  );
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-3xl shadow-sm p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 rounded-2xl bg-slate-900 text-white flex items-center justify-center">
+            <ClipboardCheck className="w-6 h-6" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-slate-900">Podsumowanie testu</h2>
+            {submittedAt && (
+              <p className="text-sm text-slate-500">
+                Przesłano {new Date(submittedAt).toLocaleString('pl-PL')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="text-right">
+          <div className="text-3xl font-semibold text-slate-900">
+            {formatExamScore(result.score)} / {formatExamScore(result.maxScore)} pkt
+          </div>
+          <div className="text-sm text-slate-500">{percentage}%</div>
+        </div>
+      </div>
+
+      {result.ungradedTiles.length > 0 && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-2xl px-4 py-3">
+          Zadania wymagające oceny nauczyciela ({result.ungradedTiles.length}) nie są wliczone do wyniku.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {result.pages.map((page, pageIndex) => (
+          <section key={page.page} className="border border-slate-200 rounded-2xl px-4 py-3">
+            <header className="flex items-center justify-between border-b border-slate-100 pb-2">
+              <h3 className="text-sm font-semibold uppercase tracking-[0.18em] text-slate-500">
+                Strona {page.page}
+              </h3>
+              <span className="text-sm font-semibold text-slate-900">
+                {formatExamScore(page.score)} / {formatExamScore(page.maxScore)} pkt
+              </span>
+            </header>
+            <ul className="divide-y divide-slate-100">
+              {page.tiles.map((tileResult, index) => (
+                <TileResultRow
+                  key={tileResult.tileId}
+                  tileResult={tileResult}
+                  index={pageOffsets[pageIndex] + index}
+                />
+              ))}
+            </ul>
+          </section>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onReview}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-full border border-slate-200 text-slate-600 hover:border-slate-400"
+        >
+          <Eye className="w-4 h-4" />
+          Przejrzyj odpowiedzi
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSummary;
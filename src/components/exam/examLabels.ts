@@ -0,0 +1,21 @@
+import { AnswerableTileType } from 'tiles-core';
+
+export const EXAM_TILE_TYPE_LABELS: Record<AnswerableTileType, string> = {
+  quiz: 'Quiz',
+  blanks: 'Uzupełnij luki',
+  open: 'Odpowiedź otwarta',
+  sequencing: 'Ćwiczenie sekwencyjne',
+  pairing: 'Dopasuj pary',
+  programming: 'Zadanie programistyczne',
+  interactive: 'Zadanie interaktywne'
+};
+
+export const formatExamScore = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0$/, '').replace('.', ',');
+
+export const formatRemainingTime = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,132 @@
+import {
+  Lesson,
+  LessonProgress,
+  isLessonProgressCurrent,
+  lessonProgressSchema,
+  pruneLessonProgress
+} from 'tiles-core';
+
+const PROGRESS_STORAGE_KEY_PREFIX = 'lesson-progress:';
+const EXAM_STORAGE_KEY_PREFIX = 'lesson-exam:';
+
+/**
+ * Persistence backend for student progress. Adapters return the stored record as raw JSON;
+ * `LessonProgressStorage` validates it against the lesson before handing it out.
+ */
+export interface LessonProgressStorageAdapter {
+  readonly name: string;
+  /** Resolves to the stored record or `null` when nothing was saved for the lesson. */
+  get: (lessonId: string) => Promise<unknown>;
+  save: (progress: LessonProgress) => Promise<void>;
+  delete: (lessonId: string) => Promise<void>;
+}
+
+const isBrowserEnvironment = () =>
+  typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
+
+export const createLocalStorageProgressAdapter = (
+  keyPrefix: string = PROGRESS_STORAGE_KEY_PREFIX
+): LessonProgressStorageAdapter => {
+  const getKey = (lessonId: string) => `${keyPrefix}${lessonId}`;
+
+  return {
+    name: 'localStorage',
+    get: async lessonId => {
+      if (!isBrowserEnvironment()) return null;
+      const stored = window.localStorage.getItem(getKey(lessonId));
+      return stored ? (JSON.parse(stored) as unknown) : null;
+    },
+    save: async progress => {
+      if (!isBrowserEnvironment()) return;
+      window.localStorage.setItem(getKey(progress.lessonId), JSON.stringify(progress));
+    },
+    delete: async lessonId => {
+      if (!isBrowserEnvironment()) return;
+      window.localStorage.removeItem(getKey(lessonId));
+    }
+  };
+};
+
+export const createMemoryProgressAdapter = (): LessonProgressStorageAdapter => {
+  const records = new Map<string, string>();
+
+  return {
+    name: 'memory',
+    get: async lessonId => {
+      const stored = records.get(lessonId);
+      return stored ? (JSON.parse(stored) as unknown) : null;
+    },
+    save: async progress => {
+      records.set(progress.lessonId, JSON.stringify(progress));
+    },
+    delete: async lessonId => {
+      records.delete(lessonId);
+    }
+  };
+};
+
+type ProgressLesson = Pick<Lesson, 'id' | 'updated_at' | 'tiles'>;
+
+/**
+ * Loads and saves per-lesson student progress. Progress that no longer matches the lesson
+ * (unreadable, or recorded against a different `updated_at`) is deleted instead of restored,
+ * so answers are never applied to tiles that may have changed underneath them.
+ */
+export class LessonProgressStorage {
+  constructor(private readonly adapter: LessonProgressStorageAdapter = createLocalStorageProgressAdapter()) {}
+
+  async load(lesson: ProgressLesson): Promise<LessonProgress | null> {
+    let stored: unknown;
+    try {
+      stored = await this.adapter.get(lesson.id);
+    } catch (error) {
+      console.warn('LessonProgressStorage: failed to read progress', error);
+      await this.clear(lesson.id);
+      return null;
+    }
+
+    if (stored === null || stored === undefined) {
+      return null;
+    }
+
+    const result = lessonProgressSchema.safeParse(stored);
+    if (!result.success) {
+      console.warn('LessonProgressStorage: discarding invalid progress', result.error);
+      await this.clear(lesson.id);
+      return null;
+    }
+
+    if (!isLessonProgressCurrent(result.data, lesson)) {
+      console.info('LessonProgressStorage: lesson was updated, discarding saved progress', {
+        lessonId: lesson.id,
+        savedFor: result.data.lessonUpdatedAt,
+        current: lesson.updated_at
+      });
+      await this.clear(lesson.id);
+      return null;
+    }
+
+    return pruneLessonProgress(result.data, lesson.tiles);
+  }
+
+  async save(progress: LessonProgress): Promise<void> {
+    try {
+      await this.adapter.save(progress);
+    } catch (error) {
+      console.warn('LessonProgressStorage: failed to persist progress', error);
+    }
+  }
+
+  async clear(lessonId: string): Promise<void> {
+    try {
+      await this.adapter.delete(lessonId);
+    } catch (error) {
+      console.warn('LessonProgressStorage: failed to clear progress', error);
+    }
+  }
+}
+
+export const lessonProgressStorage = new LessonProgressStorage();
+
+/** Exam answers are kept apart from practice progress so neither leaks into the other. */
+export const lessonExamStorage = new LessonProgressStorage(createLocalStorageProgressAdapter(EXAM_STORAGE_KEY_PREFIX));
@@ -1,13 +1,52 @@
-import { Lesson, LessonTile, lessonSchema, migrateTileConfig } from 'tiles-core';
+import {
+  Lesson,
+  LessonTile,
+  lessonSchema,
+  migrateLessonDocument,
+  migrateTiles,
+  sanitizeLessonHtml
+} from 'tiles-core';
+import { z } from 'zod';
 
 const RUNTIME_STORAGE_KEY_PREFIX = 'lesson-runtime:';
 const LEGACY_STORAGE_KEY_PREFIX = 'lesson-content:';
 
+/** Used when neither the caller, the server (`Cache-Control: max-age`) nor the environment set one. */
+const DEFAULT_MAX_AGE_MS = 60_000;
+
 type LessonRuntimeOptions = {
   endpoint?: string;
   useCache?: boolean;
+  /**
+   * How long a cached lesson is served without asking the API again. Older copies are still
+   * returned immediately, but refreshed in the background.
+   */
+  maxAgeMs?: number;
 };
 
+/** Receives the newer revision found while a stale cached copy was being shown. */
+type LessonUpdateListener = (lesson: Lesson) => void;
+
+interface CachedLesson {
+  lesson: Lesson;
+  /** Epoch milliseconds of the last time the API confirmed or replaced this copy. */
+  cachedAt: number;
+  etag?: string;
+  /** Freshness granted by the server's `Cache-Control: max-age`. */
+  maxAgeMs?: number;
+}
+
+type ApiResult =
+  | { status: 'updated'; lesson: Lesson; etag?: string; maxAgeMs?: number }
+  | { status: 'not-modified'; maxAgeMs?: number };
+
+const cachedEntrySchema = z.object({
+  lesson: z.unknown(),
+  cachedAt: z.number(),
+  etag: z.string().optional(),
+  maxAgeMs: z.number().nonnegative().optional()
+});
+
 const isBrowserEnvironment = () =>
   typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
 
@@ -20,11 +59,21 @@ const cloneLesson = <T>(value: T): T => {
   return JSON.parse(JSON.stringify(value)) as T;
 };
 
-const applyTileMigrations = (tiles: LessonTile[]): LessonTile[] =>
-  tiles.map(tile => migrateTileConfig(tile));
+const applyTileMigrations = (tiles: LessonTile[]): LessonTile[] => {
+  const { tiles: migratedTiles, reports } = migrateTiles(tiles);
+  if (reports.length > 0) {
+    console.info('LessonRuntimeService: migrated tiles to the current format', reports);
+  }
 
+  return migratedTiles;
+};
+
+/**
+ * Every lesson the runtime hands out passes through here: API payloads, cached copies and
+ * editor snapshots alike, so their rich text is sanitized before any student sees it.
+ */
 const normalizeLesson = (lesson: Lesson): Lesson => {
-  const cloned = cloneLesson(lesson);
+  const cloned = sanitizeLessonHtml(cloneLesson(lesson));
   const migratedTiles = applyTileMigrations(cloned.tiles);
   const highestPage = migratedTiles.reduce((max, tile) => Math.max(max, tile.page ?? 1), 1);
 
@@ -54,8 +103,35 @@ const resolveApiEndpoint = (lessonId: string, override?: string): string | null
   return `${normalized}/${lessonId}`;
 };
 
+const resolveMaxAge = (entry: Pick<CachedLesson, 'maxAgeMs'>, override?: number): number => {
+  if (override !== undefined) return override;
+  if (entry.maxAgeMs !== undefined) return entry.maxAgeMs;
+
+  const configured = Number(import.meta.env.VITE_LESSON_RUNTIME_MAX_AGE_SECONDS);
+  return Number.isFinite(configured) && configured >= 0 ? configured * 1000 : DEFAULT_MAX_AGE_MS;
+};
+
+const parseCacheControlMaxAge = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  if (/no-cache|no-store/i.test(header)) return 0;
+
+  const match = /max-age=(\d+)/i.exec(header);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/** Both fields change on every save, so equal values mean the same published lesson. */
+const isSameRevision = (a: Lesson, b: Lesson) => a.revision === b.revision && a.updated_at === b.updated_at;
+
 const parseLesson = (raw: unknown): Lesson | null => {
-  const result = lessonSchema.safeParse(raw);
+  let migrated: unknown;
+  try {
+    migrated = migrateLessonDocument(raw).lesson;
+  } catch (error) {
+    console.warn('LessonRuntimeService: lesson payload uses an unsupported format', error);
+    return null;
+  }
+
+  const result = lessonSchema.safeParse(migrated);
   if (!result.success) {
     console.warn('LessonRuntimeService: received invalid lesson payload', result.error);
     return null;
@@ -67,7 +143,11 @@ const parseLesson = (raw: unknown): Lesson | null => {
 const getRuntimeStorageKey = (lessonId: string) => `${RUNTIME_STORAGE_KEY_PREFIX}${lessonId}`;
 const getLegacyStorageKey = (lessonId: string) => `${LEGACY_STORAGE_KEY_PREFIX}${lessonId}`;
 
-const readFromStorage = (lessonId: string): Lesson | null => {
+/**
+ * Reads the cached copy of a lesson. Entries written before revalidation existed hold the bare
+ * lesson; they and the editor's local drafts count as stale, so they are refreshed on first use.
+ */
+const readFromStorage = (lessonId: string): CachedLesson | null => {
   if (!isBrowserEnvironment()) {
     return null;
   }
@@ -75,21 +155,29 @@ const readFromStorage = (lessonId: string): Lesson | null => {
   try {
     const storage = window.localStorage;
     const runtimeValue = storage.getItem(getRuntimeStorageKey(lessonId));
-    const legacyValue = runtimeValue ?? storage.getItem(getLegacyStorageKey(lessonId));
+    const storedValue = runtimeValue ?? storage.getItem(getLegacyStorageKey(lessonId));
+
+    if (!storedValue) {
+      return null;
+    }
 
-    if (!legacyValue) {
+    const raw = JSON.parse(storedValue) as unknown;
+    const entry = cachedEntrySchema.safeParse(raw);
+    const parsed = parseLesson(entry.success ? entry.data.lesson : raw);
+    if (!parsed) {
       return null;
     }
 
-    const parsed = parseLesson(JSON.parse(legacyValue));
-    return parsed ? cloneLesson(parsed) : null;
+    return entry.success
+      ? { lesson: parsed, cachedAt: entry.data.cachedAt, etag: entry.data.etag, maxAgeMs: entry.data.maxAgeMs }
+      : { lesson: parsed, cachedAt: 0 };
   } catch (error) {
     console.warn('LessonRuntimeService: failed to read lesson from storage', error);
     return null;
   }
 };
 
-const writeToStorage = (lessonId: string, lesson: Lesson) => {
+const writeToStorage = (lessonId: string, entry: CachedLesson) => {
   if (!isBrowserEnvironment()) {
     return;
   }
@@ -97,14 +185,14 @@ const writeToStorage = (lessonId: string, lesson: Lesson) => {
   try {
     window.localStorage.setItem(
       getRuntimeStorageKey(lessonId),
-      JSON.stringify(lesson)
+      JSON.stringify(entry)
     );
   } catch (error) {
     console.warn('LessonRuntimeService: failed to persist lesson cache', error);
   }
 };
 
-const fetchFromApi = async (lessonId: string, endpoint?: string): Promise<Lesson | null> => {
+const fetchFromApi = async (lessonId: string, endpoint?: string, etag?: string): Promise<ApiResult | null> => {
   if (typeof fetch !== 'function') {
     return null;
   }
@@ -115,51 +203,155 @@ const fetchFromApi = async (lessonId: string, endpoint?: string): Promise<Lesson
   }
 
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, etag ? { headers: { 'If-None-Match': etag } } : undefined);
+    const maxAgeMs = parseCacheControlMaxAge(response.headers.get('Cache-Control'));
+
+    if (response.status === 304) {
+      return { status: 'not-modified', maxAgeMs };
+    }
+
     if (!response.ok) {
       console.warn('LessonRuntimeService: API request failed', response.status, response.statusText);
       return null;
     }
 
     const payload = await response.json();
-    return parseLesson(payload);
+    const lesson = parseLesson(payload);
+    return lesson ? { status: 'updated', lesson, etag: response.headers.get('ETag') ?? undefined, maxAgeMs } : null;
   } catch (error) {
     console.warn('LessonRuntimeService: failed to fetch lesson from API', error);
     return null;
   }
 };
 
+const updateListeners = new Map<string, Set<LessonUpdateListener>>();
+const pendingRevalidations = new Map<string, Promise<void>>();
+
+const notifyLessonUpdated = (lessonId: string, lesson: Lesson) => {
+  updateListeners.get(lessonId)?.forEach(listener => {
+    try {
+      listener(cloneLesson(lesson));
+    } catch (error) {
+      console.warn('LessonRuntimeService: lesson update listener failed', error);
+    }
+  });
+};
+
+/**
+ * Asks the API whether the cached copy is still current. A 304 or an unchanged revision only
+ * renews the cache; a newer revision replaces it and is announced to the update listeners.
+ * Failures keep the stale copy, which is retried on the next load.
+ */
+const revalidate = (lessonId: string, cached: CachedLesson, endpoint?: string): Promise<void> => {
+  const pending = pendingRevalidations.get(lessonId);
+  if (pending) {
+    return pending;
+  }
+
+  const request = (async () => {
+    const result = await fetchFromApi(lessonId, endpoint, cached.etag);
+    if (!result) {
+      return;
+    }
+
+    if (result.status === 'not-modified') {
+      writeToStorage(lessonId, { ...cached, cachedAt: Date.now(), maxAgeMs: result.maxAgeMs ?? cached.maxAgeMs });
+      return;
+    }
+
+    writeToStorage(lessonId, {
+      lesson: result.lesson,
+      cachedAt: Date.now(),
+      etag: result.etag,
+      maxAgeMs: result.maxAgeMs
+    });
+
+    if (!isSameRevision(cached.lesson, result.lesson)) {
+      console.info('LessonRuntimeService: a newer revision of the lesson was published', {
+        lessonId,
+        cached: cached.lesson.updated_at,
+        current: result.lesson.updated_at
+      });
+      notifyLessonUpdated(lessonId, result.lesson);
+    }
+  })().finally(() => {
+    pendingRevalidations.delete(lessonId);
+  });
+
+  pendingRevalidations.set(lessonId, request);
+  return request;
+};
+
 export class LessonRuntimeService {
+  /**
+   * Stale-while-revalidate: a cached copy is returned right away and, once older than the
+   * max age, refreshed in the background. Subscribe with `onLessonUpdated` to receive the
+   * newer revision if there is one.
+   */
   static async loadLesson(
     lessonId: string,
     options: LessonRuntimeOptions = {}
   ): Promise<Lesson | null> {
-    const { useCache = true, endpoint } = options;
+    const { useCache = true, endpoint, maxAgeMs } = options;
 
     if (useCache) {
       const cached = readFromStorage(lessonId);
       if (cached) {
-        return cached;
+        if (Date.now() - cached.cachedAt >= resolveMaxAge(cached, maxAgeMs)) {
+          void revalidate(lessonId, cached, endpoint);
+        }
+        return cloneLesson(cached.lesson);
       }
     }
 
     const fromApi = await fetchFromApi(lessonId, endpoint);
-    if (fromApi) {
-      writeToStorage(lessonId, fromApi);
-      return cloneLesson(fromApi);
+    if (fromApi?.status === 'updated') {
+      writeToStorage(lessonId, {
+        lesson: fromApi.lesson,
+        cachedAt: Date.now(),
+        etag: fromApi.etag,
+        maxAgeMs: fromApi.maxAgeMs
+      });
+      return cloneLesson(fromApi.lesson);
     }
 
     if (!useCache) {
-      return readFromStorage(lessonId);
+      const cached = readFromStorage(lessonId);
+      return cached ? cloneLesson(cached.lesson) : null;
     }
 
     return null;
   }
 
+  /**
+   * Revalidates the cached copy if it is older than the max age, e.g. when a student returns
+   * to a tab that stayed open. Newer revisions are delivered through `onLessonUpdated`.
+   */
+  static async refreshLesson(lessonId: string, options: LessonRuntimeOptions = {}): Promise<void> {
+    const cached = readFromStorage(lessonId);
+    if (cached && Date.now() - cached.cachedAt >= resolveMaxAge(cached, options.maxAgeMs)) {
+      await revalidate(lessonId, cached, options.endpoint);
+    }
+  }
+
+  /** Calls `listener` whenever revalidation finds a newer revision of the lesson. */
+  static onLessonUpdated(lessonId: string, listener: LessonUpdateListener): () => void {
+    const listeners = updateListeners.get(lessonId) ?? new Set<LessonUpdateListener>();
+    listeners.add(listener);
+    updateListeners.set(lessonId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        updateListeners.delete(lessonId);
+      }
+    };
+  }
+
   static cacheLessonSnapshot(lessonId: string, lesson: Lesson): void {
     const normalized = normalizeLesson(lesson);
-    writeToStorage(lessonId, normalized);
+    writeToStorage(lessonId, { lesson: normalized, cachedAt: Date.now() });
   }
 }
 
-export type { LessonRuntimeOptions };
+export type { LessonRuntimeOptions, LessonUpdateListener };
@@ -0,0 +1,30 @@
+const STUDENT_ID_STORAGE_KEY = 'student-id';
+
+let fallbackStudentId: string | null = null;
+
+const createStudentId = () =>
+  `student-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Stable identifier of the student using this browser. Until accounts exist it only
+ * distinguishes browsers, which is enough to give every student their own answer order.
+ */
+export const getStudentId = (): string => {
+  if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
+    fallbackStudentId ??= createStudentId();
+    return fallbackStudentId;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(STUDENT_ID_STORAGE_KEY);
+    if (stored) return stored;
+
+    const studentId = createStudentId();
+    window.localStorage.setItem(STUDENT_ID_STORAGE_KEY, studentId);
+    return studentId;
+  } catch (error) {
+    console.warn('studentIdentity: localStorage is unavailable', error);
+    fallbackStudentId ??= createStudentId();
+    return fallbackStudentId;
+  }
+};
@@ -0,0 +1,208 @@
+import {
+  LESSON_FORMAT_VERSION,
+  TILE_VERSION,
+  UnsupportedLessonVersionError,
+  UnsupportedTileVersionError,
+  migrateLessonDocument,
+  migrateTile,
+  registerLessonMigration,
+  registerTileMigration,
+  type LessonTile,
+} from 'tiles-core';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expect = (actual: unknown) => ({
+  toBe(expected: unknown) {
+    if (actual !== expected) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+    }
+  },
+  toEqual(expected: unknown) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`);
+    }
+  },
+});
+
+const expectThrows = (fn: () => unknown, errorType: new (...args: never[]) => Error = Error) => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorType) return;
+    throw new Error(`Expected ${errorType.name}, got ${String(error)}`);
+  }
+  throw new Error('Expected the call to throw');
+};
+
+const legacyTile = (type: string, version: string | undefined, content: Record<string, unknown>) =>
+  ({ id: `${type}-1`, type, version, content }) as unknown as LessonTile;
+
+// Steps for tile types without real migrations yet, so the chains below are predictable.
+registerTileMigration('*', {
+  id: 'test/pre-release',
+  from: '<1.0.0',
+  to: '1.0.0',
+  migrate: tile => ({ ...tile, content: { ...tile.content, preRelease: true } }),
+});
+
+registerTileMigration('sequencing', {
+  id: 'test/sequencing-items',
+  from: '<1.1.0',
+  to: '1.1.0',
+  migrate: tile => {
+    const { steps, ...content } = tile.content ?? {};
+    return { ...tile, content: { ...content, items: steps } };
+  },
+});
+
+registerTileMigration('sequencing', {
+  id: 'test/sequencing-positions',
+  from: '>=1.1.0 <1.3.0',
+  to: '1.3.0',
+  migrate: tile => {
+    const items = (tile.content?.items ?? []) as Array<{ id: string }>;
+    return {
+      ...tile,
+      content: { ...tile.content, items: items.map((item, correctPosition) => ({ ...item, correctPosition })) },
+    };
+  },
+});
+
+registerLessonMigration({
+  id: 'test/lesson-pages',
+  from: '<0.5.0',
+  to: '0.5.0',
+  migrate: lesson => ({ ...lesson, total_pages: 1 }),
+});
+
+registerLessonMigration({
+  id: 'test/lesson-canvas',
+  from: '>=0.5.0 <1.0.0',
+  to: '1.0.0',
+  migrate: lesson => ({ ...lesson, canvas_settings: { width: 12 } }),
+});
+
+test('migrateTile runs every step of a chain up to TILE_VERSION', () => {
+  const { tile, report } = migrateTile(legacyTile('sequencing', '1.0.0', { steps: [{ id: 'a' }, { id: 'b' }] }));
+  expect(report.applied).toEqual(['test/sequencing-items', 'test/sequencing-positions']);
+  expect(report.fromVersion).toBe('1.0.0');
+  expect(report.toVersion).toBe(TILE_VERSION);
+  expect(tile.version).toBe(TILE_VERSION);
+  expect((tile.content as Record<string, unknown>).items).toEqual([
+    { id: 'a', correctPosition: 0 },
+    { id: 'b', correctPosition: 1 },
+  ]);
+});
+
+test('migrateTile starts the chain at the stored version', () => {
+  const { report } = migrateTile(legacyTile('sequencing', '1.2.0', { items: [] }));
+  expect(report.applied).toEqual(['test/sequencing-positions']);
+
+  const current = migrateTile(legacyTile('sequencing', TILE_VERSION, { items: [] }));
+  expect(current.report.applied).toEqual([]);
+  expect(current.tile.version).toBe(TILE_VERSION);
+});
+
+test('migrateTile treats tiles without a version as legacy', () => {
+  const { report } = migrateTile(legacyTile('sequencing', undefined, { steps: [] }));
+  expect(report.fromVersion).toBe('1.0.0');
+  expect(report.applied).toEqual(['test/sequencing-items', 'test/sequencing-positions']);
+});
+
+test('migrateTile runs shared steps before the type-specific ones', () => {
+  const { tile, report } = migrateTile(legacyTile('sequencing', '0.9.0', { steps: [] }));
+  expect(report.applied).toEqual(['test/pre-release', 'test/sequencing-items', 'test/sequencing-positions']);
+  expect((tile.content as Record<string, unknown>).preRelease).toBe(true);
+});
+
+test('migrateTile upgrades legacy tiles with the built-in steps', () => {
+  const { tile, report } = migrateTile(
+    legacyTile('visualization', '1.0.0', { data: { labels: ['a', 'b'], values: [1, '2', 'x'] } })
+  );
+  expect(report.applied).toEqual(['visualization/series-data']);
+  expect((tile.content as Record<string, unknown>).data).toEqual({
+    labels: ['a', 'b'],
+    series: [{ id: 'series-1', name: 'Seria 1', values: [1, 2] }],
+  });
+  expect(tile.version).toBe(TILE_VERSION);
+});
+
+test('migrateTile rejects newer and malformed versions', () => {
+  expectThrows(() => migrateTile(legacyTile('sequencing', '9.0.0', {})), UnsupportedTileVersionError);
+  expectThrows(() => migrateTile(legacyTile('sequencing', 'latest', {})), UnsupportedTileVersionError);
+  expectThrows(() => migrateTile(legacyTile('sequencing', '1.2.3.4', {})), UnsupportedTileVersionError);
+});
+
+test('registerTileMigration refuses duplicate ids', () => {
+  expectThrows(() =>
+    registerTileMigration('sequencing', { id: 'test/sequencing-items', from: '<1.1.0', to: '1.1.0', migrate: tile => tile })
+  );
+});
+
+test('migrateLessonDocument chains lesson steps and migrates tiles', () => {
+  const { lesson, report } = migrateLessonDocument({
+    format_version: '0.1.0',
+    tiles: [
+      legacyTile('sequencing', '1.0.0', { steps: [] }),
+      legacyTile('text', TILE_VERSION, {}),
+      'not a tile',
+    ],
+  });
+  const migrated = lesson as Record<string, unknown>;
+
+  expect(report?.fromVersion).toBe('0.1.0');
+  expect(report?.toVersion).toBe(LESSON_FORMAT_VERSION);
+  expect(report?.applied).toEqual(['test/lesson-pages', 'test/lesson-canvas']);
+  expect(report?.tiles.map(tile => tile.tileId)).toEqual(['sequencing-1']);
+  expect(migrated.format_version).toBe(LESSON_FORMAT_VERSION);
+  expect(migrated.total_pages).toBe(1);
+  expect((migrated.tiles as unknown[])[2]).toBe('not a tile');
+});
+
+test('migrateLessonDocument leaves current and non-object documents alone', () => {
+  const current = migrateLessonDocument({ format_version: LESSON_FORMAT_VERSION, tiles: [] });
+  expect(current.report?.applied).toEqual([]);
+  expect(migrateLessonDocument(null)).toEqual({ lesson: null, report: null });
+});
+
+test('migrateLessonDocument rejects newer and malformed format versions', () => {
+  expectThrows(() => migrateLessonDocument({ format_version: '2.0.0', tiles: [] }), UnsupportedLessonVersionError);
+  expectThrows(() => migrateLessonDocument({ format_version: 'one', tiles: [] }), UnsupportedLessonVersionError);
+});
+
+// Registered last: it breaks every later migration of programming tiles.
+test('migrateTile refuses steps that go past TILE_VERSION', () => {
+  registerTileMigration('programming', { id: 'test/too-new', from: '<1.3.0', to: '9.0.0', migrate: tile => tile });
+  expectThrows(() => migrateTile(legacyTile('programming', '1.0.0', {})));
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}
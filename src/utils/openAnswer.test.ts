@@ -0,0 +1,275 @@
+import { findMatchingOpenAnswer, matchesOpenAnswer, migrateTile, type OpenAnswerKey, type OpenTile } from 'tiles-core';
+import {
+  areExpressionsEquivalent,
+  createAnswerPattern,
+  getAnswerPatternProblem,
+  isWithinTolerance,
+  MAX_ANSWER_PATTERN_LENGTH,
+  MAX_PATTERN_INPUT_LENGTH,
+  parseExpression,
+  parseListAnswer,
+} from 'tiles-core/utils';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expect = (actual: unknown) => ({
+  toBe(expected: unknown) {
+    if (actual !== expected) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+    }
+  },
+  toEqual(expected: unknown) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`);
+    }
+  },
+  toBeCloseTo(expected: number, precision = 1e-9) {
+    if (typeof actual !== 'number' || Math.abs(actual - expected) > precision) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be close to ${expected}`);
+    }
+  },
+});
+
+const evaluate = (source: string, values: Record<string, number> = {}) => {
+  const parsed = parseExpression(source);
+  if (!parsed) throw new Error(`Could not parse ${JSON.stringify(source)}`);
+  return parsed.evaluate(values);
+};
+
+const openKey = ({
+  answers = [],
+  ...overrides
+}: Partial<OpenAnswerKey> & { answers?: string[] }): OpenAnswerKey => ({
+  acceptedAnswers: answers.map((value, index) => ({ id: `answer-${index + 1}`, value })),
+  ignoreCase: false,
+  ignoreWhitespace: false,
+  ...overrides,
+});
+
+test('parseExpression follows operator precedence', () => {
+  expect(evaluate('2 + 3 * 4')).toBe(14);
+  expect(evaluate('2^3^2')).toBe(512);
+  expect(evaluate('-x^2', { x: 3 })).toBe(-9);
+  expect(evaluate('2^-1')).toBe(0.5);
+  expect(evaluate('12 / 3 / 2')).toBe(2);
+  expect(evaluate('7 - 2 - 1')).toBe(4);
+});
+
+test('parseExpression reads implicit multiplication', () => {
+  expect(evaluate('2x', { x: 4 })).toBe(8);
+  expect(evaluate('(x-2)(x+2)', { x: 5 })).toBe(21);
+  expect(evaluate('3(x+1)', { x: 1 })).toBe(6);
+  expect(evaluate('xy', { x: 2, y: 5 })).toBe(10);
+  expect(evaluate('2x^2', { x: 3 })).toBe(18);
+});
+
+test('parseExpression knows functions, constants and school notation', () => {
+  expect(evaluate('sqrt(16) + |-3|')).toBe(7);
+  expect(evaluate('2,5 · 2')).toBe(5);
+  expect(evaluate('x² − 1', { x: 3 })).toBe(8);
+  expect(evaluate('√x', { x: 9 })).toBe(3);
+  expect(evaluate('tg(0) + log(100)')).toBe(2);
+  expect(evaluate('2pi')).toBeCloseTo(2 * Math.PI);
+  expect(evaluate('ln(e)')).toBeCloseTo(1);
+});
+
+test('parseExpression matches constants case-sensitively', () => {
+  expect(evaluate('ex', { x: 2 })).toBeCloseTo(2 * Math.E);
+  expect(evaluate('E', { E: 3 })).toBe(3);
+  expect(evaluate('2E + Sin(0)', { E: 4 })).toBe(8);
+  expect(parseExpression('Ex')?.variables).toEqual(['E', 'x']);
+});
+
+test('parseExpression rejects malformed input', () => {
+  expect(parseExpression('')).toBe(null);
+  expect(parseExpression('2 +')).toBe(null);
+  expect(parseExpression('(x + 1')).toBe(null);
+  expect(parseExpression('x = 2')).toBe(null);
+  expect(parseExpression('x # 2')).toBe(null);
+});
+
+test('areExpressionsEquivalent accepts equivalent forms', () => {
+  expect(areExpressionsEquivalent('x^2-4', '(x-2)(x+2)')).toBe(true);
+  expect(areExpressionsEquivalent('x^2-4', '-4+x^2')).toBe(true);
+  expect(areExpressionsEquivalent('(a+b)^2', 'a^2 + 2ab + b^2')).toBe(true);
+  expect(areExpressionsEquivalent('1/2', '0,5')).toBe(true);
+  expect(areExpressionsEquivalent('sqrt(x)', 'x^(1/2)')).toBe(true);
+  expect(areExpressionsEquivalent('sqrt(x - 9)', 'sqrt(x-9)')).toBe(true);
+});
+
+test('areExpressionsEquivalent rejects different expressions', () => {
+  expect(areExpressionsEquivalent('x^2-4', '(x-2)^2')).toBe(false);
+  expect(areExpressionsEquivalent('x^2-4', 'x^2+4')).toBe(false);
+  expect(areExpressionsEquivalent('x', 'sqrt(x^2)')).toBe(false);
+  expect(areExpressionsEquivalent('2x', '2y')).toBe(false);
+  expect(areExpressionsEquivalent('x^2-4', 'x^2-4+')).toBe(false);
+  expect(areExpressionsEquivalent('x^2-4', 'x^2 - 4.0000001x')).toBe(false);
+});
+
+test('areExpressionsEquivalent is deterministic for a seed', () => {
+  const first = areExpressionsEquivalent('x^3', 'x*x*x', { seed: 'uczen-1', samples: 5 });
+  const second = areExpressionsEquivalent('x^3', 'x*x*x', { seed: 'uczen-1', samples: 5 });
+  expect(first).toBe(true);
+  expect(second).toBe(first);
+});
+
+test('isWithinTolerance uses the larger tolerance', () => {
+  expect(isWithinTolerance(10.4, 10, { absolute: 0.5 })).toBe(true);
+  expect(isWithinTolerance(10.6, 10, { absolute: 0.5 })).toBe(false);
+  expect(isWithinTolerance(101, 100, { relative: 0.01 })).toBe(true);
+  expect(isWithinTolerance(102, 100, { absolute: 1, relative: 0.01 })).toBe(false);
+  expect(isWithinTolerance(0.1 + 0.2, 0.3, {})).toBe(true);
+});
+
+test('matchesOpenAnswer compares text with the case and whitespace options', () => {
+  expect(matchesOpenAnswer(openKey({ answers: ['Warszawa'] }), 'Warszawa')).toBe(true);
+  expect(matchesOpenAnswer(openKey({ answers: ['Warszawa'] }), 'warszawa')).toBe(false);
+  expect(matchesOpenAnswer(openKey({ answers: ['Warszawa'], ignoreCase: true }), 'warszawa')).toBe(true);
+  expect(matchesOpenAnswer(openKey({ answers: ['a b'], ignoreWhitespace: true }), 'ab')).toBe(true);
+  expect(matchesOpenAnswer(openKey({ answers: [''] }), '   ')).toBe(false);
+});
+
+test('matchesOpenAnswer checks numbers within the tolerance', () => {
+  const key = openKey({ answerMode: 'numeric', answers: ['3,14'], absoluteTolerance: 0.01 });
+  expect(matchesOpenAnswer(key, '3.141')).toBe(true);
+  expect(matchesOpenAnswer(key, '3,2')).toBe(false);
+  expect(matchesOpenAnswer(key, 'pi')).toBe(false);
+  expect(matchesOpenAnswer(openKey({ answerMode: 'numeric', answers: ['200'], relativeTolerance: 0.05 }), '209')).toBe(true);
+  expect(matchesOpenAnswer(openKey({ answerMode: 'numeric', answers: ['2'] }), '2,0')).toBe(true);
+});
+
+test('matchesOpenAnswer checks expressions by equivalence', () => {
+  const key = openKey({ answerMode: 'expression', answers: ['x^2-4'] });
+  expect(matchesOpenAnswer(key, '(x-2)(x+2)')).toBe(true);
+  expect(matchesOpenAnswer(key, '-4+x^2')).toBe(true);
+  expect(matchesOpenAnswer(key, 'x^2-2')).toBe(false);
+  expect(matchesOpenAnswer(key, '')).toBe(false);
+});
+
+test('matchesOpenAnswer accepts any of several answers', () => {
+  const key = openKey({ answers: ['Warszawa', 'm. st. Warszawa'], ignoreCase: true });
+  expect(matchesOpenAnswer(key, 'warszawa')).toBe(true);
+  expect(matchesOpenAnswer(key, 'M. st. Warszawa')).toBe(true);
+  expect(matchesOpenAnswer(key, 'Kraków')).toBe(false);
+  expect(matchesOpenAnswer(openKey({ answers: [] }), 'Warszawa')).toBe(false);
+  expect(matchesOpenAnswer(openKey({ answers: ['', '  '] }), ' ')).toBe(false);
+});
+
+test('matchesOpenAnswer tests pattern answers against the whole answer', () => {
+  const key = openKey({
+    acceptedAnswers: [{ id: 'a', value: '(m\\. ?st\\. ?)?warszawa', isPattern: true }],
+    ignoreCase: true,
+  });
+  expect(matchesOpenAnswer(key, 'Warszawa')).toBe(true);
+  expect(matchesOpenAnswer(key, ' m.st. Warszawa ')).toBe(true);
+  expect(matchesOpenAnswer(key, 'Warszawa Zachodnia')).toBe(false);
+  expect(matchesOpenAnswer({ ...key, ignoreCase: false }, 'Warszawa')).toBe(false);
+  expect(matchesOpenAnswer(openKey({ acceptedAnswers: [{ id: 'a', value: '(', isPattern: true }] }), '(')).toBe(false);
+});
+
+test('findMatchingOpenAnswer returns the matched answer for its feedback', () => {
+  const key = openKey({
+    acceptedAnswers: [
+      { id: 'full', value: 'Warszawa', feedback: '<p>Dokładnie tak.</p>' },
+      { id: 'short', value: 'Wawa', feedback: '<p>Poprawnie, ale pełna nazwa to Warszawa.</p>' },
+    ],
+  });
+  expect(findMatchingOpenAnswer(key, 'Wawa')?.id).toBe('short');
+  expect(findMatchingOpenAnswer(key, 'Warszawa')?.id).toBe('full');
+  expect(findMatchingOpenAnswer(key, 'Gdańsk')).toBe(undefined);
+});
+
+test('createAnswerPattern anchors patterns and rejects invalid ones', () => {
+  expect(createAnswerPattern('ab?c')?.test('ac')).toBe(true);
+  expect(createAnswerPattern('ab?c')?.test('xacx')).toBe(false);
+  expect(createAnswerPattern('a|b')?.test('ab')).toBe(false);
+  expect(createAnswerPattern('[a-')).toBe(null);
+});
+
+test('getAnswerPatternProblem refuses patterns that can freeze the browser', () => {
+  expect(getAnswerPatternProblem('(m\\. ?st\\. ?)?warszawa')).toBe(null);
+  expect(getAnswerPatternProblem('(ab)+|\\d{2,4}')).toBe(null);
+  expect(getAnswerPatternProblem('[(a+)]+')).toBe(null);
+  expect(getAnswerPatternProblem('(a+)+b')).toBe('nested-quantifier');
+  expect(getAnswerPatternProblem('(?:\\w*x)*')).toBe('nested-quantifier');
+  expect(getAnswerPatternProblem('((a)?b)+')).toBe('nested-quantifier');
+  expect(getAnswerPatternProblem('(a{1,3}){2,}')).toBe('nested-quantifier');
+  expect(getAnswerPatternProblem('a'.repeat(MAX_ANSWER_PATTERN_LENGTH + 1))).toBe('too-long');
+  expect(getAnswerPatternProblem('a)|(b')).toBe('invalid');
+  expect(createAnswerPattern('(a+)+b')).toBe(null);
+});
+
+test('matchesOpenAnswer does not run patterns against overly long answers', () => {
+  const key = openKey({ acceptedAnswers: [{ id: 'a', value: 'a+', isPattern: true }] });
+  expect(matchesOpenAnswer(key, 'a'.repeat(MAX_PATTERN_INPUT_LENGTH))).toBe(true);
+  expect(matchesOpenAnswer(key, 'a'.repeat(MAX_PATTERN_INPUT_LENGTH + 1))).toBe(false);
+});
+
+test('parseListAnswer reads bracketed, quoted and bare lists', () => {
+  expect(parseListAnswer("['napis1', 'napis2', 'napis3']")).toEqual(['napis1', 'napis2', 'napis3']);
+  expect(parseListAnswer('["a, b", "c"]')).toEqual(['a, b', 'c']);
+  expect(parseListAnswer('1; 2; 3')).toEqual(['1', '2', '3']);
+  expect(parseListAnswer('[x, y,]')).toEqual(['x', 'y']);
+  expect(parseListAnswer("[' a ', '']")).toEqual([' a ', '']);
+  expect(parseListAnswer('[]')).toEqual([]);
+  expect(parseListAnswer("['a', 'b]")).toBe(null);
+});
+
+test('matchesOpenAnswer compares lists in order or in any order', () => {
+  const ordered = openKey({ answerMode: 'list', answers: ["['napis1', 'napis2', 'napis3']"] });
+  expect(matchesOpenAnswer(ordered, "['napis1', 'napis2', 'napis3']")).toBe(true);
+  expect(matchesOpenAnswer(ordered, 'napis1, napis2, napis3')).toBe(true);
+  expect(matchesOpenAnswer(ordered, "['napis2', 'napis1', 'napis3']")).toBe(false);
+  expect(matchesOpenAnswer(ordered, "['napis1', 'napis2']")).toBe(false);
+  expect(matchesOpenAnswer(ordered, "['Napis1', 'napis2', 'napis3']")).toBe(false);
+
+  const unordered = { ...ordered, ignoreListOrder: true, ignoreCase: true };
+  expect(matchesOpenAnswer(unordered, "['napis3', 'NAPIS1', 'napis2']")).toBe(true);
+  expect(matchesOpenAnswer(unordered, "['napis3', 'napis3', 'napis2']")).toBe(false);
+});
+
+test('migrateTile moves the single correct answer into accepted answers', () => {
+  const legacy = {
+    id: 'open-1',
+    type: 'open',
+    version: '1.2.0',
+    content: { correctAnswer: 'Warszawa', ignoreCase: true },
+  } as unknown as OpenTile;
+  const { tile, report } = migrateTile(legacy);
+  expect(tile.content.acceptedAnswers).toEqual([{ id: 'answer-1', value: 'Warszawa' }]);
+  expect('correctAnswer' in tile.content).toBe(false);
+  expect(report.applied).toEqual(['open/accepted-answers']);
+
+  const empty = migrateTile({ ...legacy, content: { correctAnswer: '  ' } } as unknown as OpenTile);
+  expect(empty.tile.content.acceptedAnswers).toEqual([]);
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}
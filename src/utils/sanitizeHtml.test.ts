@@ -0,0 +1,159 @@
+import { sanitizeHtml } from 'tiles-core/utils';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expect = (actual: string) => ({
+  toBe(expected: string) {
+    if (actual !== expected) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+    }
+  },
+  not: {
+    toContain(fragment: string) {
+      if (actual.toLowerCase().includes(fragment.toLowerCase())) {
+        throw new Error(`Expected ${JSON.stringify(actual)} not to contain ${JSON.stringify(fragment)}`);
+      }
+    },
+  },
+});
+
+test('sanitizeHtml keeps markup produced by the rich text editor', () => {
+  const html =
+    '<p style="text-align: center;"><strong>Zadanie</strong> <em>1</em> <u>a</u> <s>b</s></p>' +
+    '<ul class="bullet-list"><li><p><span style="color: #ff0000; font-family: Inter; font-size: 18px;">x</span></p></li></ul>' +
+    '<ol class="ordered-list" start="3"><li><p>y<br></p></li></ol>';
+  expect(sanitizeHtml(html)).toBe(html);
+});
+
+test('sanitizeHtml keeps the default empty paragraph', () => {
+  expect(sanitizeHtml('<p style="margin: 0;"></p>')).toBe('<p style="margin: 0;"></p>');
+});
+
+test('sanitizeHtml removes script elements with their content', () => {
+  expect(sanitizeHtml('<p>a</p><script>alert(1)</script><p>b</p>')).toBe('<p>a</p><p>b</p>');
+  expect(sanitizeHtml('<SCRIPT src="//evil.example"></SCRIPT >x')).toBe('x');
+  expect(sanitizeHtml('<p>a<script>alert(1)')).toBe('<p>a');
+});
+
+test('sanitizeHtml removes style, iframe and textarea content', () => {
+  expect(sanitizeHtml('<style>p { background: url(javascript:alert(1)) }</style><p>a</p>')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<iframe src="javascript:alert(1)"></iframe>ok')).toBe('ok');
+  expect(sanitizeHtml('<textarea><img src=x onerror=alert(1)></textarea>ok')).toBe('ok');
+});
+
+test('sanitizeHtml unwraps disallowed elements and keeps their text', () => {
+  expect(sanitizeHtml('<section><img src=x onerror=alert(1)>tekst</section>')).toBe('tekst');
+  expect(sanitizeHtml('<svg onload=alert(1)><g>x</g></svg>')).toBe('x');
+  expect(sanitizeHtml('<form action="https://evil.example"><button>Wyślij</button></form>')).toBe('Wyślij');
+});
+
+test('sanitizeHtml drops event handler attributes', () => {
+  expect(sanitizeHtml('<p onclick="alert(1)" class="lead">a</p>')).toBe('<p class="lead">a</p>');
+  expect(sanitizeHtml('<p/onmouseover=alert(1)>a</p>')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<span ONFOCUS=alert(1) tabindex=0>a</span>')).toBe('<span>a</span>');
+});
+
+test('sanitizeHtml rejects script URLs in links', () => {
+  expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href="JaVaScRiPt:alert(1)">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href="java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href="&#106;avascript&colon;alert(1)">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href="&#x6A;avascript:alert(1)">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href=" data:text/html,<script>alert(1)</script>">x</a>')).toBe('<a>x</a>');
+  expect(sanitizeHtml('<a href=vbscript:msgbox(1)>x</a>')).toBe('<a>x</a>');
+});
+
+test('sanitizeHtml keeps safe links and enforces rel on new tabs', () => {
+  expect(sanitizeHtml('<a href="https://example.com/a?b=1&amp;c=2" target="_blank">x</a>')).toBe(
+    '<a href="https://example.com/a?b=1&amp;c=2" target="_blank" rel="noopener noreferrer nofollow">x</a>'
+  );
+  expect(sanitizeHtml('<a href="/lekcje/1#zadanie">x</a>')).toBe('<a href="/lekcje/1#zadanie">x</a>');
+  expect(sanitizeHtml('<a href="mailto:nauczyciel@example.com">x</a>')).toBe(
+    '<a href="mailto:nauczyciel@example.com">x</a>'
+  );
+});
+
+test('sanitizeHtml filters inline styles to the editor properties', () => {
+  expect(sanitizeHtml('<span style="color: red; background-image: url(javascript:alert(1))">a</span>')).toBe(
+    '<span style="color: red;">a</span>'
+  );
+  expect(sanitizeHtml('<span style="color: expression(alert(1))">a</span>')).toBe('<span>a</span>');
+  expect(sanitizeHtml('<p style="position: fixed; top: 0; left: 0; width: 100%">a</p>')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<span style="font-family: &quot;Inter&quot;, sans-serif">a</span>')).toBe(
+    '<span style="font-family: &quot;Inter&quot;, sans-serif;">a</span>'
+  );
+});
+
+test('sanitizeHtml cannot be tricked into breaking out of attributes', () => {
+  expect(sanitizeHtml('<p class="a&quot; onclick=&quot;alert(1)">x</p>')).toBe('<p>x</p>');
+  expect(sanitizeHtml('<p class="x" class="y onclick=alert(1)">x</p>')).toBe('<p class="x">x</p>');
+  expect(sanitizeHtml('<p title="a>b" onclick=alert(1)>x</p>')).toBe('<p>x</p>');
+});
+
+test('sanitizeHtml drops comments, declarations and broken tags', () => {
+  expect(sanitizeHtml('<!-- <script>alert(1)</script> --><p>a</p>')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<!DOCTYPE html><?xml version="1.0"?><p>a</p>')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<p>a</p><img src="x" onerror="alert(1)')).toBe('<p>a</p>');
+  expect(sanitizeHtml('<scr<script>ipt>alert(1)</script>')).toBe('ipt&gt;alert(1)');
+});
+
+test('sanitizeHtml keeps formula nodes with their LaTeX source', () => {
+  const html =
+    '<p>Pole: <span data-type="math-inline" data-latex="\\pi r^2">\\pi r^2</span></p>' +
+    '<div data-type="math-block" data-latex="a &lt; b">a &lt; b</div>';
+  expect(sanitizeHtml(html)).toBe(html);
+  expect(sanitizeHtml('<span data-type="mention" data-id="1">x</span>')).toBe('<span>x</span>');
+  expect(sanitizeHtml('<div data-latex="&quot;><script>alert(1)</script>">x</div>')).toBe(
+    '<div data-latex="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">x</div>'
+  );
+});
+
+test('sanitizeHtml escapes stray angle brackets in text', () => {
+  expect(sanitizeHtml('<p>2 < 3 > 1</p>')).toBe('<p>2 &lt; 3 &gt; 1</p>');
+  expect(sanitizeHtml('<p>a &lt;script&gt; b</p>')).toBe('<p>a &lt;script&gt; b</p>');
+});
+
+test('sanitizeHtml is idempotent', () => {
+  const hostile =
+    '<p style="text-align: right" onclick=x>a<a href="java&#x09;script:alert(1)" target=_blank>b</a><img src=x onerror=y></p>';
+  const once = sanitizeHtml(hostile);
+  expect(sanitizeHtml(once)).toBe(once);
+  expect(once).not.toContain('onclick');
+  expect(once).not.toContain('javascript');
+});
+
+test('sanitizeHtml returns an empty string for missing input', () => {
+  expect(sanitizeHtml(undefined)).toBe('');
+  expect(sanitizeHtml(null)).toBe('');
+  expect(sanitizeHtml('')).toBe('');
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}
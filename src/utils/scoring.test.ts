@@ -0,0 +1,181 @@
+import {
+  scoreBlanksAnswer,
+  scoreInteractiveAnswer,
+  scorePairingAnswer,
+  scoreQuizAnswer,
+  scoreSequencingAnswer,
+  scoreTileAnswer,
+  type InteractiveTileContent,
+  type LessonTile,
+  type TileScore,
+} from 'tiles-core';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expectScore = (actual: TileScore, expected: TileScore) => {
+  if (
+    actual.isCorrect !== expected.isCorrect ||
+    actual.score !== expected.score ||
+    actual.maxScore !== expected.maxScore
+  ) {
+    throw new Error(`Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`);
+  }
+};
+
+const quizAnswers = (correct: number[], count: number) =>
+  Array.from({ length: count }, (_, index) => ({ text: `Odpowiedź ${index + 1}`, isCorrect: correct.includes(index) }));
+
+const interactiveQuiz = (correct: string[], ids: string[], multipleCorrect = false): InteractiveTileContent => ({
+  title: '',
+  description: '',
+  interactionType: 'quiz',
+  data: {
+    multipleCorrect,
+    options: ids.map(id => ({ id, text: id, isCorrect: correct.includes(id) })),
+  },
+});
+
+const clickTile = (correct: string[], ids: string[]): InteractiveTileContent => ({
+  title: '',
+  description: '',
+  interactionType: 'click',
+  data: {
+    imageUrl: '',
+    hotspots: ids.map(id => ({ id, label: id, x: 0, y: 0, width: 10, height: 10, isCorrect: correct.includes(id) })),
+  },
+});
+
+test('scoreQuizAnswer is all-or-nothing for single choice', () => {
+  const content = { answers: quizAnswers([0], 4), multipleCorrect: false };
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0] }), { isCorrect: true, score: 1, maxScore: 1 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [2] }), { isCorrect: false, score: 0, maxScore: 1 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [] }), { isCorrect: false, score: 0, maxScore: 1 });
+});
+
+test('scoreQuizAnswer gives per-option credit for multiple choice', () => {
+  const content = { answers: quizAnswers([0, 1], 5), multipleCorrect: true };
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0, 1] }), { isCorrect: true, score: 5, maxScore: 5 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0] }), { isCorrect: false, score: 4, maxScore: 5 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0, 1, 2, 3, 4] }), { isCorrect: false, score: 2, maxScore: 5 });
+});
+
+test('scoreQuizAnswer gives nothing when no correct option is picked', () => {
+  const content = { answers: quizAnswers([0, 1], 5), multipleCorrect: true };
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [4] }), { isCorrect: false, score: 0, maxScore: 5 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [] }), { isCorrect: false, score: 0, maxScore: 5 });
+});
+
+test('scoreQuizAnswer subtracts wrong picks with negative marking', () => {
+  const content = { answers: quizAnswers([0, 1], 4), multipleCorrect: true, negativeMarking: true };
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0, 1] }), { isCorrect: true, score: 2, maxScore: 2 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0, 2] }), { isCorrect: false, score: 0, maxScore: 2 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [0] }), { isCorrect: false, score: 1, maxScore: 2 });
+  expectScore(scoreQuizAnswer(content, { selectedAnswers: [2, 3] }), { isCorrect: false, score: 0, maxScore: 2 });
+});
+
+test('scoreInteractiveAnswer treats a quiz with one correct option as single choice', () => {
+  const content = interactiveQuiz(['a'], ['a', 'b', 'c', 'd']);
+  const answer = (selectedIds: string[]) => ({ interactionType: 'quiz' as const, selectedIds });
+  expectScore(scoreInteractiveAnswer(content, answer(['a'])), { isCorrect: true, score: 1, maxScore: 1 });
+  expectScore(scoreInteractiveAnswer(content, answer(['b'])), { isCorrect: false, score: 0, maxScore: 1 });
+});
+
+test('scoreInteractiveAnswer gives per-option credit to multiple-choice quizzes', () => {
+  const answer = (selectedIds: string[]) => ({ interactionType: 'quiz' as const, selectedIds });
+  const flagged = interactiveQuiz(['a'], ['a', 'b', 'c'], true);
+  expectScore(scoreInteractiveAnswer(flagged, answer(['a', 'b'])), { isCorrect: false, score: 2, maxScore: 3 });
+  const several = interactiveQuiz(['a', 'b'], ['a', 'b', 'c']);
+  expectScore(scoreInteractiveAnswer(several, answer(['a'])), { isCorrect: false, score: 2, maxScore: 3 });
+  expectScore(scoreInteractiveAnswer(several, answer(['c'])), { isCorrect: false, score: 0, maxScore: 3 });
+});
+
+test('scoreInteractiveAnswer scores hotspots like single or multiple choice', () => {
+  const answer = (selectedIds: string[]) => ({ interactionType: 'click' as const, selectedIds });
+  const single = clickTile(['a'], ['a', 'b', 'c']);
+  expectScore(scoreInteractiveAnswer(single, answer(['a'])), { isCorrect: true, score: 1, maxScore: 1 });
+  expectScore(scoreInteractiveAnswer(single, answer(['c'])), { isCorrect: false, score: 0, maxScore: 1 });
+  const multiple = clickTile(['a', 'b'], ['a', 'b', 'c']);
+  expectScore(scoreInteractiveAnswer(multiple, answer(['a', 'b'])), { isCorrect: true, score: 3, maxScore: 3 });
+  expectScore(scoreInteractiveAnswer(multiple, answer(['c'])), { isCorrect: false, score: 0, maxScore: 3 });
+});
+
+test('scoreInteractiveAnswer rejects an answer for another interaction type', () => {
+  const content = interactiveQuiz(['a'], ['a', 'b']);
+  expectScore(scoreInteractiveAnswer(content, { interactionType: 'input', value: '1' }), {
+    isCorrect: false,
+    score: 0,
+    maxScore: 1,
+  });
+});
+
+test('scoreBlanksAnswer and scorePairingAnswer give a point per item', () => {
+  const blanks = {
+    blanks: [
+      { id: 'b1', correctOptionId: 'o1' },
+      { id: 'b2', correctOptionId: 'o2' },
+    ],
+  };
+  expectScore(scoreBlanksAnswer(blanks, { placements: { b1: 'o1', b2: null } }), { isCorrect: false, score: 1, maxScore: 2 });
+
+  const pairs = { pairs: ['p1', 'p2', 'p3'].map(id => ({ id, left: `${id}-L`, right: `${id}-P` })) };
+  const connections = [
+    { leftId: 'p1', rightId: 'p1' },
+    { leftId: 'p2', rightId: 'p3' },
+    { leftId: 'p3', rightId: 'p3' },
+  ];
+  expectScore(scorePairingAnswer(pairs, { connections }), { isCorrect: false, score: 2, maxScore: 3 });
+});
+
+test('scoreSequencingAnswer credits the longest correctly ordered run', () => {
+  const content = {
+    items: ['a', 'b', 'c', 'd'].map((id, correctPosition) => ({ id, text: id, correctPosition })),
+  };
+  expectScore(scoreSequencingAnswer(content, { order: ['a', 'b', 'c', 'd'] }), { isCorrect: true, score: 4, maxScore: 4 });
+  expectScore(scoreSequencingAnswer(content, { order: ['d', 'a', 'b', 'c'] }), { isCorrect: false, score: 3, maxScore: 4 });
+  expectScore(scoreSequencingAnswer(content, { order: ['a', null, 'c', 'd'] }), { isCorrect: false, score: 3, maxScore: 4 });
+});
+
+test('scoreTileAnswer scales raw points to the tile weight', () => {
+  const tile = {
+    id: 'quiz-1',
+    type: 'quiz',
+    weight: 3,
+    content: { answers: quizAnswers([0, 1], 4), multipleCorrect: true },
+  } as unknown as LessonTile<'quiz'>;
+  expectScore(scoreTileAnswer(tile, { selectedAnswers: [0] }), { isCorrect: false, score: 2.25, maxScore: 3 });
+  expectScore(scoreTileAnswer({ ...tile, weight: undefined }, { selectedAnswers: [0, 1] }), {
+    isCorrect: true,
+    score: 1,
+    maxScore: 1,
+  });
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}
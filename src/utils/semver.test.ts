@@ -0,0 +1,118 @@
+import { compareVersions, parseVersion, satisfiesVersionRange } from 'tiles-core/utils';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expect = (actual: unknown) => ({
+  toBe(expected: unknown) {
+    if (actual !== expected) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+    }
+  },
+  toEqual(expected: unknown) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`);
+    }
+  },
+});
+
+const expectThrows = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch {
+    return;
+  }
+  throw new Error('Expected the call to throw');
+};
+
+test('parseVersion reads full, partial and prefixed versions', () => {
+  expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3 });
+  expect(parseVersion(' v2.0.1 ')).toEqual({ major: 2, minor: 0, patch: 1 });
+  expect(parseVersion('1.2')).toEqual({ major: 1, minor: 2, patch: 0 });
+  expect(parseVersion('1.x')).toEqual({ major: 1, minor: 0, patch: 0 });
+});
+
+test('parseVersion rejects malformed versions', () => {
+  expect(parseVersion('')).toBe(null);
+  expect(parseVersion('abc')).toBe(null);
+  expect(parseVersion('1.2.3.4')).toBe(null);
+  expect(parseVersion('1.2.3-beta')).toBe(null);
+  expect(parseVersion('-1.0.0')).toBe(null);
+});
+
+test('compareVersions orders by major, minor and patch', () => {
+  expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+  expect(compareVersions('1.10.0', '1.9.9') > 0).toBe(true);
+  expect(compareVersions('1.0.9', '1.1.0') < 0).toBe(true);
+  expect(compareVersions('2.0.0', { major: 1, minor: 99, patch: 99 }) > 0).toBe(true);
+  expectThrows(() => compareVersions('1.0.0', 'latest'));
+});
+
+test('satisfiesVersionRange handles single comparators', () => {
+  expect(satisfiesVersionRange('1.2.9', '<1.3.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.0', '<1.3.0')).toBe(false);
+  expect(satisfiesVersionRange('1.3.0', '<=1.3.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.1', '>1.3.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.0', '=1.3.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.0', '1.3.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.1', '1.3.0')).toBe(false);
+});
+
+test('satisfiesVersionRange handles compound ranges and alternatives', () => {
+  expect(satisfiesVersionRange('1.1.0', '>=1.0.0 <1.2.0')).toBe(true);
+  expect(satisfiesVersionRange('1.2.0', '>=1.0.0 <1.2.0')).toBe(false);
+  expect(satisfiesVersionRange('0.9.0', '>=1.0.0 <1.2.0')).toBe(false);
+  expect(satisfiesVersionRange('1.1.0', '>= 1.0.0 < 1.2.0')).toBe(true);
+  expect(satisfiesVersionRange('3.0.0', '<1.0.0 || >=3.0.0')).toBe(true);
+  expect(satisfiesVersionRange('2.0.0', '<1.0.0 || >=3.0.0')).toBe(false);
+});
+
+test('satisfiesVersionRange expands caret, tilde and wildcard ranges', () => {
+  expect(satisfiesVersionRange('1.9.0', '^1.2.0')).toBe(true);
+  expect(satisfiesVersionRange('2.0.0', '^1.2.0')).toBe(false);
+  expect(satisfiesVersionRange('0.2.5', '^0.2.1')).toBe(true);
+  expect(satisfiesVersionRange('0.3.0', '^0.2.1')).toBe(false);
+  expect(satisfiesVersionRange('1.2.7', '~1.2.0')).toBe(true);
+  expect(satisfiesVersionRange('1.3.0', '~1.2.0')).toBe(false);
+  expect(satisfiesVersionRange('1.1.4', '1.1.x')).toBe(true);
+  expect(satisfiesVersionRange('1.2.0', '1.1.x')).toBe(false);
+  expect(satisfiesVersionRange('1.9.9', '1.x')).toBe(true);
+  expect(satisfiesVersionRange('7.0.0', '*')).toBe(true);
+});
+
+test('satisfiesVersionRange rejects unknown versions and malformed ranges', () => {
+  expect(satisfiesVersionRange('latest', '*')).toBe(false);
+  expect(satisfiesVersionRange('', '<1.0.0')).toBe(false);
+  expect(satisfiesVersionRange('1.0.0', '<one')).toBe(false);
+  expect(satisfiesVersionRange('1.0.0', '>=1.0.0 <banana')).toBe(false);
+  expect(satisfiesVersionRange('1.0.0', '<=1.0.0 || nonsense')).toBe(true);
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}
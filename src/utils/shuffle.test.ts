@@ -0,0 +1,126 @@
+import {
+  createSeededRandom,
+  createShuffleSeed,
+  getTileShuffleSeed,
+  hashString,
+  seededShuffle,
+} from 'tiles-core';
+
+type TestFn = () => void;
+interface TestCase {
+  name: string;
+  fn: TestFn;
+}
+
+const tests: TestCase[] = [];
+
+const test = (name: string, fn: TestFn) => {
+  tests.push({ name, fn });
+};
+
+const expect = (actual: unknown) => ({
+  toBe(expected: unknown) {
+    if (actual !== expected) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to be ${JSON.stringify(expected)}`);
+    }
+  },
+  toEqual(expected: unknown) {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`Expected ${JSON.stringify(actual)} to equal ${JSON.stringify(expected)}`);
+    }
+  },
+  not: {
+    toEqual(expected: unknown) {
+      if (JSON.stringify(actual) === JSON.stringify(expected)) {
+        throw new Error(`Expected ${JSON.stringify(actual)} not to equal ${JSON.stringify(expected)}`);
+      }
+    },
+  },
+});
+
+const ITEMS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+
+const sorted = (values: readonly string[]) => [...values].sort();
+
+test('createSeededRandom repeats its sequence for a seed', () => {
+  const first = createSeededRandom('uczen-1');
+  const second = createSeededRandom('uczen-1');
+  const firstValues = Array.from({ length: 5 }, () => first());
+  const secondValues = Array.from({ length: 5 }, () => second());
+  expect(firstValues).toEqual(secondValues);
+  expect(firstValues.every(value => value >= 0 && value < 1)).toBe(true);
+  expect(createSeededRandom('uczen-2')()).not.toEqual(firstValues[0]);
+});
+
+test('hashString is stable and unsigned', () => {
+  expect(hashString('')).toBe(2166136261);
+  expect(hashString('lekcja')).toBe(hashString('lekcja'));
+  expect(hashString('lekcja') >= 0).toBe(true);
+  expect(hashString('lekcja-1')).not.toEqual(hashString('lekcja-2'));
+});
+
+test('seededShuffle gives the same order for the same seed', () => {
+  const seed = getTileShuffleSeed(createShuffleSeed('student-1', 'lesson-1', 1), 'tile-1');
+  expect(seededShuffle(ITEMS, seed)).toEqual(seededShuffle(ITEMS, seed));
+});
+
+test('seededShuffle keeps known orders stable', () => {
+  // A changed order here means reviewers would no longer see what students saw.
+  expect(seededShuffle(['a', 'b', 'c', 'd', 'e'], 'student-1:lesson-1:1:tile-1')).toEqual(['d', 'b', 'a', 'c', 'e']);
+});
+
+test('seededShuffle gives different orders for different seeds', () => {
+  const orders = new Set(
+    ['student-1', 'student-2', 'student-3', 'student-4'].map(student =>
+      JSON.stringify(seededShuffle(ITEMS, createShuffleSeed(student, 'lesson-1', 1)))
+    )
+  );
+  expect(orders.size > 1).toBe(true);
+  expect(seededShuffle(ITEMS, 'attempt:1')).not.toEqual(seededShuffle(ITEMS, 'attempt:2'));
+});
+
+test('seededShuffle returns a permutation and leaves the input alone', () => {
+  const input = [...ITEMS];
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const shuffled = seededShuffle(input, `seed-${attempt}`);
+    expect(shuffled.length).toBe(ITEMS.length);
+    expect(sorted(shuffled)).toEqual(sorted(ITEMS));
+  }
+  expect(input).toEqual(ITEMS);
+  expect(seededShuffle([], 'seed')).toEqual([]);
+  expect(seededShuffle(['only'], 'seed')).toEqual(['only']);
+});
+
+test('seededShuffle can avoid the original order', () => {
+  const pair = ['a', 'b'];
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const shuffled = seededShuffle(pair, `seed-${attempt}`, { avoidOriginalOrder: true });
+    expect(shuffled).toEqual(['b', 'a']);
+  }
+  expect(seededShuffle(['a'], 'seed', { avoidOriginalOrder: true })).toEqual(['a']);
+});
+
+test('shuffle seeds include the student, lesson, attempt and tile', () => {
+  expect(createShuffleSeed('student-1', 'lesson-1', 2)).toBe('student-1:lesson-1:2');
+  expect(getTileShuffleSeed('student-1:lesson-1:2', 'tile-9')).toBe('student-1:lesson-1:2:tile-9');
+});
+
+let failures = 0;
+
+tests.forEach(({ name, fn }) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(error instanceof Error ? error.message : error);
+  }
+});
+
+if (failures > 0) {
+  const globalProcess = (globalThis as { process?: { exitCode?: number } }).process;
+  if (globalProcess) {
+    globalProcess.exitCode = 1;
+  }
+}